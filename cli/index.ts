@@ -0,0 +1,211 @@
+import { readFileSync, readdirSync, statSync } from "node:fs";
+import { extname, join } from "node:path";
+import { EngineResult, analyzeProject } from "../src/engine";
+import { PROJECT_EXTENSION } from "../src/projectFormat";
+import { DEFAULT_PRECISION } from "../src/calculations";
+import { CalculationPrecision } from "../src/types";
+
+type OutputFormat = "table" | "json" | "csv";
+
+// Коды завершения
+const EXIT_OK = 0;
+const EXIT_VALIDATION = 1; // В схемах есть ошибки проверки
+const EXIT_FAILURE = 2; // Файл не прочитан или неверные аргументы
+
+const USAGE = `Расчет надежности схем без интерфейса
+
+Использование: vs-cli [--format table|json|csv] [--exact [--digits N]]
+                <файл или каталог>...
+
+Каталог обрабатывается целиком: все файлы .${PROJECT_EXTENSION} и .json в нем.
+--exact - расчет точными дробями без округления промежуточных результатов,
+G выводится с N знаками после запятой (1..50, по умолчанию ${DEFAULT_PRECISION.digits}).
+Коды завершения: ${EXIT_OK} - все схемы в порядке, ${EXIT_VALIDATION} - есть ошибки
+проверки схемы, ${EXIT_FAILURE} - файл не прочитан или неверные аргументы.
+`;
+
+// Результат по одному файлу: расчет или сообщение об ошибке чтения
+type FileReport =
+  | { file: string; result: EngineResult }
+  | { file: string; error: string };
+
+function parseArgs(args: string[]): {
+  format: OutputFormat;
+  precision: CalculationPrecision;
+  inputs: string[];
+} | null {
+  let format: OutputFormat = "table";
+  const precision = { ...DEFAULT_PRECISION };
+  const inputs: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--format" || arg === "-f") {
+      const value = args[++i];
+      if (value !== "table" && value !== "json" && value !== "csv") {
+        return null;
+      }
+      format = value;
+    } else if (arg === "--exact") {
+      precision.exact = true;
+    } else if (arg === "--digits") {
+      const digits = Number(args[++i]);
+      if (!Number.isInteger(digits) || digits < 1 || digits > 50) return null;
+      precision.digits = digits;
+    } else if (arg.startsWith("-")) {
+      return null;
+    } else {
+      inputs.push(arg);
+    }
+  }
+  return inputs.length > 0 ? { format, precision, inputs } : null;
+}
+
+/**
+ * Файлы схем: сами файлы и содержимое каталогов (по алфавиту)
+ */
+function collectFiles(inputs: string[]): string[] {
+  return inputs.flatMap((input) => {
+    if (!statSync(input).isDirectory()) return [input];
+    return readdirSync(input)
+      .filter((name) =>
+        [`.${PROJECT_EXTENSION}`, ".json"].includes(extname(name)),
+      )
+      .sort()
+      .map((name) => join(input, name));
+  });
+}
+
+function analyzeFile(
+  file: string,
+  precision: CalculationPrecision,
+): FileReport {
+  try {
+    return {
+      file,
+      result: analyzeProject(readFileSync(file, "utf-8"), precision),
+    };
+  } catch (error) {
+    return {
+      file,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+const formatNumber = (value: number | null) =>
+  value === null ? "-" : value.toFixed(6);
+
+// G: в точном режиме - с заданным числом знаков
+const reliabilityText = (result: EngineResult) =>
+  result.exactReliability ?? formatNumber(result.reliability);
+
+const errorCount = (result: EngineResult) =>
+  result.diagnostics.filter((d) => d.severity === "error").length;
+
+const componentsText = (result: EngineResult) =>
+  result.components
+    .map((c) => `{${c.blockNumbers.join(" ")}}=${formatNumber(c.reliability)}`)
+    .join("; ");
+
+function renderTable(reports: FileReport[]): string {
+  const header = ["Файл", "G", "E", "Ошибок", "Компоненты"];
+  const rows = reports.map((report) =>
+    "error" in report
+      ? [report.file, "-", "-", "-", report.error]
+      : [
+          report.file,
+          reliabilityText(report.result),
+          formatNumber(report.result.efficiency),
+          String(errorCount(report.result)),
+          componentsText(report.result),
+        ],
+  );
+  const widths = header.map((title, col) =>
+    Math.max(title.length, ...rows.map((row) => row[col].length)),
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, col) =>
+        col === cells.length - 1 ? cell : cell.padEnd(widths[col]),
+      )
+      .join("  ")
+      .trimEnd();
+
+  const lines = [line(header), line(widths.map((w) => "-".repeat(w)))];
+  rows.forEach((row) => lines.push(line(row)));
+
+  // Ошибки проверки - под таблицей, чтобы было видно, что исправлять
+  reports.forEach((report) => {
+    if ("error" in report) return;
+    report.result.diagnostics
+      .filter((d) => d.severity === "error")
+      .forEach((d) => lines.push(`${report.file}: ${d.message}`));
+  });
+  return lines.join("\n") + "\n";
+}
+
+// Поле CSV в кавычках, если в нем есть разделитель или кавычки
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function renderCsv(reports: FileReport[]): string {
+  const rows = [["file", "G", "E", "errors", "components", "message"]];
+  reports.forEach((report) =>
+    rows.push(
+      "error" in report
+        ? [report.file, "", "", "", "", report.error]
+        : [
+            report.file,
+            report.result.exactReliability ??
+              String(report.result.reliability),
+            report.result.efficiency === null
+              ? ""
+              : String(report.result.efficiency),
+            String(errorCount(report.result)),
+            componentsText(report.result),
+            report.result.diagnostics
+              .filter((d) => d.severity === "error")
+              .map((d) => d.message)
+              .join("; "),
+          ],
+    ),
+  );
+  return rows.map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+function renderJson(reports: FileReport[]): string {
+  return JSON.stringify(reports, null, 2) + "\n";
+}
+
+function main(args: string[]): number {
+  const options = parseArgs(args);
+  if (!options) {
+    process.stderr.write(USAGE);
+    return EXIT_FAILURE;
+  }
+
+  let files: string[];
+  try {
+    files = collectFiles(options.inputs);
+  } catch (error) {
+    process.stderr.write(
+      `${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    return EXIT_FAILURE;
+  }
+
+  const reports = files.map((file) => analyzeFile(file, options.precision));
+  const render = { table: renderTable, json: renderJson, csv: renderCsv }[
+    options.format
+  ];
+  process.stdout.write(render(reports));
+
+  if (reports.some((report) => "error" in report)) return EXIT_FAILURE;
+  if (reports.some((report) => "result" in report && !report.result.valid)) {
+    return EXIT_VALIDATION;
+  }
+  return EXIT_OK;
+}
+
+process.exitCode = main(process.argv.slice(2));
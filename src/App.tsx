@@ -1,12 +1,274 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import LeftPanel from "./components/LeftPanel";
 import GridCanvas from "./components/GridCanvas.tsx";
-import { Block, Connection } from "./types";
+import SystemPanel from "./components/SystemPanel";
+import SweepPanel from "./components/SweepPanel";
+import RedundancyPanel from "./components/RedundancyPanel";
+import DslPanel from "./components/DslPanel";
+import {
+  Block,
+  CalculationPrecision,
+  Connection,
+  ImportanceMeasure,
+  ProjectMetadata,
+  RedundancyPlan,
+  ReserveGroup,
+  SpareTarget,
+  SystemParameters,
+  Terminal,
+} from "./types";
+import {
+  DEFAULT_PRECISION,
+  DEFAULT_SYSTEM_PARAMETERS,
+  addSpareToGroups,
+  buildReductionSteps,
+  schemeInputKey,
+} from "./calculations";
+import { message } from "@tauri-apps/api/dialog";
+import { useSchemeHistory } from "./useSchemeHistory";
+import { SchemeState } from "./history";
+import { DEFAULT_MISSION_TIME, applyMissionTime } from "./reliabilityTime";
+import {
+  calculateImportanceMeasures,
+  normalizeImportance,
+} from "./importance";
+import { ReportFormat, exportReport, printReport } from "./report";
+import { exportSchemeImage } from "./schemeExport";
+import { validateScheme } from "./validation";
+import { applyRedundancyPlan, redundancyCopyIds } from "./redundancy";
+import { findMinimalSets } from "./minimalSets";
+import {
+  PASTE_OFFSET,
+  SchemeFragment,
+  copyFragment,
+  pasteFragment,
+  pastedBlockIds,
+} from "./clipboard";
+import {
+  GridPositions,
+  arrangeScheme,
+  findFreeCell,
+  interpolatePositions,
+} from "./layout";
+import {
+  SchemeView,
+  SubsystemPath,
+  collapseToSubsystem,
+  instantiateLibraryItem,
+  subsystemAt,
+  subsystemPathNames,
+  toLibraryItem,
+  updateSubsystemAt,
+} from "./subsystem";
+import { openProjectFile, saveProjectFile } from "./project";
+import {
+  createProjectMetadata,
+  projectNameFromPath,
+  serializeProject,
+} from "./projectFormat";
+
+/**
+ * Убирает блоки из всех групп резерва (и как резервируемые, и как запасные)
+ */
+function removeFromReserveGroups(
+  groups: ReserveGroup[],
+  ...blockIds: string[]
+): ReserveGroup[] {
+  const ids = new Set(blockIds);
+  return groups.map((group) =>
+    [...group.targetBlockIds, ...group.spareBlockIds].some((id) => ids.has(id))
+      ? {
+          ...group,
+          targetBlockIds: group.targetBlockIds.filter((id) => !ids.has(id)),
+          spareBlockIds: group.spareBlockIds.filter((id) => !ids.has(id)),
+        }
+      : group,
+  );
+}
+
+const PROJECT_ERROR_TITLE = "Ошибка файла проекта";
+
+// Сообщение об ошибке чтения или записи файла
+const showError = (title: string, error: unknown) =>
+  message(error instanceof Error ? error.message : String(error), {
+    title,
+    type: "error",
+  });
+
+// Длительность анимации автоматической раскладки, мс
+const ARRANGE_DURATION = 400;
+
+// Плавное начало и окончание движения
+const easeInOut = (t: number) =>
+  t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
 
 function App() {
-  const [blocks, setBlocks] = useState<Block[]>([]);
-  const [connections, setConnections] = useState<Connection[]>([]);
-  const [selectedBlockId, setSelectedBlockId] = useState<string | null>(null);
+  const { scheme, commit, undo, redo, reset, canUndo, canRedo } =
+    useSchemeHistory({
+      blocks: [],
+      connections: [],
+      reserveGroups: [],
+      terminals: [],
+      missionTime: DEFAULT_MISSION_TIME,
+      system: DEFAULT_SYSTEM_PARAMETERS,
+      library: [],
+    });
+  const { missionTime, system: systemParams, library } = scheme;
+  // Открытая на холсте подсистема: путь по составным блокам от верхнего уровня.
+  // Холст, левая панель и правки работают со схемой этого уровня.
+  const [editPath, setEditPath] = useState<SubsystemPath>([]);
+  const view = subsystemAt(scheme, editPath) ?? scheme;
+  const { blocks, connections, reserveGroups, terminals } = view;
+  const pathNames = subsystemPathNames(scheme, editPath);
+  const [selectedBlockIds, setSelectedBlockIds] = useState<string[]>([]);
+  // Свойства в левой панели редактируются, только когда выбран один блок
+  const selectedBlockId =
+    selectedBlockIds.length === 1 ? selectedBlockIds[0] : null;
+  // Скопированный фрагмент схемы; pasteCount - сколько раз его уже вставили,
+  // чтобы каждая следующая копия сдвигалась дальше
+  const clipboardRef = useRef<{
+    fragment: SchemeFragment;
+    pasteCount: number;
+  } | null>(null);
+  // Кадр анимации раскладки, чтобы новую раскладку можно было начать поверх старой
+  const arrangeFrameRef = useRef<number | null>(null);
+  // Положения блоков и полюсов во время анимации раскладки: только для показа
+  // на холсте, в схему раскладка записывается одной правкой в конце
+  const [arrangePositions, setArrangePositions] =
+    useState<GridPositions | null>(null);
+  // Точный расчет дробями: для панели параметров, отчета и анализа чувствительности
+  const [precision, setPrecision] =
+    useState<CalculationPrecision>(DEFAULT_PRECISION);
+  const [showSystemPanel, setShowSystemPanel] = useState(false);
+  const [showSweepPanel, setShowSweepPanel] = useState(false);
+  const [showRedundancyPanel, setShowRedundancyPanel] = useState(false);
+  const [showDslPanel, setShowDslPanel] = useState(false);
+  const [showImportance, setShowImportance] = useState(false);
+  const [showImportanceTable, setShowImportanceTable] = useState(false);
+  const [showMinimalSets, setShowMinimalSets] = useState(false);
+  const [importanceMeasure, setImportanceMeasure] =
+    useState<ImportanceMeasure>("birnbaum");
+  const [activeDiagnosticId, setActiveDiagnosticId] = useState<string | null>(
+    null,
+  );
+  const [activeMinimalSetId, setActiveMinimalSetId] = useState<string | null>(
+    null,
+  );
+  const [projectPath, setProjectPath] = useState<string | null>(null);
+  const [projectMeta, setProjectMeta] = useState<ProjectMetadata>(() =>
+    createProjectMetadata(),
+  );
+
+  // Значимость блоков: таблица в левой панели и подсветка на холсте.
+  // Расчет - около 2N расчетов всей схемы, поэтому выполняется, только
+  // пока таблица или подсветка показаны, и не повторяется при перемещении блоков.
+  const importanceNeeded = showImportance || showImportanceTable;
+  const importanceKey = useMemo(
+    () =>
+      importanceNeeded
+        ? schemeInputKey(blocks, connections, reserveGroups, terminals)
+        : null,
+    [importanceNeeded, blocks, connections, reserveGroups, terminals],
+  );
+  const importance = useMemo(
+    () =>
+      importanceKey !== null
+        ? calculateImportanceMeasures(
+            blocks,
+            connections,
+            reserveGroups,
+            terminals,
+          )
+        : null,
+    // Схема берется из текущего рендера: ключ меняется вместе с ней
+    [importanceKey],
+  );
+  const importanceHeat = useMemo(
+    () =>
+      showImportance && importance
+        ? normalizeImportance(importance, importanceMeasure)
+        : null,
+    [showImportance, importance, importanceMeasure],
+  );
+
+  // Проверка схемы. Подсветка пропадает, когда замечание устранено.
+  const diagnostics = useMemo(
+    () => validateScheme(blocks, connections, terminals),
+    [blocks, connections, terminals],
+  );
+  const activeDiagnostic =
+    diagnostics.find((d) => d.id === activeDiagnosticId) ?? null;
+
+  // Минимальные пути и сечения; на холсте подсвечивается один набор
+  // (вместе со связями пути), подсветка замечания и набора взаимоисключающие.
+  // Перечисление наборов растет экспоненциально, поэтому, как и значимость,
+  // считается только при открытой панели и не повторяется при перемещении блоков.
+  const minimalSetsKey = useMemo(
+    () =>
+      showMinimalSets
+        ? schemeInputKey(blocks, connections, reserveGroups, terminals)
+        : null,
+    [showMinimalSets, blocks, connections, reserveGroups, terminals],
+  );
+  const minimalSets = useMemo(
+    () =>
+      minimalSetsKey !== null
+        ? findMinimalSets(blocks, connections, reserveGroups, terminals)
+        : null,
+    // Схема берется из текущего рендера: ключ меняется вместе с ней
+    [minimalSetsKey],
+  );
+  const activeMinimalSet =
+    minimalSets?.kind === "sets"
+      ? ([...minimalSets.paths, ...minimalSets.cuts].find(
+          (set) => set.id === activeMinimalSetId,
+        ) ?? null)
+      : null;
+  const highlight = useMemo(() => {
+    if (activeDiagnostic) return activeDiagnostic;
+    if (!activeMinimalSet) return null;
+
+    const members = new Set(activeMinimalSet.blockIds);
+    const onPath = (id: string) =>
+      members.has(id) || terminals.some((t) => t.id === id);
+    return {
+      blockIds: activeMinimalSet.blockIds,
+      connectionIds:
+        activeMinimalSet.kind === "path"
+          ? connections
+              .filter((c) => onPath(c.fromBlockId) && onPath(c.toBlockId))
+              .map((c) => c.id)
+          : [],
+    };
+  }, [activeDiagnostic, activeMinimalSet, connections, terminals]);
+
+  // Пошаговое решение: показанный шаг свертки; null - решение скрыто.
+  // После правки схемы шагов может стать меньше - показывается последний.
+  const [solutionStep, setSolutionStep] = useState<number | null>(null);
+  const showSolution = solutionStep !== null;
+  const solutionSteps = useMemo(
+    () =>
+      showSolution
+        ? buildReductionSteps(blocks, connections, reserveGroups, terminals)
+        : [],
+    [showSolution, blocks, connections, reserveGroups, terminals],
+  );
+  const solution =
+    solutionStep !== null
+      ? {
+          steps: solutionSteps,
+          position: Math.min(solutionStep, solutionSteps.length),
+        }
+      : null;
+
+  const selectDiagnostic = (id: string | null) => {
+    setActiveDiagnosticId(id);
+    setActiveMinimalSetId(null);
+  };
+  const selectMinimalSet = (id: string | null) => {
+    setActiveMinimalSetId(id);
+    setActiveDiagnosticId(null);
+  };
 
   // Обработка клавиш
   useEffect(() => {
@@ -17,86 +279,688 @@ function App() {
         return;
       }
 
+      if (e.ctrlKey || e.metaKey) {
+        const code = e.code;
+        if (code === "KeyS") {
+          e.preventDefault();
+          saveProject(e.shiftKey);
+        } else if (code === "KeyO") {
+          e.preventDefault();
+          openProject();
+        } else if (code === "KeyZ") {
+          e.preventDefault();
+          if (e.shiftKey) redoEdit();
+          else undoEdit();
+        } else if (code === "KeyY") {
+          e.preventDefault();
+          redoEdit();
+        } else if (code === "KeyC") {
+          copySelection();
+        } else if (code === "KeyV") {
+          e.preventDefault();
+          pasteClipboard();
+        } else if (code === "KeyD") {
+          e.preventDefault();
+          duplicateSelection();
+        } else if (code === "KeyG") {
+          e.preventDefault();
+          collapseSelection();
+        }
+        return;
+      }
+
       if (e.key === "a" || e.key === "A" || e.key === "ф" || e.key === "Ф") {
         addBlock();
       } else if (e.key === "Delete" || e.key === "Backspace") {
-        if (selectedBlockId) {
-          deleteSelectedBlock();
+        if (selectedBlockIds.length > 0) {
+          deleteSelectedBlocks();
         }
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [selectedBlockId]);
+  }, [selectedBlockIds, scheme, editPath, projectPath, projectMeta]);
+
+  // Отмена может удалить открытую подсистему - возвращаемся на существующий уровень
+  useEffect(() => {
+    if (pathNames.length < editPath.length) {
+      setEditPath(editPath.slice(0, pathNames.length));
+    }
+  }, [pathNames.length, editPath]);
+
+  // Отмена может удалить выбранные блоки - убираем их из выделения
+  useEffect(() => {
+    const existing = selectedBlockIds.filter((id) =>
+      blocks.some((b) => b.id === id),
+    );
+    if (existing.length !== selectedBlockIds.length) {
+      setSelectedBlockIds(existing);
+    }
+  }, [blocks, selectedBlockIds]);
+
+  // Остановка анимации раскладки: схема не меняется, холст снова
+  // показывает сохраненные положения блоков
+  const cancelArrange = () => {
+    if (arrangeFrameRef.current !== null) {
+      cancelAnimationFrame(arrangeFrameRef.current);
+      arrangeFrameRef.current = null;
+    }
+    setArrangePositions(null);
+  };
+
+  // Анимация раскладки относится к открытому уровню схемы
+  useEffect(() => cancelArrange, [editPath]);
+
+  const undoEdit = () => {
+    cancelArrange();
+    undo();
+  };
+
+  const redoEdit = () => {
+    cancelArrange();
+    redo();
+  };
+
+  // Правка схемы открытого уровня. Надежности составных блоков по пути
+  // пересчитываются, вся правка отменяется одним шагом.
+  // Правка во время анимации раскладки отменяет раскладку.
+  const commitView = (
+    label: string,
+    updater: (view: SchemeView, root: SchemeState) => SchemeView,
+    mergeKey?: string,
+  ) => {
+    cancelArrange();
+    commit(
+      label,
+      (s) => updateSubsystemAt(s, editPath, (v) => updater(v, s)),
+      mergeKey,
+    );
+  };
 
   const addBlock = () => {
-    // Находим максимальный номер среди существующих блоков
-    const maxNumber =
-      blocks.length > 0 ? Math.max(...blocks.map((b) => b.number)) : 0;
-
-    const newBlock: Block = {
-      id: `block-${Date.now()}`,
-      number: maxNumber + 1,
-      x: 0,
-      y: 0,
-      reliability: 0.95,
-    };
-    setBlocks([...blocks, newBlock]);
-  };
-
-  const deleteSelectedBlock = () => {
-    if (selectedBlockId) {
-      setBlocks(blocks.filter((block) => block.id !== selectedBlockId));
-      // Удаляем все связи с этим блоком
-      setConnections(
-        connections.filter(
-          (conn) =>
-            conn.fromBlockId !== selectedBlockId &&
-            conn.toBlockId !== selectedBlockId,
-        ),
+    const id = `block-${Date.now()}`;
+    commitView("Добавление блока", (s) => {
+      // Находим максимальный номер среди существующих блоков
+      const maxNumber =
+        s.blocks.length > 0 ? Math.max(...s.blocks.map((b) => b.number)) : 0;
+
+      const newBlock: Block = {
+        id,
+        number: maxNumber + 1,
+        ...findFreeCell(s.blocks, s.terminals),
+        reliability: 0.95,
+      };
+      return { ...s, blocks: [...s.blocks, newBlock] };
+    });
+  };
+
+  const deleteSelectedBlocks = () => {
+    if (selectedBlockIds.length > 0) {
+      const ids = new Set(selectedBlockIds);
+      commitView(
+        ids.size > 1 ? "Удаление блоков" : "Удаление блока",
+        (s) => ({
+          ...s,
+          blocks: s.blocks.filter((block) => !ids.has(block.id)),
+          // Удаляем все связи с этими блоками
+          connections: s.connections.filter(
+            (conn) => !ids.has(conn.fromBlockId) && !ids.has(conn.toBlockId),
+          ),
+          reserveGroups: removeFromReserveGroups(
+            s.reserveGroups,
+            ...selectedBlockIds,
+          ),
+        }),
       );
-      setSelectedBlockId(null);
+      setSelectedBlockIds([]);
     }
   };
 
-  const updateBlock = (id: string, updates: Partial<Block>) => {
-    setBlocks(
-      blocks.map((block) =>
-        block.id === id ? { ...block, ...updates } : block,
-      ),
+  // Сдвиг группы блоков; связи следуют за блоками сами
+  const moveBlocks = (
+    ids: string[],
+    dx: number,
+    dy: number,
+    mergeKey?: string,
+  ) => {
+    const moved = new Set(ids);
+    commitView(
+      "Перемещение блоков",
+      (s) => ({
+        ...s,
+        blocks: s.blocks.map((block) =>
+          moved.has(block.id)
+            ? { ...block, x: block.x + dx, y: block.y + dy }
+            : block,
+        ),
+      }),
+      mergeKey,
     );
   };
 
+  const copySelection = () => {
+    if (selectedBlockIds.length === 0) return;
+    clipboardRef.current = {
+      fragment: copyFragment(view, selectedBlockIds),
+      pasteCount: 0,
+    };
+  };
+
+  // Вставленные блоки получают новые id и номера, выделяются вставленные копии
+  const insertFragment = (
+    label: string,
+    fragment: SchemeFragment,
+    offset: number,
+  ) => {
+    if (fragment.blocks.length === 0) return;
+    const stamp = Date.now();
+    commitView(label, (s) => pasteFragment(s, fragment, offset, stamp));
+    setSelectedBlockIds(pastedBlockIds(fragment, stamp));
+  };
+
+  const pasteClipboard = () => {
+    const clipboard = clipboardRef.current;
+    if (!clipboard) return;
+    clipboard.pasteCount += 1;
+    insertFragment(
+      "Вставка блоков",
+      clipboard.fragment,
+      PASTE_OFFSET * clipboard.pasteCount,
+    );
+  };
+
+  const duplicateSelection = () => {
+    insertFragment(
+      "Дублирование блоков",
+      copyFragment(view, selectedBlockIds),
+      PASTE_OFFSET,
+    );
+  };
+
+  // Выделенные блоки сворачиваются в составной блок, он остается выделенным
+  const collapseSelection = () => {
+    if (selectedBlockIds.length === 0) return;
+    const id = `block-${Date.now()}`;
+    commitView("Сворачивание в подсистему", (s) =>
+      collapseToSubsystem(s, selectedBlockIds, id),
+    );
+    setSelectedBlockIds([id]);
+  };
+
+  const openSubsystem = (id: string) => {
+    setEditPath([...editPath, id]);
+    setSelectedBlockIds([]);
+  };
+
+  // Переход на уровень level (0 - вся схема); выделяется блок, из которого вышли
+  const navigateToLevel = (level: number) => {
+    if (level >= editPath.length) return;
+    setEditPath(editPath.slice(0, level));
+    setSelectedBlockIds([editPath[level]]);
+  };
+
+  const addToLibrary = (blockId: string) => {
+    const subsystem = blocks.find((b) => b.id === blockId)?.subsystem;
+    if (!subsystem) return;
+    const item = toLibraryItem(subsystem, `library-${Date.now()}`);
+    commit("Добавление в библиотеку", (s) => ({
+      ...s,
+      library: [...s.library, item],
+    }));
+  };
+
+  // Подсистема из библиотеки вставляется составным блоком в свободную клетку
+  const insertLibraryItem = (itemId: string) => {
+    const id = `block-${Date.now()}`;
+    commitView("Вставка подсистемы", (s, root) => {
+      const item = root.library.find((i) => i.id === itemId);
+      if (!item) return s;
+      const block = instantiateLibraryItem(
+        item,
+        s.blocks,
+        id,
+        findFreeCell(s.blocks, s.terminals),
+      );
+      return {
+        ...s,
+        blocks: [...s.blocks, ...applyMissionTime([block], root.missionTime)],
+      };
+    });
+    setSelectedBlockIds([id]);
+  };
+
+  const deleteLibraryItem = (itemId: string) => {
+    commit("Удаление из библиотеки", (s) => ({
+      ...s,
+      library: s.library.filter((i) => i.id !== itemId),
+    }));
+  };
+
+  // mergeKey - серия правок с одним ключом (перетаскивание, ввод) отменяется одним шагом.
+  // Надежность блока с моделью отказов пересчитывается на время миссии.
+  const updateBlock = (
+    id: string,
+    updates: Partial<Block>,
+    mergeKey?: string,
+  ) => {
+    commitView(
+      "Изменение блока",
+      (s, root) => ({
+        ...s,
+        blocks: s.blocks.map((block) =>
+          block.id === id
+            ? applyMissionTime([{ ...block, ...updates }], root.missionTime)[0]
+            : block,
+        ),
+      }),
+      mergeKey,
+    );
+  };
+
+  const updateTerminal = (
+    id: string,
+    updates: Partial<Terminal>,
+    mergeKey?: string,
+  ) => {
+    commitView(
+      "Перемещение полюса схемы",
+      (s) => ({
+        ...s,
+        terminals: s.terminals.map((t) =>
+          t.id === id ? { ...t, ...updates } : t,
+        ),
+      }),
+      mergeKey,
+    );
+  };
+
+  // Вход и выход добавляются и убираются парой. Новые полюса ставятся
+  // под схемой: вход - у левого края блоков, выход - у правого.
+  const toggleTerminals = () => {
+    const stamp = Date.now();
+    commitView("Вход и выход системы", (s) => {
+      if (s.terminals.length > 0) {
+        const ids = new Set(s.terminals.map((t) => t.id));
+        return {
+          ...s,
+          terminals: [],
+          connections: s.connections.filter(
+            (conn) => !ids.has(conn.fromBlockId) && !ids.has(conn.toBlockId),
+          ),
+        };
+      }
+
+      const xs = s.blocks.map((b) => b.x);
+      const minX = xs.length > 0 ? Math.min(...xs) : 0;
+      const maxX = xs.length > 0 ? Math.max(...xs) : 0;
+      const y =
+        s.blocks.length > 0 ? Math.max(...s.blocks.map((b) => b.y)) + 3 : 0;
+      return {
+        ...s,
+        terminals: [
+          { id: `input-${stamp}`, kind: "input", x: minX, y },
+          {
+            id: `output-${stamp}`,
+            kind: "output",
+            x: Math.max(maxX, minX + 4),
+            y,
+          },
+        ],
+      };
+    });
+  };
+
+  // Раскладка по структуре схемы. Кадры анимации меняют только показ
+  // на холсте; итоговые положения записываются в схему одной правкой.
+  const arrange = () => {
+    const target = arrangeScheme(
+      blocks,
+      connections,
+      reserveGroups,
+      terminals,
+    );
+    const start: GridPositions = new Map(
+      [...blocks, ...terminals].map((n) => [n.id, { x: n.x, y: n.y }]),
+    );
+    const startTime = performance.now();
+
+    const frame = (now: number) => {
+      const t = Math.min(1, (now - startTime) / ARRANGE_DURATION);
+      if (t < 1) {
+        setArrangePositions(
+          interpolatePositions(start, target, easeInOut(t)),
+        );
+        arrangeFrameRef.current = requestAnimationFrame(frame);
+        return;
+      }
+      // Последний кадр ставит блоки точно в клетки
+      commitView("Автоматическая раскладка", (s) => ({
+        ...s,
+        blocks: s.blocks.map((b) => ({ ...b, ...target.get(b.id) })),
+        terminals: s.terminals.map((t) => ({ ...t, ...target.get(t.id) })),
+      }));
+    };
+
+    cancelArrange();
+    arrangeFrameRef.current = requestAnimationFrame(frame);
+  };
+
+  // Копии блоков по решению оптимизации резерва; выделяются добавленные копии
+  const applyRedundancy = (plan: RedundancyPlan) => {
+    const stamp = Date.now();
+    commitView("Резервирование блоков", (s) =>
+      applyRedundancyPlan(s, plan, stamp),
+    );
+    setSelectedBlockIds(redundancyCopyIds(plan, stamp));
+  };
+
+  // Схема, построенная из текстового описания: каждое применение - один шаг отмены
+  const applyDsl = (next: SchemeView) => {
+    commitView("Изменение текста схемы", (s) => ({ ...s, ...next }));
+    setSelectedBlockIds([]);
+  };
+
+  const setMissionTime = (time: number) => {
+    commit("Время миссии", (s) => ({
+      ...s,
+      missionTime: time,
+      blocks: applyMissionTime(s.blocks, time),
+    }));
+  };
+
+  // Резервный блок не участвует в связях - удаляем их вместе с изменением флага.
+  // Новый резервный блок по умолчанию резервирует всю систему.
+  const setBlockReserve = (id: string, isReserve: boolean) => {
+    const newGroupId = `reserve-${Date.now()}`;
+    commitView("Резервный блок", (s) => {
+      let groups = removeFromReserveGroups(s.reserveGroups, id);
+      if (isReserve) {
+        groups = addSpareToGroups(groups, id, { kind: "system" }, newGroupId);
+      }
+
+      return {
+        ...s,
+        blocks: s.blocks.map((block) =>
+          block.id === id ? { ...block, isReserve } : block,
+        ),
+        connections: isReserve
+          ? s.connections.filter(
+              (conn) => conn.fromBlockId !== id && conn.toBlockId !== id,
+            )
+          : s.connections,
+        reserveGroups: groups,
+      };
+    });
+  };
+
+  const assignSpare = (spareId: string, target: SpareTarget) => {
+    const newGroupId = `reserve-${Date.now()}`;
+    commitView("Группа резерва", (s) => ({
+      ...s,
+      reserveGroups: addSpareToGroups(
+        removeFromReserveGroups(s.reserveGroups, spareId),
+        spareId,
+        target,
+        newGroupId,
+      ),
+    }));
+  };
+
+  const updateReserveGroup = (id: string, updates: Partial<ReserveGroup>) => {
+    commitView("Группа резерва", (s) => ({
+      ...s,
+      reserveGroups: s.reserveGroups.map((group) =>
+        group.id === id ? { ...group, ...updates } : group,
+      ),
+    }));
+  };
+
+  // Резервные блоки удаленной группы становятся обычными
+  const deleteReserveGroup = (id: string) => {
+    commitView("Удаление группы резерва", (s) => {
+      const group = s.reserveGroups.find((g) => g.id === id);
+      const spares = new Set(group?.spareBlockIds || []);
+      return {
+        ...s,
+        blocks: s.blocks.map((block) =>
+          spares.has(block.id) ? { ...block, isReserve: false } : block,
+        ),
+        reserveGroups: s.reserveGroups.filter((g) => g.id !== id),
+      };
+    });
+  };
+
   const addConnection = (connection: Connection) => {
-    setConnections([...connections, connection]);
+    commitView("Добавление связи", (s) => ({
+      ...s,
+      connections: [...s.connections, connection],
+    }));
   };
 
   const deleteConnection = (id: string) => {
-    setConnections(connections.filter((conn) => conn.id !== id));
+    commitView("Удаление связи", (s) => ({
+      ...s,
+      connections: s.connections.filter((conn) => conn.id !== id),
+    }));
   };
 
+  const setSystemParams = (system: SystemParameters) => {
+    commit("Параметры вычислительной системы", (s) => ({ ...s, system }));
+  };
+
+  const openProject = async () => {
+    try {
+      const result = await openProjectFile();
+      if (!result) return;
+
+      cancelArrange();
+      reset({
+        blocks: result.project.blocks,
+        connections: result.project.connections,
+        reserveGroups: result.project.reserveGroups,
+        terminals: result.project.terminals,
+        missionTime: result.project.missionTime,
+        system: result.project.system,
+        library: result.project.library,
+      });
+      setProjectMeta(result.project.metadata);
+      setProjectPath(result.path);
+      setEditPath([]);
+      setSelectedBlockIds([]);
+    } catch (error) {
+      await showError(PROJECT_ERROR_TITLE, error);
+    }
+  };
+
+  // saveAs = true - всегда спрашивать путь ("Сохранить как")
+  const saveProject = async (saveAs = false) => {
+    try {
+      let metadata = projectMeta;
+      const path = await saveProjectFile(
+        saveAs ? null : projectPath,
+        projectMeta.name,
+        (target) => {
+          // При сохранении в новый файл проект получает его имя
+          metadata = {
+            ...projectMeta,
+            name:
+              target === projectPath
+                ? projectMeta.name
+                : projectNameFromPath(target),
+            updatedAt: new Date().toISOString(),
+          };
+          return serializeProject(scheme, metadata);
+        },
+      );
+      if (!path) return;
+
+      setProjectMeta(metadata);
+      setProjectPath(path);
+    } catch (error) {
+      await showError(PROJECT_ERROR_TITLE, error);
+    }
+  };
+
+  // Отчет с выводом формулы: .tex/.md сохраняются в файл, PDF - через печать
+  const handleExportReport = async (format: ReportFormat | "pdf") => {
+    if (format === "pdf") {
+      printReport(scheme, projectMeta.name, precision);
+      return;
+    }
+    try {
+      await exportReport(scheme, projectMeta.name, format, precision);
+    } catch (error) {
+      await showError("Ошибка экспорта отчета", error);
+    }
+  };
+
+  const handleExportImage = async (showGrid: boolean) => {
+    try {
+      await exportSchemeImage(scheme, projectMeta.name, showGrid);
+    } catch (error) {
+      await showError("Ошибка экспорта схемы", error);
+    }
+  };
+
+  const displayBlocks = arrangePositions
+    ? blocks.map((b) => ({ ...b, ...arrangePositions.get(b.id) }))
+    : blocks;
+  const displayTerminals = arrangePositions
+    ? terminals.map((t) => ({ ...t, ...arrangePositions.get(t.id) }))
+    : terminals;
+
   return (
     <div className="app">
       <LeftPanel
         blocks={blocks}
         connections={connections}
         selectedBlockId={selectedBlockId}
-        onSelectBlock={setSelectedBlockId}
+        onSelectBlock={(id) => setSelectedBlockIds(id ? [id] : [])}
         onUpdateBlock={updateBlock}
-        onDeleteConnection={deleteConnection}
+        onSetBlockReserve={setBlockReserve}
+        reserveGroups={reserveGroups}
+        terminals={terminals}
+        onAssignSpare={assignSpare}
+        onUpdateReserveGroup={updateReserveGroup}
+        onDeleteReserveGroup={deleteReserveGroup}
+        missionTime={missionTime}
+        onSetMissionTime={setMissionTime}
+        importance={showImportanceTable ? importance : null}
+        onToggleImportanceTable={() =>
+          setShowImportanceTable(!showImportanceTable)
+        }
+        importanceMeasure={importanceMeasure}
+        onSelectImportanceMeasure={setImportanceMeasure}
+        onExportReport={handleExportReport}
+        precision={precision}
+        onSetPrecision={setPrecision}
+        diagnostics={diagnostics}
+        activeDiagnosticId={activeDiagnostic?.id ?? null}
+        onSelectDiagnostic={selectDiagnostic}
+        minimalSets={minimalSets}
+        onToggleMinimalSets={() => {
+          setShowMinimalSets(!showMinimalSets);
+          setActiveMinimalSetId(null);
+        }}
+        activeMinimalSetId={activeMinimalSet?.id ?? null}
+        onSelectMinimalSet={selectMinimalSet}
+        solutionSteps={solutionSteps}
+        solutionPosition={solution?.position ?? null}
+        onSetSolutionPosition={setSolutionStep}
+        onOpenSubsystem={openSubsystem}
+        library={library}
+        onAddToLibrary={addToLibrary}
+        onInsertLibraryItem={insertLibraryItem}
+        onDeleteLibraryItem={deleteLibraryItem}
       />
       <GridCanvas
-        blocks={blocks}
+        blocks={displayBlocks}
         connections={connections}
-        selectedBlockId={selectedBlockId}
-        onSelectBlock={setSelectedBlockId}
-        onUpdateBlock={updateBlock}
+        reserveGroups={reserveGroups}
+        terminals={displayTerminals}
+        selectedBlockIds={selectedBlockIds}
+        onSelectBlocks={setSelectedBlockIds}
+        onUpdateTerminal={updateTerminal}
+        onToggleTerminals={toggleTerminals}
+        onArrange={arrange}
+        onCollapseSelection={collapseSelection}
+        onOpenSubsystem={openSubsystem}
+        subsystemPath={pathNames}
+        onNavigateToLevel={navigateToLevel}
         onAddBlock={addBlock}
-        onDeleteBlock={deleteSelectedBlock}
+        onMoveBlocks={moveBlocks}
+        onDeleteBlock={deleteSelectedBlocks}
         onAddConnection={addConnection}
         onDeleteConnection={deleteConnection}
+        onUndo={undoEdit}
+        onRedo={redoEdit}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        projectName={projectMeta.name}
+        onOpenProject={openProject}
+        onSaveProject={() => saveProject(false)}
+        onSaveProjectAs={() => saveProject(true)}
+        showSystemPanel={showSystemPanel}
+        onToggleSystemPanel={() => setShowSystemPanel(!showSystemPanel)}
+        showSweepPanel={showSweepPanel}
+        onToggleSweepPanel={() => setShowSweepPanel(!showSweepPanel)}
+        showDslPanel={showDslPanel}
+        onToggleDslPanel={() => setShowDslPanel(!showDslPanel)}
+        showRedundancyPanel={showRedundancyPanel}
+        onToggleRedundancyPanel={() =>
+          setShowRedundancyPanel(!showRedundancyPanel)
+        }
+        importanceHeat={importanceHeat}
+        showImportance={showImportance}
+        onToggleImportance={() => setShowImportance(!showImportance)}
+        onExportImage={handleExportImage}
+        highlight={highlight}
+        solution={solution}
       />
+      {showDslPanel && (
+        <DslPanel
+          blocks={blocks}
+          connections={connections}
+          reserveGroups={reserveGroups}
+          terminals={terminals}
+          onApply={applyDsl}
+          onClose={() => setShowDslPanel(false)}
+        />
+      )}
+      {showRedundancyPanel && (
+        <RedundancyPanel
+          blocks={blocks}
+          connections={connections}
+          reserveGroups={reserveGroups}
+          terminals={terminals}
+          onApply={applyRedundancy}
+          onClose={() => setShowRedundancyPanel(false)}
+        />
+      )}
+      {showSweepPanel && (
+        <SweepPanel
+          blocks={blocks}
+          connections={connections}
+          reserveGroups={reserveGroups}
+          terminals={terminals}
+          precision={precision}
+          projectName={projectMeta.name}
+          onExportError={(error) => showError("Ошибка экспорта", error)}
+          onClose={() => setShowSweepPanel(false)}
+        />
+      )}
+      {showSystemPanel && (
+        <SystemPanel
+          blocks={scheme.blocks}
+          connections={scheme.connections}
+          reserveGroups={scheme.reserveGroups}
+          terminals={scheme.terminals}
+          params={systemParams}
+          onChangeParams={setSystemParams}
+          onClose={() => setShowSystemPanel(false)}
+        />
+      )}
     </div>
   );
 }
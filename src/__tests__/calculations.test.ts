@@ -0,0 +1,283 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildReliabilityDerivation,
+  calculateSystemReliability,
+} from "../calculations";
+import { renderPlain } from "../formula";
+import { formatFixed, rational } from "../rational";
+import {
+  Block,
+  BlockPort,
+  Connection,
+  ReserveGroup,
+  Terminal,
+} from "../types";
+import {
+  POLES,
+  block,
+  fromInput,
+  link,
+  parallel,
+  reserve,
+  toOutput,
+  wire,
+} from "./schemes";
+
+const reliabilityOf = (
+  blocks: Block[],
+  connections: Connection[],
+  reserveGroups: ReserveGroup[] = [],
+  terminals: Terminal[] = [],
+) =>
+  calculateSystemReliability(blocks, connections, reserveGroups, terminals)
+    .systemReliability;
+
+const notesOf = (
+  blocks: Block[],
+  connections: Connection[],
+  terminals: Terminal[] = [],
+) =>
+  buildReliabilityDerivation(blocks, connections, [], terminals).notes.map(
+    renderPlain,
+  );
+
+// Мостик: 1 и 2 от входа, 3 и 4 к выходу, 5 - перемычка от выхода 1 к входу 4
+const bridgeBlocks = [1, 2, 3, 4, 5].map((n) => block(n, 0.9));
+const bridgeCore = [
+  link("b1", "b3"),
+  link("b2", "b4"),
+  link("b1", "b5"),
+  link("b5", "b4"),
+];
+// Перемычка направлена, пути - 1-3, 2-4 и 1-5-4 (пути 2-5-3 нет):
+// 2p² + p³ - 3p⁴ + p⁵ при p = 0.9
+const BRIDGE = 0.97119;
+
+// Лестница из двух цепей с перемычками сверху вниз через отдельные блоки:
+// не сводится к последовательно-параллельной, но контуров не содержит
+const ladder = (rungs: number) => {
+  const blocks: Block[] = [];
+  const add = (reliability: number) => {
+    const b = block(blocks.length + 1, reliability);
+    blocks.push(b);
+    return b.id;
+  };
+  let top = add(0.9);
+  let bottom = add(0.8);
+  const connections = [wire(top, "left", bottom, "left")];
+  for (let i = 0; i < rungs; i++) {
+    const nextTop = add(0.9);
+    const nextBottom = add(0.85);
+    const cross = add(0.7);
+    connections.push(
+      link(top, nextTop),
+      link(bottom, nextBottom),
+      link(top, cross),
+      link(cross, nextBottom),
+    );
+    top = nextTop;
+    bottom = nextBottom;
+  }
+  connections.push(wire(top, "right", bottom, "right"));
+  return { blocks, connections };
+};
+
+describe("calculateSystemReliability", () => {
+  it("перемножает последовательные блоки", () => {
+    expect(
+      reliabilityOf([block(1, 0.9), block(2, 0.8)], [link("b1", "b2")]),
+    ).toBeCloseTo(0.72, 6);
+  });
+
+  it("складывает параллельные блоки", () => {
+    expect(
+      reliabilityOf([block(1, 0.9), block(2, 0.8)], parallel("b1", "b2")),
+    ).toBeCloseTo(0.98, 6);
+  });
+
+  it("сворачивает параллельные ветви из последовательных блоков", () => {
+    const blocks = [1, 2, 3, 4].map((n) => block(n, 0.9));
+    const connections = [
+      link("b1", "b2"),
+      link("b3", "b4"),
+      wire("b1", "left", "b3", "left"),
+      wire("b2", "right", "b4", "right"),
+    ];
+    // 1 - (1 - 0.81)²
+    expect(reliabilityOf(blocks, connections)).toBeCloseTo(0.9639, 6);
+  });
+
+  it("считает мостик точно без полюсов", () => {
+    const connections = [
+      ...bridgeCore,
+      wire("b1", "left", "b2", "left"),
+      wire("b3", "right", "b4", "right"),
+    ];
+    expect(reliabilityOf(bridgeBlocks, connections)).toBeCloseTo(BRIDGE, 6);
+    expect(notesOf(bridgeBlocks, connections).join()).toContain(
+      "метод разложения",
+    );
+  });
+
+  it("считает мостик точно между полюсами", () => {
+    const connections = [
+      ...bridgeCore,
+      fromInput("b1"),
+      fromInput("b2"),
+      toOutput("b3"),
+      toOutput("b4"),
+    ];
+    expect(reliabilityOf(bridgeBlocks, connections, [], POLES)).toBeCloseTo(
+      BRIDGE,
+      6,
+    );
+  });
+
+  it("считает группу резерва блока и резерв всей системы", () => {
+    const blocks = [
+      block(1, 0.9),
+      block(2, 0.9),
+      block(3, 0.8, { isReserve: true }),
+    ];
+    // Резерв блока 1: 1 - 0.1 × 0.2, последовательно с блоком 2
+    expect(
+      reliabilityOf(blocks, [link("b1", "b2")], [
+        reserve("g1", ["b1"], ["b3"], 1),
+      ]),
+    ).toBeCloseTo(0.98 * 0.9, 6);
+
+    // 2 из 3 одинаковых блоков: 3p²q + p³
+    const equal = [block(1, 0.9), block(2, 0.9), block(3, 0.9, { isReserve: true })];
+    expect(
+      reliabilityOf(equal, [link("b1", "b2")], [
+        reserve("g1", [], ["b3"], 2),
+      ]),
+    ).toBeCloseTo(0.972, 6);
+  });
+
+  it("считает только блоки на путях между полюсами", () => {
+    const blocks = [block(1, 0.9), block(2, 0.5)];
+    const connections = [
+      fromInput("b1"),
+      toOutput("b1"),
+      // Выход блока 2 никуда не ведет
+      wire("b2", "left", "b1", "right"),
+    ];
+    expect(reliabilityOf(blocks, connections, [], POLES)).toBeCloseTo(0.9, 6);
+    expect(
+      reliabilityOf([block(1, 0.9)], [wire("in", "right", "out", "left")], [], POLES),
+    ).toBe(1);
+  });
+
+  it("соединяет блоки шиной через точку блока вне путей", () => {
+    const blocks = [block(1, 0.9), block(2, 0.9), block(3, 0.5)];
+    const connections = [
+      fromInput("b1"),
+      // Вход блока 3 не подключен, но его выход - общая точка блоков 1 и 2
+      wire("b1", "right", "b3", "right"),
+      wire("b3", "right", "b2", "left"),
+      toOutput("b2"),
+    ];
+    expect(reliabilityOf(blocks, connections, [], POLES)).toBeCloseTo(0.81, 6);
+  });
+
+  it("учитывает, к какому порту блока подключена связь", () => {
+    const ports: BlockPort[] = [
+      { id: "a", name: "Вх1", kind: "input", placement: "left" },
+      { id: "b", name: "Вх2", kind: "input", placement: "left" },
+      { id: "out", name: "", kind: "output", placement: "right" },
+    ];
+    const blocks = [block(1, 0.9, { ports }), block(2, 0.8)];
+    // Вход блока 2 соединен с одним из входов блока 1, к входу "a" подведен вход системы
+    const wiredTo = (port: string) => [
+      fromInput("b1", { toPort: "a" }),
+      wire("b1", "left", "b2", "left", { fromPort: port }),
+      toOutput("b1"),
+      toOutput("b2"),
+    ];
+    // Общий порт - общая шина: блоки 1 и 2 параллельны
+    expect(reliabilityOf(blocks, wiredTo("a"), [], POLES)).toBeCloseTo(0.98, 6);
+    // Через порт "b" сигнал к блоку 2 не проходит: блок 1 не передает его с входа на вход
+    expect(reliabilityOf(blocks, wiredTo("b"), [], POLES)).toBeCloseTo(0.9, 6);
+  });
+
+  it("объединяет несколько начал схемы без полюсов в общий вход и сообщает об этом", () => {
+    const blocks = [block(1, 0.9), block(2, 0.8), block(3, 0.7)];
+    const connections = [link("b1", "b3"), link("b2", "b3")];
+    // Входы 1 и 2 не соединены: (1 - 0.1 × 0.2) × 0.7
+    expect(reliabilityOf(blocks, connections)).toBeCloseTo(0.686, 6);
+    expect(notesOf(blocks, connections).join()).toContain("общим входом");
+  });
+
+  it("не выдает число для замкнутого контура без полюсов", () => {
+    const blocks = [block(1, 0.9), block(2, 0.8)];
+    const connections = [link("b1", "b2"), link("b2", "b1")];
+    expect(reliabilityOf(blocks, connections)).toBe(0);
+    expect(notesOf(blocks, connections).join()).toContain(
+      "надежность не определена",
+    );
+  });
+
+  it("совпадает с полным перебором состояний на лестнице с перемычками", () => {
+    const { blocks, connections } = ladder(3);
+    // Надежность как сумма по всем состояниям блоков: исправные - 1, отказавшие - 0
+    let expected = 0;
+    for (let mask = 0; mask < 1 << blocks.length; mask++) {
+      const state = blocks.map((b, i) => ({
+        ...b,
+        reliability: mask & (1 << i) ? 1 : 0,
+      }));
+      if (reliabilityOf(state, connections) === 1) {
+        expected += blocks.reduce(
+          (p, b, i) => p * (mask & (1 << i) ? b.reliability : 1 - b.reliability),
+          1,
+        );
+      }
+    }
+    expect(reliabilityOf(blocks, connections)).toBeCloseTo(expected, 6);
+  });
+
+  it("считает большую схему без контуров и не выводит слишком длинную формулу", () => {
+    const { blocks, connections } = ladder(20);
+    const exact = calculateSystemReliability(blocks, connections, [], [], {
+      exact: true,
+      digits: 6,
+    });
+    expect(reliabilityOf(blocks, connections)).toBeCloseTo(
+      exact.systemReliability,
+      6,
+    );
+    expect(notesOf(blocks, connections).join()).toContain("слишком длинная");
+  });
+
+  it("сворачивает длинную цепь до конца", () => {
+    const blocks = Array.from({ length: 250 }, (_, i) => block(i + 1, 1));
+    const connections = blocks
+      .slice(1)
+      .map((b, i) => link(blocks[i].id, b.id));
+    expect(reliabilityOf(blocks, connections)).toBe(1);
+    expect(notesOf(blocks, connections)).toEqual([]);
+  });
+});
+
+describe("точный расчет", () => {
+  const blocks = Array.from({ length: 10 }, (_, i) => block(i + 1, 0.99999));
+  const connections = blocks.slice(1).map((b, i) => link(blocks[i].id, b.id));
+
+  it("не округляет промежуточные результаты", () => {
+    const exact = calculateSystemReliability(blocks, connections, [], [], {
+      exact: true,
+      digits: 20,
+    });
+    expect(formatFixed(exact.exactReliability!, 20)).toBe(
+      formatFixed(rational(99999n ** 10n, 100000n ** 10n), 20),
+    );
+    expect(exact.systemReliability).toBeCloseTo(0.9999, 6);
+  });
+
+  it("в обычном режиме округляет каждый шаг до 6 знаков", () => {
+    const float = calculateSystemReliability(blocks, connections);
+    expect(float.exactReliability).toBeNull();
+    expect(float.systemReliability).toBe(0.9999);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { dslToScheme, formatDsl, parseDsl, schemeToDsl } from "../dsl";
+import { block, link } from "./schemes";
+
+describe("dslToScheme", () => {
+  it("сохраняет свойства блоков, которых нет в тексте", () => {
+    const first = block(1, 0.951229, {
+      failureModel: { kind: "exponential", lambda: 0.0005 },
+      cost: 3,
+      weight: 2,
+    });
+    const view = {
+      blocks: [first, block(2, 0.8)],
+      connections: [link("b1", "b2")],
+      reserveGroups: [],
+      terminals: [],
+    };
+    const text = formatDsl(
+      schemeToDsl(view.blocks, view.connections, [], []),
+    );
+
+    // Блок 2 теперь параллелен блоку 3, блок 1 в тексте не менялся
+    const next = dslToScheme(
+      parseDsl(text.replace("2: 0.8", "parallel(2: 0.8, 3: 0.7)")),
+      view,
+      1,
+    );
+    const kept = next.blocks.find((b) => b.number === 1)!;
+    expect(kept).toMatchObject({
+      id: "b1",
+      failureModel: first.failureModel,
+      cost: 3,
+      weight: 2,
+    });
+    expect(next.blocks.map((b) => b.number).sort()).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { findMinimalSets } from "../minimalSets";
+import { block, link, parallel, reserve } from "./schemes";
+
+const setsOf = (result: ReturnType<typeof findMinimalSets>) =>
+  result.kind === "sets"
+    ? {
+        paths: result.paths.map((s) => s.blockIds),
+        cuts: result.cuts.map((s) => s.blockIds),
+      }
+    : result.kind;
+
+describe("findMinimalSets", () => {
+  it("находит пути и сечения последовательно-параллельной схемы", () => {
+    const blocks = [block(1, 0.9), block(2, 0.8), block(3, 0.7)];
+    const connections = [...parallel("b1", "b2"), link("b1", "b3")];
+    expect(setsOf(findMinimalSets(blocks, connections))).toEqual({
+      paths: [
+        ["b1", "b3"],
+        ["b2", "b3"],
+      ],
+      cuts: [["b3"], ["b1", "b2"]],
+    });
+  });
+
+  it("перечисляет наборы резерва всей системы k из n", () => {
+    const blocks = [
+      block(1, 0.9),
+      block(2, 0.9),
+      block(3, 0.9, { isReserve: true }),
+    ];
+    const result = findMinimalSets(blocks, [link("b1", "b2")], [
+      reserve("g1", [], ["b3"], 2),
+    ]);
+    expect(setsOf(result)).toEqual({
+      paths: [
+        ["b1", "b2"],
+        ["b1", "b3"],
+        ["b2", "b3"],
+      ],
+      cuts: [
+        ["b1", "b2"],
+        ["b1", "b3"],
+        ["b2", "b3"],
+      ],
+    });
+  });
+
+  it("не перечисляет сочетания, которых больше предела", () => {
+    // C(40, 20) ≈ 1.4 × 10¹¹ путей: ответ - без построения наборов
+    const blocks = Array.from({ length: 40 }, (_, i) =>
+      block(i + 1, 0.9, { isReserve: i > 0 }),
+    );
+    const result = findMinimalSets(blocks, [], [
+      reserve(
+        "g1",
+        [],
+        blocks.slice(1).map((b) => b.id),
+        20,
+      ),
+    ]);
+    expect(result.kind).toBe("too-many");
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { calculateSystemReliability } from "../calculations";
+import {
+  applyRedundancyPlan,
+  blockCost,
+  optimizeRedundancy,
+} from "../redundancy";
+import { RedundancyCopyKind, RedundancyGoal } from "../types";
+import { block, link, parallel } from "./schemes";
+
+// Блок 1 последовательно с параллельными 2 и 3, затем блок 4
+const blocks = [
+  block(1, 0.8, { cost: 3, weight: 2 }),
+  block(2, 0.7, { cost: 1, weight: 1 }),
+  block(3, 0.6, { cost: 2, weight: 1 }),
+  block(4, 0.9, { cost: 2, weight: 3 }),
+];
+const connections = [
+  link("b1", "b2"),
+  ...parallel("b2", "b3"),
+  link("b2", "b4"),
+];
+const view = { blocks, connections, reserveGroups: [], terminals: [] };
+
+const solve = (goal: RedundancyGoal, copyKind: RedundancyCopyKind) =>
+  optimizeRedundancy(blocks, connections, [], [], {
+    goal,
+    copyKind,
+    weightLimit: 8,
+    maxCopies: 2,
+  });
+
+// Полный перебор всех наборов копий с расчетом схемы с добавленными копиями
+const bruteForce = (goal: RedundancyGoal, copyKind: RedundancyCopyKind) => {
+  let best: { reliability: number; cost: number } | null = null;
+  for (let code = 0; code < 3 ** blocks.length; code++) {
+    const copies: Record<string, number> = {};
+    let cost = 0;
+    let weight = 0;
+    blocks.forEach((b, i) => {
+      const k = Math.floor(code / 3 ** i) % 3;
+      if (k > 0) copies[b.id] = k;
+      cost += k * blockCost(b);
+      weight += k * (b.weight ?? 0);
+    });
+    if (weight > 8) continue;
+    if (goal.kind === "max-reliability" && cost > goal.budget) continue;
+    const scheme = applyRedundancyPlan(view, { copies, copyKind }, 0);
+    const reliability = calculateSystemReliability(
+      scheme.blocks,
+      scheme.connections,
+      scheme.reserveGroups,
+      scheme.terminals,
+    ).systemReliability;
+    if (goal.kind === "min-cost" && reliability < goal.target) continue;
+    const better =
+      !best ||
+      (goal.kind === "min-cost"
+        ? cost < best.cost
+        : reliability > best.reliability + 1e-9);
+    if (better) best = { reliability, cost };
+  }
+  return best;
+};
+
+describe("optimizeRedundancy", () => {
+  (["parallel", "reserve"] as const).forEach((copyKind) => {
+    it(`находит наибольшую надежность в пределах бюджета (${copyKind})`, () => {
+      const goal: RedundancyGoal = { kind: "max-reliability", budget: 6 };
+      const plan = solve(goal, copyKind);
+      expect(plan.method).toBe("exact");
+      expect(plan.cost).toBeLessThanOrEqual(6);
+      expect(plan.reliability).toBeCloseTo(
+        bruteForce(goal, copyKind)!.reliability,
+        6,
+      );
+    });
+
+    it(`находит наименьшую стоимость для требуемой надежности (${copyKind})`, () => {
+      const goal: RedundancyGoal = { kind: "min-cost", target: 0.93 };
+      const plan = solve(goal, copyKind);
+      expect(plan.method).toBe("exact");
+      expect(plan.feasible).toBe(true);
+      expect(plan.reliability).toBeGreaterThanOrEqual(0.93);
+      expect(plan.cost).toBe(bruteForce(goal, copyKind)!.cost);
+    });
+  });
+});
+
+describe("applyRedundancyPlan", () => {
+  it("добавляет резервные копии в группу резерва блока без связей", () => {
+    const scheme = applyRedundancyPlan(
+      view,
+      { copies: { b1: 2 }, copyKind: "reserve" },
+      7,
+    );
+    expect(scheme.connections).toHaveLength(connections.length);
+    expect(scheme.reserveGroups).toEqual([
+      {
+        id: "reserve-7-0",
+        targetBlockIds: ["b1"],
+        spareBlockIds: ["block-7-0", "block-7-1"],
+        required: 0, // По умолчанию - число резервируемых блоков
+      },
+    ]);
+    expect(scheme.blocks.slice(4).every((b) => b.isReserve)).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+import { Block, Connection, ReserveGroup, Terminal } from "../types";
+
+// Построители эталонных схем для тестов: блок bN с номером N, связи по сторонам
+
+export const block = (
+  number: number,
+  reliability: number,
+  extra: Partial<Block> = {},
+): Block => ({
+  id: `b${number}`,
+  number,
+  x: number * 3,
+  y: 0,
+  reliability,
+  ...extra,
+});
+
+let connectionCount = 0;
+
+export const wire = (
+  fromBlockId: string,
+  fromSide: Connection["fromSide"],
+  toBlockId: string,
+  toSide: Connection["toSide"],
+  extra: Partial<Connection> = {},
+): Connection => ({
+  id: `c${++connectionCount}`,
+  fromBlockId,
+  fromSide,
+  toBlockId,
+  toSide,
+  ...extra,
+});
+
+// Выход from соединен с входом to
+export const link = (from: string, to: string) =>
+  wire(from, "right", to, "left");
+
+// Блоки соединены параллельно: входы с входами, выходы с выходами
+export const parallel = (a: string, b: string) => [
+  wire(a, "left", b, "left"),
+  wire(a, "right", b, "right"),
+];
+
+export const INPUT: Terminal = { id: "in", kind: "input", x: 0, y: 0 };
+export const OUTPUT: Terminal = { id: "out", kind: "output", x: 30, y: 0 };
+export const POLES = [INPUT, OUTPUT];
+
+// Связи от входа системы к блоку и от блока к выходу системы
+export const fromInput = (to: string, extra: Partial<Connection> = {}) =>
+  wire("in", "right", to, "left", extra);
+export const toOutput = (from: string, extra: Partial<Connection> = {}) =>
+  wire(from, "right", "out", "left", extra);
+
+export const reserve = (
+  id: string,
+  targetBlockIds: string[],
+  spareBlockIds: string[],
+  required: number,
+): ReserveGroup => ({ id, targetBlockIds, spareBlockIds, required });
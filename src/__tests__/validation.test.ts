@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { BlockPort } from "../types";
+import { validateScheme } from "../validation";
+import { block, link } from "./schemes";
+
+const duplicatesOf = (...args: Parameters<typeof validateScheme>) =>
+  validateScheme(...args).filter((d) => d.kind === "duplicate-connection");
+
+describe("validateScheme", () => {
+  it("считает связь без порта и связь к первому порту стороны одной связью", () => {
+    const ports: BlockPort[] = [
+      { id: "x", name: "Вх1", kind: "input", placement: "left" },
+      { id: "y", name: "Вх2", kind: "input", placement: "left" },
+      { id: "out", name: "", kind: "output", placement: "right" },
+    ];
+    const blocks = [block(1, 0.9), block(2, 0.9, { ports })];
+
+    const same = [link("b1", "b2"), { ...link("b1", "b2"), toPort: "x" }];
+    expect(duplicatesOf(blocks, same)).toHaveLength(1);
+
+    const other = [link("b1", "b2"), { ...link("b1", "b2"), toPort: "y" }];
+    expect(duplicatesOf(blocks, other)).toHaveLength(0);
+  });
+});
@@ -1,15 +1,102 @@
-import { Block, Connection } from "./types";
+import {
+  Block,
+  CalculationPrecision,
+  CalculationResults,
+  Connection,
+  NetworkEdge,
+  ReliabilityNetwork,
+  ReserveGroup,
+  SchemeStructure,
+  SpareTarget,
+  Subsystem,
+  SystemCalculations,
+  SystemParameters,
+  Terminal,
+} from "./types";
+import {
+  FormulaNode,
+  ReductionOperand,
+  ReductionStep,
+  ReliabilityDerivation,
+  diff,
+  eq,
+  group,
+  isConstant,
+  mapVariables,
+  num,
+  pow,
+  product,
+  renderPlain,
+  seq,
+  sum,
+  text,
+  variable,
+} from "./formula";
+import {
+  Rational,
+  Real,
+  formatFixed,
+  fromNumber,
+  isRational,
+  minus,
+  plus,
+  times,
+  toNumber,
+  toRational,
+} from "./rational";
+import { blockPorts, findPort } from "./ports";
 
 const DECIMAL_PLACES = 6;
 
+/**
+ * Обычный расчет: двоичные числа, каждый промежуточный результат округляется
+ * до DECIMAL_PLACES знаков. В точном режиме все считается дробями,
+ * а digits знаков остаются только в выводе.
+ */
+export const DEFAULT_PRECISION: CalculationPrecision = {
+  exact: false,
+  digits: DECIMAL_PLACES,
+};
+
 function roundTo(value: number, decimals = DECIMAL_PLACES): number {
   const factor = Math.pow(10, decimals);
   return Math.round((value + Number.EPSILON) * factor) / factor;
 }
 
-function formatTo(value: number, decimals = DECIMAL_PLACES): string {
-  const rounded = roundTo(value, decimals);
-  return rounded.toFixed(decimals).replace(/\.?0+$/, "");
+/**
+ * Округление промежуточного результата. Точные дроби не округляются.
+ */
+function roundReal(value: Real): Real {
+  return isRational(value) ? value : roundTo(value);
+}
+
+function formatTo(value: Real, decimals = DECIMAL_PLACES): string {
+  const text = isRational(value)
+    ? formatFixed(value, decimals)
+    : roundTo(value, decimals).toFixed(decimals);
+  return text.replace(/\.?0+$/, "");
+}
+
+// Знаков после запятой в значениях формулы
+const formulaDecimals = (precision: CalculationPrecision) =>
+  precision.exact ? precision.digits : DECIMAL_PLACES;
+
+/**
+ * Надежность блока в расчете. В точном режиме - дробь; надежность составного
+ * блока заново считается по его подсистеме, а не берется уже округленной.
+ */
+function blockReliability(block: Block, precision: CalculationPrecision): Real {
+  if (!precision.exact) return block.reliability;
+  if (block.subsystem && block.subsystem.blocks.length > 0) {
+    return calculateSystemReliability(
+      block.subsystem.blocks,
+      block.subsystem.connections,
+      block.subsystem.reserveGroups,
+      block.subsystem.terminals,
+      precision,
+    ).exactReliability!;
+  }
+  return fromNumber(block.reliability);
 }
 
 /**
@@ -42,6 +129,8 @@ function bernoulliProbability(n: number, k: number, p: number): number {
 interface ConnectionGraph {
   adjacency: Map<string, Array<{ toId: string; connection: Connection }>>;
   blocks: Map<string, Block>;
+  reliabilities: Map<string, Real>; // Надежность блоков в выбранной точности
+  precision: CalculationPrecision;
 }
 
 /**
@@ -60,15 +149,19 @@ function isValidConnection(conn: Connection): boolean {
 function buildGraph(
   blocks: Block[],
   connections: Connection[],
+  precision = DEFAULT_PRECISION,
 ): ConnectionGraph {
   const graph: ConnectionGraph = {
     adjacency: new Map(),
     blocks: new Map(),
+    reliabilities: new Map(),
+    precision,
   };
 
   // Добавляем блоки
   blocks.forEach((block) => {
     graph.blocks.set(block.id, block);
+    graph.reliabilities.set(block.id, blockReliability(block, precision));
     graph.adjacency.set(block.id, []);
   });
 
@@ -93,601 +186,1262 @@ function buildGraph(
   return graph;
 }
 
-/**
- * Рассчитываем надежность параллельной группы
- */
-function calculateParallelReliability(
-  blockIds: string[],
-  graph: ConnectionGraph,
-): number {
-  let unreliability = 1;
-  blockIds.forEach((id) => {
-    const block = graph.blocks.get(id);
-    if (block) {
-      unreliability *= 1 - block.reliability;
-    }
-  });
-  return roundTo(1 - unreliability);
-}
-
 /**
  * Вероятности ровно k успешных элементов для набора разных p_i (Poisson Binomial)
  * result[k] = P(ровно k из n работают)
  */
-function calculateExactKProbabilities(probabilities: number[]): number[] {
+function calculateExactKProbabilities(probabilities: Real[]): Real[] {
   const n = probabilities.length;
-  const dp = new Array(n + 1).fill(0);
+  const dp = new Array<Real>(n + 1).fill(0);
   dp[0] = 1;
 
   probabilities.forEach((p) => {
     for (let k = n; k >= 0; k--) {
-      const stayFail = dp[k] * (1 - p);
-      const becomeSuccess = k > 0 ? dp[k - 1] * p : 0;
-      dp[k] = stayFail + becomeSuccess;
+      const stayFail = times(dp[k], minus(1, p));
+      const becomeSuccess = k > 0 ? times(dp[k - 1], p) : 0;
+      dp[k] = plus(stayFail, becomeSuccess);
     }
   });
 
-  return dp.map((v) => roundTo(v));
+  return dp.map(roundReal);
 }
 
-function hasLeftToLeftConnection(
-  aId: string,
-  bId: string,
-  connections: Connection[],
-): boolean {
-  return connections.some(
-    (c) =>
-      ((c.fromBlockId === aId && c.toBlockId === bId) ||
-        (c.fromBlockId === bId && c.toBlockId === aId)) &&
-      c.fromSide === "left" &&
-      c.toSide === "left",
-  );
-}
+/**
+ * Ребро последовательно-параллельной сети: блок (или уже свернутая группа блоков)
+ * между двумя эквипотенциальными точками (шинами).
+ * fixed = true - ребро условно считается работающим (при разложении по нему)
+ * или заведомо работает (ребро между портом и блоком).
+ * structure - из каких блоков и как собрано ребро (для раскладки схемы).
+ */
+type SpEdge = {
+  from: string;
+  to: string;
+  reliability: Real;
+  generalExpr: FormulaNode;
+  valueExpr: FormulaNode;
+  fixed?: boolean;
+  structure?: SchemeStructure;
+};
 
-function hasRightToRightConnection(
-  aId: string,
-  bId: string,
-  connections: Connection[],
-): boolean {
-  return connections.some(
-    (c) =>
-      ((c.fromBlockId === aId && c.toBlockId === bId) ||
-        (c.fromBlockId === bId && c.toBlockId === aId)) &&
-      c.fromSide === "right" &&
-      c.toSide === "right",
-  );
+/**
+ * Структура ребра, свернутого из последовательных или параллельных ребер.
+ * Вложенные узлы того же вида раскрываются: ((1, 2), 3) -> (1, 2, 3).
+ */
+function combineStructure(
+  kind: "series" | "parallel",
+  edges: SpEdge[],
+): SchemeStructure | undefined {
+  const items: SchemeStructure[] = [];
+  for (const e of edges) {
+    if (!e.structure) return undefined;
+    if (e.structure.kind === kind) items.push(...e.structure.items);
+    else items.push(e.structure);
+  }
+  return { kind, items };
 }
 
-function analyzeComponent(
-  component: string[],
-  graph: ConnectionGraph,
-  connections: Connection[],
-): {
-  groups: string[][];
-  orderedGroups: string[][];
-  reliability: number;
-  mode: "groups" | "parallel-paths" | "reduced-sp";
-  parallelPaths: string[][];
-  reducedGeneral: string | null;
-  reducedValues: string | null;
-} {
-  type SpEdge = {
-    from: string;
-    to: string;
-    reliability: number;
-    generalExpr: string;
-    valueExpr: string;
-  };
-
-  // 0) Универсальная попытка свести компонент к series-parallel сети через шины.
-  // Идея: объединяем эквипотенциальные точки (left-left, right-right, output-input),
-  // затем редуцируем граф блоков правилами параллели и последовательности.
-  const componentSet = new Set(component);
+/**
+ * Структура сети после свертки: одно ребро или несводимый фрагмент
+ */
+function structureOf(edges: SpEdge[]): SchemeStructure | null {
+  // Ребра портов места на схеме не занимают: их концы сливаются в один узел
+  let items = edges;
+  for (;;) {
+    const link = items.find((e) => e.fixed && !e.structure);
+    if (!link) break;
+    const rename = (node: string) => (node === link.to ? link.from : node);
+    items = items
+      .filter((e) => e !== link)
+      .map((e) => ({ ...e, from: rename(e.from), to: rename(e.to) }));
+  }
 
-  const parent = new Map<string, string>();
-  const find = (x: string): string => {
-    if (!parent.has(x)) parent.set(x, x);
-    const p = parent.get(x)!;
-    if (p === x) return x;
-    const root = find(p);
-    parent.set(x, root);
-    return root;
-  };
-  const union = (a: string, b: string) => {
-    const ra = find(a);
-    const rb = find(b);
-    if (ra !== rb) parent.set(ra, rb);
+  if (items.length === 0 || items.some((e) => !e.structure)) return null;
+  if (items.length === 1) return items[0].structure!;
+  return {
+    kind: "network",
+    edges: items.map((e) => ({ from: e.from, to: e.to, item: e.structure! })),
   };
+}
 
-  const leftNode = (id: string) => `L:${id}`;
-  const rightNode = (id: string) => `R:${id}`;
-
-  component.forEach((id) => {
-    find(leftNode(id));
-    find(rightNode(id));
+/**
+ * Сворачивает параллельные ребра с общими концами в одно
+ */
+function reduceParallel(edges: SpEdge[]): {
+  edges: SpEdge[];
+  changed: boolean;
+} {
+  const buckets = new Map<string, SpEdge[]>();
+  edges.forEach((e) => {
+    const key = `${e.from}->${e.to}`;
+    const list = buckets.get(key) || [];
+    list.push(e);
+    buckets.set(key, list);
   });
 
-  connections.forEach((conn) => {
-    if (
-      !componentSet.has(conn.fromBlockId) ||
-      !componentSet.has(conn.toBlockId)
-    ) {
+  let changed = false;
+  const result: SpEdge[] = [];
+  buckets.forEach((list) => {
+    if (list.length === 1) {
+      result.push(list[0]);
       return;
     }
 
-    // same-side bus connections
-    if (conn.fromSide === "left" && conn.toSide === "left") {
-      union(leftNode(conn.fromBlockId), leftNode(conn.toBlockId));
-      return;
-    }
-    if (conn.fromSide === "right" && conn.toSide === "right") {
-      union(rightNode(conn.fromBlockId), rightNode(conn.toBlockId));
-      return;
-    }
+    changed = true;
 
-    // valid output-input connection => общая точка соединения
-    if (conn.fromSide === "right" && conn.toSide === "left") {
-      union(rightNode(conn.fromBlockId), leftNode(conn.toBlockId));
+    // Параллельно с заведомо работающим ребром - группа тоже работает
+    const fixedEdge = list.find((e) => e.fixed);
+    if (fixedEdge) {
+      result.push(fixedEdge);
       return;
     }
-    if (conn.fromSide === "left" && conn.toSide === "right") {
-      union(rightNode(conn.toBlockId), leftNode(conn.fromBlockId));
-    }
-  });
-
-  let spEdges: SpEdge[] = component
-    .map((id) => {
-      const block = graph.blocks.get(id)!;
-      return {
-        from: find(leftNode(id)),
-        to: find(rightNode(id)),
-        reliability: roundTo(block.reliability),
-        generalExpr: `p<sub>${block.number}</sub>`,
-        valueExpr: `${formatTo(block.reliability)}`,
-      };
-    })
-    .filter((e) => e.from !== e.to);
-
-  const reduceParallel = (
-    edges: SpEdge[],
-  ): { edges: SpEdge[]; changed: boolean } => {
-    const buckets = new Map<string, SpEdge[]>();
-    edges.forEach((e) => {
-      const key = `${e.from}->${e.to}`;
-      const list = buckets.get(key) || [];
-      list.push(e);
-      buckets.set(key, list);
-    });
 
-    let changed = false;
-    const result: SpEdge[] = [];
-    buckets.forEach((list) => {
-      if (list.length === 1) {
-        result.push(list[0]);
-        return;
-      }
+    const unreliability = list.reduce<Real>(
+      (acc, e) => times(acc, minus(1, e.reliability)),
+      1,
+    );
+    const reliability = roundReal(minus(1, unreliability));
 
-      changed = true;
-      const unreliability = list.reduce(
-        (acc, e) => acc * (1 - e.reliability),
-        1,
+    const parallel = (exprs: FormulaNode[]) =>
+      group(
+        diff(num("1"), product(...exprs.map((x) => group(diff(num("1"), x))))),
+        "square",
       );
-      const reliability = roundTo(1 - unreliability);
-
-      const generalExpr = `[1 - ${list
-        .map((e) => `(1 - ${e.generalExpr})`)
-        .join(" × ")}]`;
-      const valueExpr = `[1 - ${list
-        .map((e) => `(1 - ${e.valueExpr})`)
-        .join(" × ")}]`;
-
-      result.push({
-        from: list[0].from,
-        to: list[0].to,
-        reliability,
-        generalExpr,
-        valueExpr,
-      });
+    const generalExpr = parallel(list.map((e) => e.generalExpr));
+    const valueExpr = parallel(list.map((e) => e.valueExpr));
+
+    result.push({
+      from: list[0].from,
+      to: list[0].to,
+      reliability,
+      generalExpr,
+      valueExpr,
+      structure: combineStructure("parallel", list),
     });
+  });
 
-    return { edges: result, changed };
-  };
-
-  const reduceSeries = (
-    edges: SpEdge[],
-  ): { edges: SpEdge[]; changed: boolean } => {
-    const inMap = new Map<string, SpEdge[]>();
-    const outMap = new Map<string, SpEdge[]>();
-    const nodes = new Set<string>();
-
-    edges.forEach((e) => {
-      nodes.add(e.from);
-      nodes.add(e.to);
-
-      const inList = inMap.get(e.to) || [];
-      inList.push(e);
-      inMap.set(e.to, inList);
-
-      const outList = outMap.get(e.from) || [];
-      outList.push(e);
-      outMap.set(e.from, outList);
-    });
+  return { edges: result, changed };
+}
 
-    const sourceNodes = [...nodes].filter(
-      (n) => (inMap.get(n)?.length || 0) === 0,
-    );
-    const sinkNodes = [...nodes].filter(
-      (n) => (outMap.get(n)?.length || 0) === 0,
-    );
-    const sourceSet = new Set(sourceNodes);
-    const sinkSet = new Set(sinkNodes);
-
-    for (const node of nodes) {
-      if (sourceSet.has(node) || sinkSet.has(node)) continue;
-
-      const ins = inMap.get(node) || [];
-      const outs = outMap.get(node) || [];
-      if (ins.length !== 1 || outs.length !== 1) continue;
-
-      const inEdge = ins[0];
-      const outEdge = outs[0];
-      if (inEdge === outEdge) continue;
-
-      const nextEdges = edges.filter((e) => e !== inEdge && e !== outEdge);
-      nextEdges.push({
-        from: inEdge.from,
-        to: outEdge.to,
-        reliability: roundTo(inEdge.reliability * outEdge.reliability),
-        generalExpr: `${inEdge.generalExpr} × ${outEdge.generalExpr}`,
-        valueExpr: `${inEdge.valueExpr} × ${outEdge.valueExpr}`,
-      });
+/**
+ * Сворачивает одну пару последовательных ребер через узел с одним входом и одним выходом.
+ * terminals - узлы, которые нельзя убирать (вход и выход сети); если не заданы,
+ * ими считаются узлы без входящих или без исходящих ребер.
+ */
+function reduceSeries(
+  edges: SpEdge[],
+  terminals?: Set<string>,
+): { edges: SpEdge[]; changed: boolean } {
+  const inMap = new Map<string, SpEdge[]>();
+  const outMap = new Map<string, SpEdge[]>();
+  const nodes = new Set<string>();
+
+  edges.forEach((e) => {
+    nodes.add(e.from);
+    nodes.add(e.to);
+
+    const inList = inMap.get(e.to) || [];
+    inList.push(e);
+    inMap.set(e.to, inList);
+
+    const outList = outMap.get(e.from) || [];
+    outList.push(e);
+    outMap.set(e.from, outList);
+  });
 
-      return { edges: nextEdges, changed: true };
-    }
+  const sourceNodes = [...nodes].filter(
+    (n) => (inMap.get(n)?.length || 0) === 0,
+  );
+  const sinkNodes = [...nodes].filter(
+    (n) => (outMap.get(n)?.length || 0) === 0,
+  );
+  const sourceSet = new Set(sourceNodes);
+  const sinkSet = new Set(sinkNodes);
 
-    return { edges, changed: false };
-  };
+  for (const node of nodes) {
+    if (sourceSet.has(node) || sinkSet.has(node)) continue;
+    if (terminals?.has(node)) continue;
 
-  if (spEdges.length > 0) {
-    let changed = true;
-    let safety = 0;
+    const ins = inMap.get(node) || [];
+    const outs = outMap.get(node) || [];
+    if (ins.length !== 1 || outs.length !== 1) continue;
 
-    while (changed && safety < 200) {
-      safety += 1;
-      changed = false;
+    const inEdge = ins[0];
+    const outEdge = outs[0];
+    if (inEdge === outEdge) continue;
 
-      const p = reduceParallel(spEdges);
-      spEdges = p.edges;
-      changed = changed || p.changed;
+    const nextEdges = edges.filter((e) => e !== inEdge && e !== outEdge);
 
-      const s = reduceSeries(spEdges);
-      spEdges = s.edges;
-      changed = changed || s.changed;
+    // Последовательно с заведомо работающим ребром - остается второе ребро
+    if (inEdge.fixed || outEdge.fixed) {
+      const kept = inEdge.fixed ? outEdge : inEdge;
+      nextEdges.push({ ...kept, from: inEdge.from, to: outEdge.to });
+      return { edges: nextEdges, changed: true };
     }
 
-    if (spEdges.length === 1) {
-      const e = spEdges[0];
-      return {
-        groups: [],
-        orderedGroups: [],
-        reliability: roundTo(e.reliability),
-        mode: "reduced-sp",
-        parallelPaths: [],
-        reducedGeneral: e.generalExpr,
-        reducedValues: e.valueExpr,
-      };
-    }
-  }
+    nextEdges.push({
+      from: inEdge.from,
+      to: outEdge.to,
+      reliability: roundReal(times(inEdge.reliability, outEdge.reliability)),
+      generalExpr: product(inEdge.generalExpr, outEdge.generalExpr),
+      valueExpr: product(inEdge.valueExpr, outEdge.valueExpr),
+      structure: combineStructure("series", [inEdge, outEdge]),
+    });
 
-  function isSameSideConnection(
-    conn: Connection,
-    side: "left" | "right",
-  ): boolean {
-    return conn.fromSide === side && conn.toSide === side;
+    return { edges: nextEdges, changed: true };
   }
 
-  function areBlocksBusConnected(
-    ids: string[],
-    side: "left" | "right",
-  ): boolean {
-    if (ids.length <= 1) return true;
-
-    const set = new Set(ids);
-    const adj = new Map<string, Set<string>>();
-    ids.forEach((id) => adj.set(id, new Set()));
-
-    connections.forEach((conn) => {
-      if (!isSameSideConnection(conn, side)) return;
-      if (!set.has(conn.fromBlockId) || !set.has(conn.toBlockId)) return;
-      adj.get(conn.fromBlockId)?.add(conn.toBlockId);
-      adj.get(conn.toBlockId)?.add(conn.fromBlockId);
-    });
-
-    const visitedBus = new Set<string>();
-    const stack = [ids[0]];
-    while (stack.length > 0) {
-      const cur = stack.pop()!;
-      if (visitedBus.has(cur)) continue;
-      visitedBus.add(cur);
-      (adj.get(cur) || new Set<string>()).forEach((n) => {
-        if (!visitedBus.has(n)) stack.push(n);
-      });
-    }
+  return { edges, changed: false };
+}
 
-    return visitedBus.size === ids.length;
+/**
+ * Повторяет параллельные и последовательные свертки, пока сеть меняется
+ */
+function reduceSeriesParallel(
+  edges: SpEdge[],
+  terminals?: Set<string>,
+): SpEdge[] {
+  // Каждая свертка убирает хотя бы одно ребро, поэтому цикл конечен
+  let current = edges;
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+
+    const p = reduceParallel(current);
+    current = p.edges;
+    changed = changed || p.changed;
+
+    const s = reduceSeries(current, terminals);
+    current = s.edges;
+    changed = changed || s.changed;
   }
 
-  // 0) Спец-случай: несколько последовательных веток, включенных параллельно между общей левой и правой шинами.
-  // Пример: (1->2) || (3->4)
-  const inDegree = new Map<string, number>();
-  const outDegree = new Map<string, number>();
-  const componentSetLegacy = new Set(component);
-  component.forEach((id) => {
-    inDegree.set(id, 0);
-    outDegree.set(id, 0);
-  });
+  return current;
+}
 
-  component.forEach((fromId) => {
-    const out = graph.adjacency.get(fromId) || [];
-    out.forEach(({ toId }) => {
-      if (!componentSet.has(toId)) return;
-      outDegree.set(fromId, (outDegree.get(fromId) || 0) + 1);
-      inDegree.set(toId, (inDegree.get(toId) || 0) + 1);
-    });
-  });
+// Общие вход и выход сети без полюсов, если начал или концов у нее несколько
+const MERGED_SOURCE = "S:*";
+const MERGED_SINK = "K:*";
 
-  const entryBlocks = component.filter((id) => (inDegree.get(id) || 0) === 0);
-  const exitBlocks = component.filter((id) => (outDegree.get(id) || 0) === 0);
+/**
+ * Вход и выход сети без полюсов: узлы без входящих и без исходящих ребер.
+ * Если таких узлов несколько, они объединяются в общий вход (выход) системы:
+ * система работает, если хотя бы от одного начала есть путь хотя бы к одному
+ * концу. node переводит имя узла сети в имя с учетом объединения.
+ * null, если начала или конца нет (все ребра лежат на замкнутых контурах).
+ */
+function resolveNetworkEnds(edges: Array<{ from: string; to: string }>): {
+  source: string;
+  sink: string;
+  merged: boolean;
+  node: (name: string) => string;
+} | null {
+  const nodes = new Set<string>();
+  const hasIn = new Set<string>();
+  const hasOut = new Set<string>();
+  edges.forEach((e) => {
+    nodes.add(e.from);
+    nodes.add(e.to);
+    hasOut.add(e.from);
+    hasIn.add(e.to);
+  });
 
-  const hasEntryBus =
-    entryBlocks.length > 1 && areBlocksBusConnected(entryBlocks, "left");
-  const hasExitBus =
-    exitBlocks.length > 1 && areBlocksBusConnected(exitBlocks, "right");
+  const sources = [...nodes].filter((n) => !hasIn.has(n));
+  const sinks = new Set([...nodes].filter((n) => !hasOut.has(n)));
+  if (sources.length === 0 || sinks.size === 0) return null;
+  if (sources.length === 1 && sinks.size === 1) {
+    return {
+      source: sources[0],
+      sink: [...sinks][0],
+      merged: false,
+      node: (name) => name,
+    };
+  }
 
-  if (hasEntryBus && hasExitBus) {
-    const paths: string[][] = [];
+  const sourceSet = new Set(sources);
+  const source = sources.length === 1 ? sources[0] : MERGED_SOURCE;
+  const sink = sinks.size === 1 ? [...sinks][0] : MERGED_SINK;
+  return {
+    source,
+    sink,
+    merged: true,
+    node: (name) =>
+      sourceSet.has(name) ? source : sinks.has(name) ? sink : name,
+  };
+}
 
-    const dfsPath = (current: string, target: string, path: string[]) => {
-      if (path.includes(current)) return;
+/**
+ * Вход и выход сети компонента: полюса схемы, а без них - начала и концы сети
+ */
+function networkEnds(network: {
+  edges: SpEdge[];
+  poles: { source: string; sink: string } | null;
+}): ReturnType<typeof resolveNetworkEnds> {
+  if (!network.poles) return resolveNetworkEnds(network.edges);
+  return { ...network.poles, merged: false, node: (name) => name };
+}
 
-      const nextPath = [...path, current];
-      if (current === target) {
-        paths.push(nextPath);
-        return;
+/**
+ * Узлы, достижимые из start по направлению ребер (forward) или против него
+ */
+function reachableNodes(
+  edges: Array<{ from: string; to: string }>,
+  start: string,
+  forward: boolean,
+): Set<string> {
+  const seen = new Set<string>([start]);
+  const stack = [start];
+  while (stack.length > 0) {
+    const cur = stack.pop()!;
+    edges.forEach((e) => {
+      const [a, b] = forward ? [e.from, e.to] : [e.to, e.from];
+      if (a === cur && !seen.has(b)) {
+        seen.add(b);
+        stack.push(b);
       }
+    });
+  }
+  return seen;
+}
 
-      const out = graph.adjacency.get(current) || [];
-      out.forEach(({ toId }) => {
-        if (!componentSetLegacy.has(toId)) return;
-        dfsPath(toId, target, nextPath);
-      });
-    };
+/**
+ * Оставляет только ребра, лежащие хотя бы на одном пути source -> sink
+ */
+function pruneIrrelevantEdges(
+  edges: SpEdge[],
+  source: string,
+  sink: string,
+): SpEdge[] {
+  const fromSource = reachableNodes(edges, source, true);
+  const toSink = reachableNodes(edges, sink, false);
+
+  return edges.filter((e) => fromSource.has(e.from) && toSink.has(e.to));
+}
 
-    entryBlocks.forEach((startId) => {
-      exitBlocks.forEach((endId) => {
-        dfsPath(startId, endId, []);
-      });
+/**
+ * Стягивает заведомо работающие ребра u -> v, если это не меняет достижимость:
+ * у v нет других входов или у u нет других выходов. Петли после стягивания отбрасываются.
+ */
+function contractFixedEdges(
+  edges: SpEdge[],
+  source: string,
+  sink: string,
+): SpEdge[] {
+  let current = edges;
+
+  for (;;) {
+    const inDeg = new Map<string, number>();
+    const outDeg = new Map<string, number>();
+    current.forEach((e) => {
+      outDeg.set(e.from, (outDeg.get(e.from) || 0) + 1);
+      inDeg.set(e.to, (inDeg.get(e.to) || 0) + 1);
     });
 
-    const uniquePathMap = new Map<string, string[]>();
-    paths.forEach((p) => {
-      uniquePathMap.set(p.join("->"), p);
-    });
-    const uniquePaths = [...uniquePathMap.values()];
-
-    // Берем только пути, которые не содержат другие (защита от лишних обходов), и считаем параллелью,
-    // если они попарно не пересекаются по блокам.
-    const disjoint = uniquePaths.every((p, i) =>
-      uniquePaths.every((q, j) => {
-        if (i >= j) return true;
-        return p.every((id) => !q.includes(id));
-      }),
+    const edge = current.find(
+      (e) =>
+        e.fixed &&
+        !(e.from === source && e.to === sink) &&
+        (inDeg.get(e.to) === 1 || outDeg.get(e.from) === 1),
     );
+    if (!edge) return current;
+
+    // Вход и выход сети сохраняют свои имена
+    const keep =
+      edge.to === source || edge.to === sink ? edge.to : edge.from;
+    const drop = keep === edge.from ? edge.to : edge.from;
+
+    current = current
+      .filter((e) => e !== edge)
+      .map((e) => ({
+        ...e,
+        from: e.from === drop ? keep : e.from,
+        to: e.to === drop ? keep : e.to,
+      }))
+      .filter((e) => e.from !== e.to);
+  }
+}
 
-    if (uniquePaths.length >= 2 && disjoint) {
-      const branchReliabilities = uniquePaths.map((path) =>
-        roundTo(
-          path.reduce((acc, id) => {
-            const block = graph.blocks.get(id);
-            return acc * (block?.reliability || 0);
-          }, 1),
-        ),
-      );
-
-      const reliability = roundTo(
-        1 -
-          branchReliabilities.reduce((acc, r) => {
-            return acc * (1 - r);
-          }, 1),
-      );
+// Наибольшее число шагов разложения, для которого строится формула.
+// Дальше формула слишком длинная, и надежность считает factorReliability.
+const MAX_FACTORING_CALLS = 5000;
 
-      return {
-        groups: uniquePaths,
-        orderedGroups: uniquePaths,
-        reliability,
-        mode: "parallel-paths",
-        parallelPaths: uniquePaths,
-        reducedGeneral: null,
-        reducedValues: null,
-      };
-    }
+/**
+ * Сеть, подготовленная к шагу разложения: заведомо работающие ребра стянуты,
+ * ребра вне путей source -> sink отброшены, сеть свернута последовательно-
+ * параллельными правилами. done - надежность, если сеть уже посчитана:
+ * 1 - выход достижим по работающим ребрам, 0 - недостижим, иначе - ребро.
+ */
+function prepareFactoring(
+  edges: SpEdge[],
+  source: string,
+  sink: string,
+): { reduced: SpEdge[]; done: SpEdge | 0 | 1 | null } {
+  if (edges.some((e) => e.fixed && e.from === source && e.to === sink)) {
+    return { reduced: [], done: 1 };
   }
 
-  // 1) Находим параллельные группы:
-  // два блока принадлежат одной группе, если между ними есть И left-to-left, И right-to-right связь.
-  const parallelAdj = new Map<string, Set<string>>();
-  component.forEach((id) => parallelAdj.set(id, new Set()));
-
-  for (let i = 0; i < component.length; i++) {
-    for (let j = i + 1; j < component.length; j++) {
-      const aId = component[i];
-      const bId = component[j];
-      const isParallel =
-        hasLeftToLeftConnection(aId, bId, connections) &&
-        hasRightToRightConnection(aId, bId, connections);
-
-      if (isParallel) {
-        parallelAdj.get(aId)?.add(bId);
-        parallelAdj.get(bId)?.add(aId);
-      }
-    }
-  }
+  const relevant = pruneIrrelevantEdges(
+    contractFixedEdges(edges, source, sink),
+    source,
+    sink,
+  );
+  if (relevant.length === 0) return { reduced: [], done: 0 };
 
-  const visited = new Set<string>();
-  const groups: string[][] = [];
-
-  const dfsGroup = (startId: string, group: string[]) => {
-    if (visited.has(startId)) return;
-    visited.add(startId);
-    group.push(startId);
-
-    const neighbors = parallelAdj.get(startId);
-    if (!neighbors) return;
-    neighbors.forEach((nextId) => {
-      if (!visited.has(nextId)) {
-        dfsGroup(nextId, group);
-      }
-    });
-  };
+  const reduced = reduceSeriesParallel(relevant, new Set([source, sink]));
+  if (reduced.length === 1 && reduced[0].from === source) {
+    return { reduced, done: reduced[0].fixed ? 1 : reduced[0] };
+  }
+  // Все оставшиеся ребра заведомо работают, путь source -> sink существует
+  if (reduced.every((e) => e.fixed)) return { reduced, done: 1 };
+  return { reduced, done: null };
+}
 
-  component.forEach((id) => {
-    if (!visited.has(id)) {
-      const group: string[] = [];
-      dfsGroup(id, group);
-      group.sort((a, b) => {
-        const blockA = graph.blocks.get(a);
-        const blockB = graph.blocks.get(b);
-        return (blockA?.number || 0) - (blockB?.number || 0);
-      });
-      groups.push(group);
-    }
+/**
+ * Перемычка для разложения: ребро, не касающееся входа и выхода,
+ * а среди них - с наибольшей степенью концов
+ */
+function choosePivot(edges: SpEdge[], source: string, sink: string): SpEdge {
+  const degree = new Map<string, number>();
+  edges.forEach((e) => {
+    degree.set(e.from, (degree.get(e.from) || 0) + 1);
+    degree.set(e.to, (degree.get(e.to) || 0) + 1);
   });
+  const isInner = (e: SpEdge) =>
+    e.from !== source && e.to !== sink && e.from !== sink && e.to !== source;
+  const score = (e: SpEdge) =>
+    (isInner(e) ? 1000 : 0) +
+    (degree.get(e.from) || 0) +
+    (degree.get(e.to) || 0);
+  return edges
+    .filter((e) => !e.fixed)
+    .reduce((best, e) => (score(e) > score(best) ? e : best));
+}
 
-  // 2) Строим связи между группами по валидным направленным связям (выход->вход).
-  const groupIndexByBlockId = new Map<string, number>();
-  groups.forEach((group, idx) => {
-    group.forEach((blockId) => groupIndexByBlockId.set(blockId, idx));
-  });
+// Ветви разложения: перемычка работает (стягивается) или отказала (удаляется)
+function splitOnPivot(
+  edges: SpEdge[],
+  pivot: SpEdge,
+): { up: SpEdge[]; down: SpEdge[] } {
+  return {
+    up: edges.map((e) =>
+      e === pivot
+        ? {
+            ...e,
+            reliability: 1,
+            generalExpr: num("1"),
+            valueExpr: num("1"),
+            fixed: true,
+          }
+        : e,
+    ),
+    down: edges.filter((e) => e !== pivot),
+  };
+}
 
-  const groupEdges = new Map<number, Set<number>>();
-  const indegree = new Map<number, number>();
-  for (let i = 0; i < groups.length; i++) {
-    groupEdges.set(i, new Set());
-    indegree.set(i, 0);
+/**
+ * Точная надежность двухполюсной сети без контуров: вероятность того, что sink
+ * достижим из source. Ребра обрабатываются в топологическом порядке начал,
+ * состояние - какие из узлов с еще не обработанными выходящими ребрами
+ * достигнуты; вероятности одинаковых состояний складываются. Число состояний
+ * зависит от ширины сети, а не от числа ребер, поэтому длинные лестницы
+ * и сетки считаются быстро. Промежуточные вероятности не округляются -
+ * округляется только результат. null, если в сети есть контур.
+ */
+function acyclicReliability(
+  edges: SpEdge[],
+  source: string,
+  sink: string,
+): Real | null {
+  // Топологический порядок узлов
+  const inDegree = new Map<string, number>();
+  const outEdges = new Map<string, SpEdge[]>();
+  edges.forEach((e) => {
+    inDegree.set(e.from, inDegree.get(e.from) || 0);
+    inDegree.set(e.to, (inDegree.get(e.to) || 0) + 1);
+    outEdges.set(e.from, [...(outEdges.get(e.from) || []), e]);
+  });
+  const order = new Map<string, number>();
+  const queue = [...inDegree.keys()].filter((n) => inDegree.get(n) === 0);
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    order.set(node, order.size);
+    (outEdges.get(node) || []).forEach((e) => {
+      const left = inDegree.get(e.to)! - 1;
+      inDegree.set(e.to, left);
+      if (left === 0) queue.push(e.to);
+    });
   }
+  if (order.size !== inDegree.size) return null;
 
-  component.forEach((fromId) => {
-    const fromGroup = groupIndexByBlockId.get(fromId);
-    if (fromGroup === undefined) return;
-
-    const out = graph.adjacency.get(fromId) || [];
-    out.forEach(({ toId }) => {
-      if (!component.includes(toId)) return;
-      const toGroup = groupIndexByBlockId.get(toId);
-      if (toGroup === undefined || toGroup === fromGroup) return;
+  const sorted = [...edges].sort(
+    (a, b) =>
+      order.get(a.from)! - order.get(b.from)! ||
+      order.get(a.to)! - order.get(b.to)!,
+  );
+  const remaining = new Map<string, number>();
+  sorted.forEach((e) => remaining.set(e.from, (remaining.get(e.from) || 0) + 1));
+
+  // Состояние - отсортированный список достигнутых узлов
+  let states = new Map<string, { reached: string[]; probability: Real }>([
+    [source, { reached: [source], probability: 1 }],
+  ]);
+  let success: Real = 0;
+  const add = (
+    next: typeof states,
+    reached: string[],
+    probability: Real,
+  ) => {
+    const key = reached.join("|");
+    const state = next.get(key);
+    if (state) state.probability = plus(state.probability, probability);
+    else next.set(key, { reached, probability });
+  };
 
-      const edges = groupEdges.get(fromGroup);
-      if (!edges?.has(toGroup)) {
-        edges?.add(toGroup);
-        indegree.set(toGroup, (indegree.get(toGroup) || 0) + 1);
+  sorted.forEach((e) => {
+    const p = e.fixed ? 1 : e.reliability;
+    const last = remaining.get(e.from) === 1;
+    remaining.set(e.from, remaining.get(e.from)! - 1);
+
+    const next: typeof states = new Map();
+    states.forEach(({ reached, probability }) => {
+      // Узел, из которого больше не выходит необработанных ребер, больше не нужен
+      const kept = last ? reached.filter((n) => n !== e.from) : reached;
+      if (!reached.includes(e.from) || reached.includes(e.to)) {
+        if (kept.length > 0) add(next, kept, probability);
+        return;
+      }
+      // Ребро работает: его конец достигнут
+      if (e.to === sink) {
+        success = plus(success, times(probability, p));
+      } else {
+        add(next, [...kept, e.to].sort(), times(probability, p));
       }
+      if (kept.length > 0) add(next, kept, times(probability, minus(1, p)));
     });
+    states = next;
   });
 
-  // 3) Топологический порядок групп (для красивой формулы). Если есть цикл — fallback по номеру блока.
-  const queue: number[] = [];
-  indegree.forEach((deg, idx) => {
-    if (deg === 0) queue.push(idx);
-  });
-
-  const orderedIdx: number[] = [];
-  while (queue.length > 0) {
-    const current = queue.shift()!;
-    orderedIdx.push(current);
-
-    const nextSet = groupEdges.get(current) || new Set<number>();
-    nextSet.forEach((next) => {
-      const nextDeg = (indegree.get(next) || 0) - 1;
-      indegree.set(next, nextDeg);
-      if (nextDeg === 0) queue.push(next);
-    });
-  }
-
-  const orderedGroups =
-    orderedIdx.length === groups.length
-      ? orderedIdx.map((idx) => groups[idx])
-      : [...groups].sort((a, b) => {
-          const firstA = graph.blocks.get(a[0])?.number || 0;
-          const firstB = graph.blocks.get(b[0])?.number || 0;
-          return firstA - firstB;
-        });
+  return roundReal(success);
+}
 
-  // 4) Надежность компонента: последовательное произведение надежностей групп,
-  // где группа > 1 блока считается параллельно.
-  const reliability = orderedGroups.reduce((acc, group) => {
-    if (group.length === 1) {
-      const block = graph.blocks.get(group[0]);
-      return acc * (block?.reliability || 0);
-    }
-    return acc * calculateParallelReliability(group, graph);
-  }, 1);
+const realKey = (value: Real) =>
+  isRational(value) ? `${value.num}/${value.den}` : String(value);
 
-  return {
-    groups,
-    orderedGroups,
-    reliability: roundTo(reliability),
-    mode: "groups",
-    parallelPaths: [],
-    reducedGeneral: null,
-    reducedValues: null,
-  };
+/**
+ * Точная надежность двухполюсной сети без формулы и без ограничения числа шагов.
+ * Сеть без контуров считается acyclicReliability, с контурами - разложением,
+ * как в factorNetwork, пока ветви разложения не избавятся от контуров.
+ * Одинаковые подсети, получающиеся в разных ветвях, считаются один раз.
+ */
+function factorReliability(
+  edges: SpEdge[],
+  source: string,
+  sink: string,
+  memo = new Map<string, Real>(),
+): Real {
+  const { reduced, done } = prepareFactoring(edges, source, sink);
+  if (done !== null) return typeof done === "number" ? done : done.reliability;
+
+  const acyclic = acyclicReliability(reduced, source, sink);
+  if (acyclic !== null) return acyclic;
+
+  const key = reduced
+    .map((e) => `${e.from}>${e.to}:${e.fixed ? "*" : realKey(e.reliability)}`)
+    .sort()
+    .join("|");
+  const cached = memo.get(key);
+  if (cached !== undefined) return cached;
+
+  const pivot = choosePivot(reduced, source, sink);
+  const { up, down } = splitOnPivot(reduced, pivot);
+  const p = pivot.reliability;
+  const reliability = roundReal(
+    plus(
+      times(p, factorReliability(up, source, sink, memo)),
+      times(minus(1, p), factorReliability(down, source, sink, memo)),
+    ),
+  );
+  memo.set(key, reliability);
+  return reliability;
 }
 
 /**
- * Рассчитываем надежность системы с резервированием по формуле Бернулли
+ * Точный расчет надежности произвольной двухполюсной сети методом разложения
+ * (формула полной вероятности по "перемычке"):
+ * G = p<sub>e</sub> × G(e работает) + (1 - p<sub>e</sub>) × G(e отказал).
+ * На каждом шаге сеть заново сворачивается последовательно-параллельными правилами.
+ * В pivots записываются выражения ребер, по которым выполнялось разложение.
+ * Возвращает null, если формула получается длиннее MAX_FACTORING_CALLS шагов.
  */
-function calculateSystemWithReserve(
-  mainChain: string[],
-  reserveBlocks: string[],
-  graph: ConnectionGraph,
+function factorNetwork(
+  edges: SpEdge[],
+  source: string,
+  sink: string,
+  pivots: FormulaNode[],
+  counter: { calls: number },
 ): {
-  reliability: number;
-  minRequired: number;
-  total: number;
-  exactKProbabilities: number[];
-} {
-  const allBlocks = [...mainChain, ...reserveBlocks];
-  const n = allBlocks.length; // Общее количество блоков
-  const minRequired = mainChain.length; // Минимум нужно столько, сколько в основной цепи
+  reliability: Real;
+  generalExpr: FormulaNode;
+  valueExpr: FormulaNode;
+} | null {
+  counter.calls += 1;
+  if (counter.calls > MAX_FACTORING_CALLS) return null;
+
+  const { reduced, done } = prepareFactoring(edges, source, sink);
+  if (done === 0) {
+    // Выход недостижим
+    return { reliability: 0, generalExpr: num("0"), valueExpr: num("0") };
+  }
+  if (done === 1) {
+    return { reliability: 1, generalExpr: num("1"), valueExpr: num("1") };
+  }
+  if (done) {
+    return {
+      reliability: done.reliability,
+      generalExpr: done.generalExpr,
+      valueExpr: done.valueExpr,
+    };
+  }
 
-  // Универсально считаем для разных p_i: сначала P(k,n), потом суммируем k >= minRequired
-  const probabilities = allBlocks
-    .map((id) => graph.blocks.get(id)?.reliability)
-    .filter((p): p is number => typeof p === "number");
+  const pivot = choosePivot(reduced, source, sink);
+  pivots.push(pivot.generalExpr);
 
-  const exactKProbabilities = calculateExactKProbabilities(probabilities);
+  const branches = splitOnPivot(reduced, pivot);
+  const up = factorNetwork(branches.up, source, sink, pivots, counter);
+  if (!up) return null;
+  const down = factorNetwork(branches.down, source, sink, pivots, counter);
+  if (!down) return null;
 
-  // G_np = P(minRequired, n) + P(minRequired+1, n) + ... + P(n, n)
-  let totalReliability = 0;
-  for (let k = minRequired; k <= n; k++) {
-    totalReliability += exactKProbabilities[k] || 0;
-  }
+  const p = pivot.reliability;
+  const reliability = roundReal(
+    plus(times(p, up.reliability), times(minus(1, p), down.reliability)),
+  );
+
+  // Слагаемые вида "× 1" и "× 0" опускаем
+  const term = (factor: FormulaNode, branch: FormulaNode) =>
+    isConstant(branch, "1") ? factor : product(factor, branch);
+  const combine = (
+    pivotExpr: FormulaNode,
+    upExpr: FormulaNode,
+    downExpr: FormulaNode,
+  ) => {
+    const upTerm = term(pivotExpr, upExpr);
+    if (isConstant(downExpr, "0")) return upTerm;
+    return sum(upTerm, term(group(diff(num("1"), pivotExpr)), downExpr));
+  };
 
   return {
-    reliability: roundTo(totalReliability),
-    minRequired,
-    total: n,
-    exactKProbabilities: exactKProbabilities.map((v) => roundTo(v)),
+    reliability,
+    generalExpr: combine(pivot.generalExpr, up.generalExpr, down.generalExpr),
+    valueExpr: combine(pivot.valueExpr, up.valueExpr, down.valueExpr),
   };
 }
 
 /**
- * Получает ВАЛИДНЫЕ входные соседи (те, кто подключил свой ВЫХОД к моему ВХОДУ)
+ * Обозначение группы резерва в формулах: р1, р2, ...
  */
-function getValidInputs(blockId: string, connections: Connection[]): string[] {
-  const inputs: string[] = [];
+export function reserveGroupLabel(index: number): string {
+  return `р${index + 1}`;
+}
 
-  connections.forEach((conn) => {
+/**
+ * Вход и выход системы. null, если на схеме нет обоих полюсов -
+ * тогда началом схемы считается блок с наименьшим номером.
+ */
+export function resolveTerminals(
+  terminals: Terminal[],
+): { input: Terminal; output: Terminal } | null {
+  const input = terminals.find((t) => t.kind === "input");
+  const output = terminals.find((t) => t.kind === "output");
+  return input && output ? { input, output } : null;
+}
+
+/**
+ * Приводит группы резерва к согласованному виду: убирает ссылки на удаленные блоки,
+ * ограничивает k диапазоном 1..n. Резервные блоки, не входящие ни в одну группу,
+ * попадают в группу резерва всей системы (так работали файлы до появления групп).
+ */
+export function resolveReserveGroups(
+  blocks: Block[],
+  reserveGroups: ReserveGroup[],
+): ReserveGroup[] {
+  const blockMap = new Map(blocks.map((b) => [b.id, b]));
+  const assigned = new Set<string>();
+
+  const groups = reserveGroups.map((group) => {
+    const targetBlockIds = group.targetBlockIds.filter(
+      (id) => blockMap.has(id) && !blockMap.get(id)!.isReserve,
+    );
+    const spareBlockIds = group.spareBlockIds.filter(
+      (id) =>
+        blockMap.get(id)?.isReserve === true && !assigned.has(id),
+    );
+    spareBlockIds.forEach((id) => assigned.add(id));
+    return { ...group, targetBlockIds, spareBlockIds };
+  });
+
+  const unassigned = blocks
+    .filter((b) => b.isReserve && !assigned.has(b.id))
+    .map((b) => b.id);
+  if (unassigned.length > 0) {
+    const whole = groups.find((g) => g.targetBlockIds.length === 0);
+    if (whole) {
+      whole.spareBlockIds = [...whole.spareBlockIds, ...unassigned];
+    } else {
+      groups.push({
+        id: "reserve-system",
+        targetBlockIds: [],
+        spareBlockIds: unassigned,
+        required: 0,
+      });
+    }
+  }
+
+  const mainCount = blocks.filter((b) => !b.isReserve).length;
+  return groups.map((group) => {
+    const targets =
+      group.targetBlockIds.length > 0 ? group.targetBlockIds.length : mainCount;
+    const total = targets + group.spareBlockIds.length;
+    const required =
+      group.required > 0 ? Math.min(group.required, total) : targets;
+    return { ...group, required: Math.max(1, required) };
+  });
+}
+
+/**
+ * Добавляет резервный блок в группу. Если подходящей группы нет - создает ее с id newGroupId.
+ */
+export function addSpareToGroups(
+  groups: ReserveGroup[],
+  spareId: string,
+  target: SpareTarget,
+  newGroupId: string,
+): ReserveGroup[] {
+  const existing = groups.find((group) => {
+    if (target.kind === "group") return group.id === target.groupId;
+    if (target.kind === "system") return group.targetBlockIds.length === 0;
+    return (
+      group.targetBlockIds.length === 1 &&
+      group.targetBlockIds[0] === target.blockId
+    );
+  });
+
+  if (existing) {
+    return groups.map((group) =>
+      group === existing
+        ? { ...group, spareBlockIds: [...group.spareBlockIds, spareId] }
+        : group,
+    );
+  }
+
+  return [
+    ...groups,
+    {
+      id: newGroupId,
+      targetBlockIds: target.kind === "block" ? [target.blockId] : [],
+      spareBlockIds: [spareId],
+      required: 0,
+    },
+  ];
+}
+
+/**
+ * Заменяет ребра блоков группы резерва одним ребром с надежностью группы.
+ * Блоки группы должны образовывать двухполюсный фрагмент схемы:
+ * ровно один узел входа и один узел выхода, связанные с остальной схемой.
+ * Возвращает null, если это не так.
+ */
+function substituteReserveGroup(
+  edges: SpEdge[],
+  targetEdges: SpEdge[],
+  groupEdge: Omit<SpEdge, "from" | "to">,
+): SpEdge[] | null {
+  if (targetEdges.length === 0) return null;
+
+  const targetSet = new Set(targetEdges);
+  const others = edges.filter((e) => !targetSet.has(e));
+
+  const hasIn = new Set<string>();
+  const hasOut = new Set<string>();
+  edges.forEach((e) => {
+    hasOut.add(e.from);
+    hasIn.add(e.to);
+  });
+
+  const innerNodes = new Set<string>();
+  targetEdges.forEach((e) => {
+    innerNodes.add(e.from);
+    innerNodes.add(e.to);
+  });
+
+  const boundary = [...innerNodes].filter(
+    (n) =>
+      !hasIn.has(n) ||
+      !hasOut.has(n) ||
+      others.some((e) => e.from === n || e.to === n),
+  );
+  if (boundary.length !== 2) return null;
+
+  const entry = boundary.find(
+    (n) =>
+      targetEdges.some((e) => e.from === n) &&
+      !targetEdges.some((e) => e.to === n),
+  );
+  const exit = boundary.find(
+    (n) =>
+      targetEdges.some((e) => e.to === n) &&
+      !targetEdges.some((e) => e.from === n),
+  );
+  if (!entry || !exit || entry === exit) return null;
+
+  return [...others, { ...groupEdge, from: entry, to: exit }];
+}
+
+/**
+ * Надежность составного блока - надежность его вложенной схемы
+ */
+export function subsystemReliability(subsystem: Subsystem): number {
+  if (subsystem.blocks.length === 0) return 0;
+  return calculateSystemReliability(
+    subsystem.blocks,
+    subsystem.connections,
+    subsystem.reserveGroups,
+    subsystem.terminals,
+  ).systemReliability;
+}
+
+/**
+ * Обозначение блока в формулах. Составной блок раскрывается формулой
+ * своей подсистемы, индексы ее переменных получают номер блока: p₅.₁, p₅.₂.
+ * Если формула подсистемы не умещается в одну строку (группы резерва
+ * со своими суммами), блок обозначается как обычный: p₅.
+ */
+function blockExpressions(
+  block: Block,
+  graph: ConnectionGraph,
+): {
+  general: FormulaNode;
+  value: FormulaNode;
+} {
+  const plain = {
+    general: variable("p", String(block.number)),
+    value: num(
+      formatTo(
+        graph.reliabilities.get(block.id)!,
+        formulaDecimals(graph.precision),
+      ),
+    ),
+  };
+  if (!block.subsystem) return plain;
+
+  const inner = buildReliabilityDerivation(
+    block.subsystem.blocks,
+    block.subsystem.connections,
+    block.subsystem.reserveGroups,
+    block.subsystem.terminals,
+    graph.precision,
+  );
+  const [general] = inner.general;
+  const [withValues] = inner.withValues;
+  if (
+    inner.general.length !== 1 ||
+    inner.withValues.length !== 1 ||
+    inner.reserveSteps.length > 0 ||
+    general.kind !== "eq" ||
+    withValues.kind !== "eq"
+  ) {
+    return plain;
+  }
+
+  const prefix = (node: FormulaNode) =>
+    mapVariables(node, (v) =>
+      variable(v.name, v.sub ? `${block.number}.${v.sub}` : v.sub, v.sup),
+    );
+  const nested = (node: FormulaNode) =>
+    node.kind === "num" || node.kind === "var" || node.kind === "group"
+      ? node
+      : group(node);
+  return {
+    general: nested(prefix(general.sides[general.sides.length - 1])),
+    value: nested(withValues.sides[withValues.sides.length - 1]),
+  };
+}
+
+/**
+ * Сеть компонента на шинах: эквипотенциальные точки (left-left, right-right, output-input)
+ * объединяются в узлы, каждый блок компонента - ребро от своего входа к выходу.
+ * Группы резерва, охватывающие двухполюсный фрагмент, заменяются одним ребром.
+ * members - какие блоки образуют ребро и сколько из них должно работать.
+ * blockNodes - узлы входа и выхода каждого блока компонента (в том числе замкнутого накоротко).
+ * portLinks - ребра между портами и входом или выходом блоков компонента (см. ниже).
+ * connectionNodes - узлы, к которым подключены концы каждой связи.
+ * poles - узлы входа и выхода системы, если на схеме есть полюса.
+ */
+function buildBusNetwork(
+  component: string[],
+  graph: ConnectionGraph,
+  connections: Connection[],
+  reserveGroups: ReserveGroup[],
+  terminals: Terminal[] = [],
+): {
+  edges: SpEdge[];
+  members: Map<SpEdge, { blockIds: string[]; required: number }>;
+  appliedGroups: string[];
+  blockNodes: Map<string, { from: string; to: string }>;
+  portLinks: Array<{ blockId: string; from: string; to: string }>;
+  connectionNodes: Map<string, { from: string; to: string }>;
+  poles: { source: string; sink: string } | null;
+} {
+  const componentSet = new Set(component);
+  const terminalIds = new Set(terminals.map((t) => t.id));
+
+  const parent = new Map<string, string>();
+  const find = (x: string): string => {
+    if (!parent.has(x)) parent.set(x, x);
+    const p = parent.get(x)!;
+    if (p === x) return x;
+    const root = find(p);
+    parent.set(x, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent.set(ra, rb);
+  };
+
+  const leftNode = (id: string) => `L:${id}`;
+  const rightNode = (id: string) => `R:${id}`;
+  const terminalNode = (id: string) => `T:${id}`;
+  const portNode = (id: string, portId: string) => `P:${id}:${portId}`;
+
+  // Точки соединения есть у всех блоков схемы, а не только у блоков компонента:
+  // шина, проходящая через точку блока вне путей или резервного блока,
+  // соединяет подключенные к ней блоки компонента
+  graph.blocks.forEach((block, id) => {
+    find(leftNode(id));
+    find(rightNode(id));
+    // Единственный порт своего вида - то же, что сторона блока
+    if (!block.ports) return;
+    (["input", "output"] as const).forEach((kind) => {
+      const ports = blockPorts(block).filter((p) => p.kind === kind);
+      if (ports.length !== 1) return;
+      union(
+        portNode(id, ports[0].id),
+        kind === "input" ? leftNode(id) : rightNode(id),
+      );
+    });
+  });
+  terminals.forEach((t) => find(terminalNode(t.id)));
+
+  // Точка подключения связи: порт или сторона блока, полюс схемы
+  const endpoint = (
+    id: string,
+    side: "left" | "right",
+    portId?: string,
+  ): string | null => {
+    if (terminalIds.has(id)) return terminalNode(id);
+    const block = graph.blocks.get(id);
+    if (!block) return null;
+    if (block.ports) return portNode(id, findPort(block, side, portId).id);
+    return side === "left" ? leftNode(id) : rightNode(id);
+  };
+
+  // Любая связь (left-left, right-right, output-input) делает свои концы общей точкой
+  const ends = connections.map((conn) => ({
+    id: conn.id,
+    from: endpoint(conn.fromBlockId, conn.fromSide, conn.fromPort),
+    to: endpoint(conn.toBlockId, conn.toSide, conn.toPort),
+  }));
+  ends.forEach(({ from, to }) => {
+    if (from && to) union(from, to);
+  });
+  const connectedPorts = new Set(ends.flatMap((e) => [e.from, e.to]));
+
+  const connectionNodes = new Map<string, { from: string; to: string }>();
+  ends.forEach(({ id, from, to }) => {
+    if (from && to) connectionNodes.set(id, { from: find(from), to: find(to) });
+  });
+
+  const blockNodes = new Map<string, { from: string; to: string }>();
+  component.forEach((id) =>
+    blockNodes.set(id, { from: find(leftNode(id)), to: find(rightNode(id)) }),
+  );
+
+  // Если портов одного вида несколько, каждый порт - своя точка соединения.
+  // Подключенный входной порт соединен с входом блока идеальным ребром
+  // порт -> вход: блок получает сигнал, если он пришел хотя бы на один вход.
+  // Выход блока так же соединен с каждым подключенным выходным портом.
+  // Ребра направлены, поэтому сигнал не переходит с порта на порт в обход блока,
+  // и от того, к какому порту подключена связь, зависит надежность схемы.
+  const portLinks: Array<{ blockId: string; from: string; to: string }> = [];
+  component.forEach((id) => {
+    const block = graph.blocks.get(id)!;
+    if (!block.ports) return;
+    blockPorts(block).forEach((port, _, all) => {
+      const node = portNode(id, port.id);
+      if (all.filter((p) => p.kind === port.kind).length === 1) return;
+      if (!connectedPorts.has(node)) return;
+      const [from, to] =
+        port.kind === "input"
+          ? [find(node), find(leftNode(id))]
+          : [find(rightNode(id)), find(node)];
+      if (from !== to) portLinks.push({ blockId: id, from, to });
+    });
+  });
+
+  const resolved = resolveTerminals(terminals);
+  const poles = resolved
+    ? {
+        source: find(terminalNode(resolved.input.id)),
+        sink: find(terminalNode(resolved.output.id)),
+      }
+    : null;
+
+  const members = new Map<SpEdge, { blockIds: string[]; required: number }>();
+  const edgeByBlock = new Map<string, SpEdge>();
+  component.forEach((id) => {
+    const block = graph.blocks.get(id)!;
+    const expressions = blockExpressions(block, graph);
+    const edge = {
+      ...blockNodes.get(id)!,
+      reliability: roundReal(graph.reliabilities.get(id)!),
+      generalExpr: expressions.general,
+      valueExpr: expressions.value,
+      structure: { kind: "block", blockId: id } as SchemeStructure,
+    };
+    if (edge.from !== edge.to) {
+      edgeByBlock.set(id, edge);
+      members.set(edge, { blockIds: [id], required: 1 });
+    }
+  });
+  let edges: SpEdge[] = [...edgeByBlock.values()];
+  portLinks.forEach(({ from, to }) => {
+    const edge = {
+      from,
+      to,
+      reliability: 1,
+      generalExpr: num("1"),
+      valueExpr: num("1"),
+      fixed: true,
+    };
+    edges.push(edge);
+    members.set(edge, { blockIds: [], required: 0 });
+  });
+
+  // Группы резерва, охватывающие часть компонента, сворачиваются в одно ребро
+  const appliedGroups: string[] = [];
+  reserveGroups.forEach((group, idx) => {
+    if (group.targetBlockIds.length === 0) return;
+    if (!group.targetBlockIds.every((id) => componentSet.has(id))) return;
+
+    const result = calculateSystemWithReserve(
+      group.targetBlockIds,
+      group.spareBlockIds,
+      graph,
+      group.required,
+    );
+    const targetEdges = group.targetBlockIds
+      .map((id) => edgeByBlock.get(id))
+      .filter((e): e is SpEdge => e !== undefined);
+
+    const substituted = substituteReserveGroup(edges, targetEdges, {
+      reliability: result.reliability,
+      generalExpr: variable("G", reserveGroupLabel(idx)),
+      valueExpr: num(
+        formatTo(result.reliability, formulaDecimals(graph.precision)),
+      ),
+      structure: structureOf(reduceSeriesParallel(targetEdges)) ?? undefined,
+    });
+    if (substituted) {
+      edges = substituted;
+      members.set(substituted[substituted.length - 1], {
+        blockIds: [...group.targetBlockIds, ...group.spareBlockIds],
+        required: group.required,
+      });
+      appliedGroups.push(group.id);
+    }
+  });
+
+  return {
+    edges,
+    members,
+    appliedGroups,
+    blockNodes,
+    portLinks,
+    connectionNodes,
+    poles,
+  };
+}
+
+/**
+ * Сеть компонента на шинах с входом и выходом: полюсами схемы, а без них -
+ * началами и концами сети (несколько начал или концов объединяются,
+ * merged = true). ends = null, если у сети нет входа или выхода.
+ */
+function componentNetwork(
+  component: string[],
+  graph: ConnectionGraph,
+  connections: Connection[],
+  reserveGroups: ReserveGroup[],
+  terminals: Terminal[],
+): {
+  edges: SpEdge[];
+  ends: { source: string; sink: string; merged: boolean } | null;
+  appliedGroups: string[];
+} {
+  const network = buildBusNetwork(
+    component,
+    graph,
+    connections,
+    reserveGroups,
+    terminals,
+  );
+  const ends = networkEnds(network);
+  return {
+    edges: ends
+      ? network.edges.map((e) => ({
+          ...e,
+          from: ends.node(e.from),
+          to: ends.node(e.to),
+        }))
+      : network.edges,
+    ends,
+    appliedGroups: network.appliedGroups,
+  };
+}
+
+/**
+ * Точная надежность компонента: вероятность того, что выход сети достижим
+ * из входа. 0, если входа или выхода у сети нет.
+ */
+function componentReliability(
+  component: string[],
+  graph: ConnectionGraph,
+  connections: Connection[],
+  reserveGroups: ReserveGroup[] = [],
+  terminals: Terminal[] = [],
+): Real {
+  const { edges, ends } = componentNetwork(
+    component,
+    graph,
+    connections,
+    reserveGroups,
+    terminals,
+  );
+  return ends ? factorReliability(edges, ends.source, ends.sink) : 0;
+}
+
+/**
+ * Формула надежности компонента для вывода.
+ * mode: "reduced-sp" - сеть свернулась последовательно-параллельными правилами,
+ * "factoring" - понадобилось разложение (reducedGeneral = null, если формула
+ * разложения слишком длинная), "undetermined" - у сети нет входа или выхода.
+ */
+function analyzeComponent(
+  component: string[],
+  graph: ConnectionGraph,
+  connections: Connection[],
+  reserveGroups: ReserveGroup[] = [],
+  terminals: Terminal[] = [],
+): {
+  reliability: Real;
+  mode: "reduced-sp" | "factoring" | "undetermined";
+  reducedGeneral: FormulaNode | null;
+  reducedValues: FormulaNode | null;
+  pivots: FormulaNode[];
+  merged: boolean;
+  appliedGroups: string[];
+} {
+  const { edges, ends, appliedGroups } = componentNetwork(
+    component,
+    graph,
+    connections,
+    reserveGroups,
+    terminals,
+  );
+  if (!ends) {
+    return {
+      reliability: 0,
+      mode: "undetermined",
+      reducedGeneral: null,
+      reducedValues: null,
+      pivots: [],
+      merged: false,
+      appliedGroups,
+    };
+  }
+
+  const pivots: FormulaNode[] = [];
+  const exact = factorNetwork(edges, ends.source, ends.sink, pivots, {
+    calls: 0,
+  });
+  const factored = !exact || pivots.length > 0;
+  // Значение разложения - тем же расчетом, что и в calculateSystemReliability
+  const reliability = factored
+    ? factorReliability(edges, ends.source, ends.sink)
+    : roundReal(exact.reliability);
+  const square = (node: FormulaNode) =>
+    factored ? group(node, "square") : node;
+  return {
+    reliability,
+    mode: factored ? "factoring" : "reduced-sp",
+    // Формула разложения слишком длинная - выводится только значение
+    reducedGeneral: exact && square(exact.generalExpr),
+    reducedValues: exact && square(exact.valueExpr),
+    pivots,
+    merged: ends.merged,
+    appliedGroups,
+  };
+}
+
+/**
+ * Рассчитываем надежность системы с резервированием по формуле Бернулли.
+ * required - сколько элементов из n должно работать (по умолчанию - длина основной цепи)
+ */
+function calculateSystemWithReserve(
+  mainChain: string[],
+  reserveBlocks: string[],
+  graph: ConnectionGraph,
+  required = mainChain.length,
+): {
+  reliability: Real;
+  minRequired: number;
+  total: number;
+  exactKProbabilities: Real[];
+} {
+  const allBlocks = [...mainChain, ...reserveBlocks];
+  const n = allBlocks.length; // Общее количество блоков
+  const minRequired = Math.min(required, n); // Минимум работающих элементов
+
+  // Универсально считаем для разных p_i: сначала P(k,n), потом суммируем k >= minRequired
+  const probabilities = allBlocks
+    .map((id) => graph.reliabilities.get(id))
+    .filter((p): p is Real => p !== undefined);
+
+  const exactKProbabilities = calculateExactKProbabilities(probabilities);
+
+  // G_np = P(minRequired, n) + P(minRequired+1, n) + ... + P(n, n)
+  let totalReliability: Real = 0;
+  for (let k = minRequired; k <= n; k++) {
+    totalReliability = plus(totalReliability, exactKProbabilities[k] ?? 0);
+  }
+
+  return {
+    reliability: roundReal(totalReliability),
+    minRequired,
+    total: n,
+    exactKProbabilities: exactKProbabilities.map(roundReal),
+  };
+}
+
+/**
+ * Получает ВАЛИДНЫЕ входные соседи (те, кто подключил свой ВЫХОД к моему ВХОДУ)
+ */
+function getValidInputs(blockId: string, connections: Connection[]): string[] {
+  const inputs: string[] = [];
+
+  connections.forEach((conn) => {
     // Ищем связи где чей-то выход (right) подключен к моему входу (left)
     if (
       conn.toBlockId === blockId &&
@@ -792,91 +1546,241 @@ export function isBlockConnected(
 }
 
 /**
- * Генерирует формулу для расчета надежности в HTML формате
+ * Схема на шинах в том виде, в каком ее видит расчет: узлы входа и выхода каждого
+ * основного блока, ребра его портов, узлы концов каждой связи и узлы полюсов
+ * схемы (если они есть)
  */
-export function generateReliabilityFormula(
+export function buildSchemeNodes(
   blocks: Block[],
   connections: Connection[],
-): { general: string; withValues: string } {
-  if (blocks.length === 0) {
-    return { general: "G = 0", withValues: "G = 0" };
+  terminals: Terminal[] = [],
+): {
+  blockNodes: Map<string, { from: string; to: string }>;
+  portLinks: Array<{ blockId: string; from: string; to: string }>;
+  connectionNodes: Map<string, { from: string; to: string }>;
+  poles: { source: string; sink: string } | null;
+} {
+  const mainIds = blocks.filter((b) => !b.isReserve).map((b) => b.id);
+  const { blockNodes, portLinks, connectionNodes, poles } = buildBusNetwork(
+    mainIds,
+    buildGraph(blocks, connections),
+    connections,
+    [],
+    terminals,
+  );
+  return { blockNodes, portLinks, connectionNodes, poles };
+}
+
+/**
+ * Пути от входа к выходу системы: для каждого основного блока, не лежащего
+ * ни на одном таком пути, - причина. shorted - вход соединен с выходом напрямую.
+ */
+function analyzeTerminalPaths(
+  blocks: Block[],
+  connections: Connection[],
+  terminals: Terminal[],
+): { reasons: Map<string, string>; shorted: boolean } {
+  const { blockNodes, portLinks, poles } = buildSchemeNodes(
+    blocks,
+    connections,
+    terminals,
+  );
+  const reasons = new Map<string, string>();
+  if (!poles) return { reasons, shorted: false };
+
+  const { source, sink } = poles;
+  const edges = [
+    ...[...blockNodes.values()].filter((e) => e.from !== e.to),
+    ...portLinks,
+  ];
+  const fromSource = reachableNodes(edges, source, true);
+  const toSink = reachableNodes(edges, sink, false);
+
+  blockNodes.forEach(({ from, to }, id) => {
+    if (source === sink) {
+      reasons.set(id, "Вход системы соединен с выходом напрямую");
+    } else if (from === to) {
+      reasons.set(id, "Вход и выход блока замкнуты между собой");
+    } else if (!fromSource.has(from) && !toSink.has(to)) {
+      reasons.set(id, "Блок не связан ни с входом, ни с выходом системы");
+    } else if (!fromSource.has(from)) {
+      reasons.set(id, "Нет пути от входа системы к блоку");
+    } else if (!toSink.has(to)) {
+      reasons.set(id, "Нет пути от блока к выходу системы");
+    }
+  });
+
+  return { reasons, shorted: source === sink };
+}
+
+/**
+ * Неподключенные основные блоки и причина для каждого. Если на схеме есть вход
+ * и выход - это блоки вне путей вход -> выход, иначе - по правилу isBlockConnected.
+ */
+export function findDisconnectedBlocks(
+  blocks: Block[],
+  connections: Connection[],
+  terminals: Terminal[] = [],
+): Map<string, string> {
+  if (resolveTerminals(terminals)) {
+    return analyzeTerminalPaths(blocks, connections, terminals).reasons;
   }
 
-  const mainBlocks = blocks.filter((b) => !b.isReserve);
-  const reserveBlocks = blocks.filter((b) => b.isReserve === true);
+  const reasons = new Map<string, string>();
+  blocks.forEach((b) => {
+    if (!b.isReserve && !isBlockConnected(b.id, blocks, connections, false)) {
+      reasons.set(
+        b.id,
+        "Нет связи с началом схемы (блоком с наименьшим номером)",
+      );
+    }
+  });
+  return reasons;
+}
 
-  if (mainBlocks.length === 0) {
-    return { general: "G = 0", withValues: "G = 0" };
+/**
+ * Строки расчета группы резерва по формуле Бернулли:
+ * label = P(k,n) + ... + P(n,n), и подстановка значений каждого P(k,n)
+ */
+function formatReserveSum(
+  label: FormulaNode,
+  unitIds: string[],
+  reserveResult: ReturnType<typeof calculateSystemWithReserve>,
+  graph: ConnectionGraph,
+): { sum: FormulaNode; steps: FormulaNode[]; total: FormulaNode } {
+  const { minRequired, total, exactKProbabilities } = reserveResult;
+  const decimals = formulaDecimals(graph.precision);
+  const format = (value: Real) => num(formatTo(value, decimals));
+
+  const kValues: number[] = [];
+  for (let k = minRequired; k <= total; k++) {
+    kValues.push(k);
   }
 
-  const graph = buildGraph(blocks, connections);
+  const pk = (k: number) => variable("P", `${k},${total}`);
+  const sumTerms = sum(...kValues.map(pk));
 
-  // Отдельная формула для системы с резервированием: G_np = Σ P(k,n), k=minRequired..n
-  if (reserveBlocks.length > 0) {
-    const mainIds = mainBlocks.map((b) => b.id);
-    const reserveIds = reserveBlocks.map((b) => b.id);
-    const reserveResult = calculateSystemWithReserve(
-      mainIds,
-      reserveIds,
-      graph,
-    );
-    const { minRequired, total, exactKProbabilities } = reserveResult;
+  const probs = unitIds.map((id) => graph.reliabilities.get(id)!);
+  const allEqual = probs.every(
+    (p) => Math.abs(toNumber(p) - toNumber(probs[0])) < 1e-12,
+  );
 
-    const kValues: number[] = [];
-    for (let k = minRequired; k <= total; k++) {
-      kValues.push(k);
+  const steps = kValues.map((k) => {
+    if (allEqual) {
+      const p = probs[0];
+      const q = minus(1, p);
+      // При равных p распределение Пуассона-биномиальное совпадает с Бернулли,
+      // точное значение уже посчитано
+      const value = isRational(p)
+        ? exactKProbabilities[k] ?? 0
+        : bernoulliProbability(total, k, p);
+      return eq(
+        pk(k),
+        product(
+          variable("C", String(total), String(k)),
+          pow(format(p), num(String(k))),
+          pow(format(q), num(String(total - k))),
+        ),
+        format(value),
+      );
     }
+    return eq(pk(k), format(exactKProbabilities[k] ?? 0));
+  });
 
-    const general = `G<sub>np</sub> = ${kValues
-      .map((k) => `P<sub>${k},${total}</sub>`)
-      .join(" + ")}`;
+  const totalLine = eq(
+    label,
+    sumTerms,
+    sum(...kValues.map((k) => format(exactKProbabilities[k] ?? 0))),
+    format(reserveResult.reliability),
+  );
 
-    const probs = [...mainBlocks, ...reserveBlocks].map((b) => b.reliability);
-    const allEqual = probs.every((p) => Math.abs(p - probs[0]) < 1e-12);
+  return { sum: eq(label, sumTerms), steps, total: totalLine };
+}
 
-    if (allEqual) {
-      const p = probs[0];
-      const q = 1 - p;
-      const expandedLines = kValues
-        .map((k) => {
-          const value = bernoulliProbability(total, k, p);
-          return `P<sub>${k},${total}</sub> = C<sub>${total}</sub><sup>${k}</sup> × ${formatTo(p)}<sup>${k}</sup> × ${formatTo(q)}<sup>${total - k}</sup> = ${formatTo(value)}`;
-        })
-        .join("<br/>");
-
-      const sumLine = `G<sub>np</sub> = ${kValues
-        .map((k) => `P<sub>${k},${total}</sub>`)
-        .join(" + ")} = ${kValues
-        .map((k) => formatTo(exactKProbabilities[k] || 0))
-        .join(" + ")} = ${formatTo(reserveResult.reliability)}`;
+/**
+ * Строит вывод формулы для расчета надежности: общая формула, расчет групп резерва,
+ * подстановка значений и примечания о методе
+ */
+export function buildReliabilityDerivation(
+  blocks: Block[],
+  connections: Connection[],
+  reserveGroups: ReserveGroup[] = [],
+  terminals: Terminal[] = [],
+  precision = DEFAULT_PRECISION,
+): ReliabilityDerivation {
+  const zero: ReliabilityDerivation = {
+    general: [eq(variable("G"), num("0"))],
+    reserveSteps: [],
+    withValues: [eq(variable("G"), num("0"))],
+    notes: [],
+  };
 
-      return {
-        general,
-        withValues: `${expandedLines}<br/>${sumLine}`,
-      };
-    }
+  if (blocks.length === 0) {
+    return zero;
+  }
 
-    const lines = kValues
-      .map(
-        (k) =>
-          `P<sub>${k},${total}</sub> = ${formatTo(exactKProbabilities[k] || 0)}`,
-      )
-      .join("<br/>");
+  const graph = buildGraph(blocks, connections, precision);
+  // С входом и выходом на схеме считаются только блоки на путях между ними
+  const system = resolveTerminals(terminals)
+    ? findSystemComponents(blocks, connections, graph, terminals)
+    : null;
 
-    const sumLine = `G<sub>np</sub> = ${kValues
-      .map((k) => `P<sub>${k},${total}</sub>`)
-      .join(" + ")} = ${kValues
-      .map((k) => formatTo(exactKProbabilities[k] || 0))
-      .join(" + ")} = ${formatTo(reserveResult.reliability)}`;
+  if (system?.shorted) {
+    return {
+      general: [eq(variable("G"), num("1"))],
+      reserveSteps: [],
+      withValues: [eq(variable("G"), num("1"))],
+      notes: [text("Вход системы соединен с выходом напрямую")],
+    };
+  }
+
+  const mainBlocks = system
+    ? system.mainBlocks
+    : blocks.filter((b) => !b.isReserve);
+
+  if (mainBlocks.length === 0) {
+    return zero;
+  }
+
+  const groups = resolveReserveGroups(blocks, reserveGroups);
+  const wholeGroupIdx = groups.findIndex(
+    (g) => g.targetBlockIds.length === 0 && g.spareBlockIds.length > 0,
+  );
 
+  // Отдельная формула для резерва всей системы: G_np = Σ P(k,n), k=minRequired..n
+  if (wholeGroupIdx >= 0) {
+    const wholeGroup = groups[wholeGroupIdx];
+    const mainIds = mainBlocks.map((b) => b.id);
+    const reserveResult = calculateSystemWithReserve(
+      mainIds,
+      wholeGroup.spareBlockIds,
+      graph,
+      wholeGroup.required,
+    );
+    const reserve = formatReserveSum(
+      variable("G", "np"),
+      [...mainIds, ...wholeGroup.spareBlockIds],
+      reserveResult,
+      graph,
+    );
+
+    const hasLocalGroups = groups.some((g) => g.targetBlockIds.length > 0);
     return {
-      general,
-      withValues: `${lines}<br/>${sumLine}`,
+      general: [reserve.sum],
+      reserveSteps: reserve.steps,
+      withValues: [reserve.total],
+      notes: hasLocalGroups
+        ? [
+            text(
+              "При резерве всей системы группы резерва отдельных блоков не учитываются",
+            ),
+          ]
+        : [],
     };
   }
 
   const visited = new Set<string>();
-  const components: string[][] = [];
+  const components: string[][] = system ? [...system.components] : [];
 
   function dfs(blockId: string, component: string[]) {
     if (visited.has(blockId)) return;
@@ -904,160 +1808,170 @@ export function generateReliabilityFormula(
     });
   }
 
-  mainBlocks.forEach((block) => {
-    if (!visited.has(block.id)) {
-      const component: string[] = [];
-      dfs(block.id, component);
-      if (component.length > 0) {
-        components.push(component);
+  if (!system) {
+    mainBlocks.forEach((block) => {
+      if (!visited.has(block.id)) {
+        const component: string[] = [];
+        dfs(block.id, component);
+        if (component.length > 0) {
+          components.push(component);
+        }
       }
-    }
-  });
+    });
+  }
 
   // Анализируем все компоненты и собираем общую формулу
   if (components.length > 0) {
-    const componentFormulas = components.map((component) => {
-      const analysis = analyzeComponent(component, graph, connections);
+    const notes: FormulaNode[] = [];
+    const appliedGroups = new Set<string>();
+    let mergedNoted = false;
 
-      if (analysis.mode === "reduced-sp") {
-        return {
-          generalPart: analysis.reducedGeneral || "0",
-          valuesPart: analysis.reducedValues || "0",
-        };
+    const componentFormulas = components.map((component) => {
+      const analysis = analyzeComponent(
+        component,
+        graph,
+        connections,
+        groups,
+        terminals,
+      );
+      analysis.appliedGroups.forEach((id) => appliedGroups.add(id));
+
+      if (analysis.merged && !mergedNoted) {
+        mergedNoted = true;
+        notes.push(
+          text(
+            "У схемы несколько начальных или конечных блоков: их входы считаются общим входом системы, а выходы - общим выходом. Чтобы задать вход и выход явно, поставьте на схему полюса",
+          ),
+        );
       }
 
-      if (analysis.mode === "parallel-paths") {
-        const branchGeneralTerms = analysis.parallelPaths
-          .map((path) => {
-            const seq = path
-              .map((id) => {
-                const block = graph.blocks.get(id)!;
-                return `p<sub>${block.number}</sub>`;
-              })
-              .join(" × ");
-            return `(1 - (${seq}))`;
-          })
-          .join(" × ");
-
-        const branchValueTerms = analysis.parallelPaths
-          .map((path) => {
-            const seq = path
-              .map((id) => {
-                const block = graph.blocks.get(id)!;
-                return `${formatTo(block.reliability)}`;
-              })
-              .join(" × ");
-            return `(1 - (${seq}))`;
-          })
-          .join(" × ");
-
-        return {
-          generalPart: `[1 - ${branchGeneralTerms}]`,
-          valuesPart: `[1 - ${branchValueTerms}]`,
-        };
+      if (analysis.mode === "undetermined") {
+        notes.push(
+          text(
+            "У части схемы нет ни начала, ни конца: все ее блоки замкнуты в контур, поэтому надежность не определена и принята равной 0. Поставьте на схему полюса входа и выхода",
+          ),
+        );
+        return { generalPart: num("0"), valuesPart: num("0") };
       }
 
-      const generalPart = analysis.orderedGroups
-        .map((group) => {
-          if (group.length === 1) {
-            const block = graph.blocks.get(group[0])!;
-            return `p<sub>${block.number}</sub>`;
-          }
+      if (analysis.mode === "factoring" && !analysis.reducedGeneral) {
+        notes.push(
+          text(
+            "Схема не сводится к последовательно-параллельной. Надежность рассчитана точно методом разложения, но формула разложения слишком длинная и не выводится",
+          ),
+        );
+        const value = num(
+          formatTo(analysis.reliability, formulaDecimals(graph.precision)),
+        );
+        return { generalPart: value, valuesPart: value };
+      }
 
-          const parallelTerms = group
-            .map((id) => {
-              const block = graph.blocks.get(id)!;
-              return `(1 - p<sub>${block.number}</sub>)`;
-            })
-            .join(" × ");
-
-          return `[1 - ${parallelTerms}]`;
-        })
-        .join(" × ");
-
-      const valuesPart = analysis.orderedGroups
-        .map((group) => {
-          if (group.length === 1) {
-            const block = graph.blocks.get(group[0])!;
-            return `${formatTo(block.reliability)}`;
-          }
+      if (analysis.mode === "factoring") {
+        const uniquePivots = [
+          ...new Map(analysis.pivots.map((p) => [renderPlain(p), p])).values(),
+        ];
+        const pivotList: FormulaNode[] = [];
+        uniquePivots.forEach((pivot, idx) => {
+          if (idx > 0) pivotList.push(text(", "));
+          pivotList.push(pivot);
+        });
+        notes.push(
+          seq(
+            text(
+              `Схема не сводится к последовательно-параллельной. Применен метод разложения по ${uniquePivots.length === 1 ? "элементу" : "элементам"}: `,
+            ),
+            ...pivotList,
+          ),
+        );
+      }
 
-          const parallelTerms = group
-            .map((id) => {
-              const block = graph.blocks.get(id)!;
-              return `(1 - ${formatTo(block.reliability)})`;
-            })
-            .join(" × ");
+      return {
+        generalPart: analysis.reducedGeneral || num("0"),
+        valuesPart: analysis.reducedValues || num("0"),
+      };
+    });
 
-          return `[1 - ${parallelTerms}]`;
-        })
-        .join(" × ");
+    // Расчет каждой группы резерва: G_р = Σ P(k,n)
+    const groupSums: FormulaNode[] = [];
+    const groupSteps: FormulaNode[] = [];
+    groups.forEach((group, idx) => {
+      if (group.targetBlockIds.length === 0) return;
+      const label = variable("G", reserveGroupLabel(idx));
+
+      if (!appliedGroups.has(group.id)) {
+        notes.push(
+          text(
+            `Группа резерва ${reserveGroupLabel(idx)} не учтена: ее блоки не образуют фрагмент схемы с одним входом и одним выходом`,
+          ),
+        );
+        return;
+      }
 
-      return { generalPart, valuesPart };
+      const result = calculateSystemWithReserve(
+        group.targetBlockIds,
+        group.spareBlockIds,
+        graph,
+        group.required,
+      );
+      const reserve = formatReserveSum(
+        label,
+        [...group.targetBlockIds, ...group.spareBlockIds],
+        result,
+        graph,
+      );
+      groupSums.push(reserve.sum);
+      groupSteps.push(...reserve.steps, reserve.total);
     });
 
+    const general = eq(
+      variable("G"),
+      product(...componentFormulas.map((f) => f.generalPart)),
+    );
+    const withValues = eq(
+      variable("G"),
+      product(...componentFormulas.map((f) => f.valuesPart)),
+    );
+
     return {
-      general: `G = ${componentFormulas.map((f) => f.generalPart).join(" × ")}`,
-      withValues: `G = ${componentFormulas.map((f) => f.valuesPart).join(" × ")}`,
+      general: [general, ...groupSums],
+      reserveSteps: groupSteps,
+      withValues: [withValues],
+      notes,
     };
   }
 
-  return { general: "G = 0", withValues: "G = 0" };
+  return zero;
 }
 
 /**
- * Основная функция расчета надежности системы
+ * Основные подключенные блоки и их компоненты связности.
+ * Компоненты соединены между собой последовательно.
+ * Если на схеме есть вход и выход, все блоки на путях между ними - один компонент.
  */
-export function calculateSystemReliability(
+function findSystemComponents(
   blocks: Block[],
   connections: Connection[],
-): {
-  systemReliability: number;
-  details: {
-    chains: Array<{
-      blocks: string[];
-      reliability: number;
-      reserves: string[];
-      withReserveReliability: number;
-    }>;
-    parallelGroups: Array<{
-      blocks: string[];
-      reliability: number;
-    }>;
-  };
-} {
-  if (blocks.length === 0) {
+  graph: ConnectionGraph,
+  terminals: Terminal[] = [],
+): { mainBlocks: Block[]; components: string[][]; shorted: boolean } {
+  if (resolveTerminals(terminals)) {
+    const paths = analyzeTerminalPaths(blocks, connections, terminals);
+    const onPath = blocks.filter(
+      (b) => !b.isReserve && !paths.reasons.has(b.id),
+    );
     return {
-      systemReliability: 0,
-      details: { chains: [], parallelGroups: [] },
+      mainBlocks: onPath,
+      components: onPath.length > 0 ? [onPath.map((b) => b.id)] : [],
+      shorted: paths.shorted,
     };
   }
 
   // Фильтруем только подключенные блоки (с хотя бы 1 связью, единственные или резервные)
-  const connectedBlocks = blocks.filter((b) =>
-    isBlockConnected(b.id, blocks, connections, b.isReserve || false),
+  // Основные блоки (резервные учитываются через группы резерва)
+  const mainBlocks = blocks.filter(
+    (b) => !b.isReserve && isBlockConnected(b.id, blocks, connections, false),
   );
 
-  if (connectedBlocks.length === 0) {
-    return {
-      systemReliability: 0,
-      details: { chains: [], parallelGroups: [] },
-    };
-  }
-
-  // Разделяем блоки на основные и резервные
-  const reserveBlocks = connectedBlocks.filter((b) => b.isReserve === true);
-  const mainBlocks = connectedBlocks.filter((b) => !b.isReserve);
-
-  if (mainBlocks.length === 0) {
-    return {
-      systemReliability: 0,
-      details: { chains: [], parallelGroups: [] },
-    };
-  }
-
-  const graph = buildGraph(blocks, connections);
-
   // Находим все связанные компоненты среди основных блоков
   // Используем ВСЕ связи (включая параллельные) для определения компонентов
   const visited = new Set<string>();
@@ -1101,31 +2015,99 @@ export function calculateSystemReliability(
     }
   });
 
-  const componentAnalyses = components.map((component) =>
-    analyzeComponent(component, graph, connections),
+  return { mainBlocks, components, shorted: false };
+}
+
+/**
+ * Основная функция расчета надежности системы.
+ * В точном режиме exactReliability - точное значение G дробью,
+ * systemReliability - оно же, округленное до 6 знаков.
+ */
+export function calculateSystemReliability(
+  blocks: Block[],
+  connections: Connection[],
+  reserveGroups: ReserveGroup[] = [],
+  terminals: Terminal[] = [],
+  precision = DEFAULT_PRECISION,
+): {
+  systemReliability: number;
+  exactReliability: Rational | null;
+  details: {
+    chains: Array<{
+      blocks: string[];
+      reliability: number;
+      reserves: string[];
+      withReserveReliability: number;
+    }>;
+  };
+} {
+  // Точное значение G возвращается только в точном режиме
+  const exactOf = (value: Real) => (precision.exact ? toRational(value) : null);
+
+  if (blocks.length === 0) {
+    return {
+      systemReliability: 0,
+      exactReliability: exactOf(0),
+      details: { chains: [] },
+    };
+  }
+
+  const graph = buildGraph(blocks, connections, precision);
+  const { mainBlocks, components, shorted } = findSystemComponents(
+    blocks,
+    connections,
+    graph,
+    terminals,
+  );
+
+  // Вход соединен с выходом без блоков - система работает всегда
+  if (shorted) {
+    return {
+      systemReliability: 1,
+      exactReliability: exactOf(1),
+      details: { chains: [] },
+    };
+  }
+
+  if (mainBlocks.length === 0) {
+    return {
+      systemReliability: 0,
+      exactReliability: exactOf(0),
+      details: { chains: [] },
+    };
+  }
+
+  const groups = resolveReserveGroups(blocks, reserveGroups);
+  const wholeGroup = groups.find(
+    (g) => g.targetBlockIds.length === 0 && g.spareBlockIds.length > 0,
   );
-  const componentReliabilities = componentAnalyses.map(
-    (analysis) => analysis.reliability,
+
+  const componentReliabilities = components.map((component) =>
+    componentReliability(component, graph, connections, groups, terminals),
   );
 
-  // Если есть резервные блоки, применяем формулу Бернулли
-  let systemReliability = 0;
-  if (reserveBlocks.length > 0) {
-    // Берем основную систему (все основные блоки)
+  // Если есть резерв всей системы, применяем формулу Бернулли ко всем основным блокам
+  // (группы резерва отдельных фрагментов уже учтены в анализе компонентов)
+  let systemReliability: Real = 0;
+  if (wholeGroup) {
     const allMainIds = mainBlocks.map((b) => b.id);
-    const allReserveIds = reserveBlocks.map((b) => b.id);
-    const result = calculateSystemWithReserve(allMainIds, allReserveIds, graph);
-    systemReliability = roundTo(result.reliability);
+    const result = calculateSystemWithReserve(
+      allMainIds,
+      wholeGroup.spareBlockIds,
+      graph,
+      wholeGroup.required,
+    );
+    systemReliability = roundReal(result.reliability);
   } else {
     // Без резерва - берем минимальную надежность среди компонентов
     // (система работает только если работают ВСЕ компоненты)
     if (componentReliabilities.length > 0) {
       if (components.length === 1) {
-        systemReliability = roundTo(componentReliabilities[0]);
+        systemReliability = roundReal(componentReliabilities[0]);
       } else {
         // Последовательное соединение компонентов
-        systemReliability = roundTo(
-          componentReliabilities.reduce((acc, r) => acc * r, 1),
+        systemReliability = roundReal(
+          componentReliabilities.reduce<Real>((acc, r) => times(acc, r), 1),
         );
       }
     }
@@ -1134,7 +2116,7 @@ export function calculateSystemReliability(
   // Формируем детали для отображения
   const chainDetails = components.map((component, idx) => {
     const chainReliability = componentReliabilities[idx];
-    const reserves = reserveBlocks.map((b) => b.id);
+    const reserves = wholeGroup ? wholeGroup.spareBlockIds : [];
     const withReserve =
       reserves.length > 0
         ? calculateSystemWithReserve(component, reserves, graph)
@@ -1147,28 +2129,376 @@ export function calculateSystemReliability(
 
     return {
       blocks: component,
-      reliability: roundTo(chainReliability),
+      reliability: roundTo(toNumber(chainReliability)),
       reserves,
-      withReserveReliability: roundTo(withReserve.reliability),
+      withReserveReliability: roundTo(toNumber(withReserve.reliability)),
     };
   });
 
   return {
-    systemReliability: roundTo(systemReliability),
-    details: {
-      chains: chainDetails,
-      parallelGroups: componentAnalyses.flatMap((analysis) =>
-        analysis.mode === "parallel-paths"
-          ? []
-          : analysis.groups
-              .filter((group) => group.length > 1)
-              .map((group) => ({
-                blocks: group,
-                reliability: roundTo(
-                  calculateParallelReliability(group, graph),
-                ),
-              })),
+    systemReliability: roundTo(toNumber(systemReliability)),
+    exactReliability: exactOf(systemReliability),
+    details: { chains: chainDetails },
+  };
+}
+
+/**
+ * Пошаговое решение: та же свертка сети на шинах, что и в расчете, но по одной
+ * замене за шаг. Каждая параллельная или последовательная пара ребер
+ * заменяется эквивалентным блоком Э1, Э2, ..., дальше в формулах участвует
+ * его обозначение. Несводимый остаток сети - один шаг разложения,
+ * последовательные компоненты схемы - последний шаг.
+ * При резерве всей системы свертки нет (расчет по формуле Бернулли) - шагов нет.
+ */
+export function buildReductionSteps(
+  blocks: Block[],
+  connections: Connection[],
+  reserveGroups: ReserveGroup[] = [],
+  terminals: Terminal[] = [],
+): ReductionStep[] {
+  if (blocks.length === 0) return [];
+
+  const graph = buildGraph(blocks, connections);
+  const { mainBlocks, components, shorted } = findSystemComponents(
+    blocks,
+    connections,
+    graph,
+    terminals,
+  );
+  const groups = resolveReserveGroups(blocks, reserveGroups);
+  if (
+    shorted ||
+    mainBlocks.length === 0 ||
+    groups.some(
+      (g) => g.targetBlockIds.length === 0 && g.spareBlockIds.length > 0,
+    )
+  ) {
+    return [];
+  }
+
+  const steps: ReductionStep[] = [];
+  const operands = new Map<SpEdge, ReductionOperand>();
+
+  // Записывает шаг и возвращает ребро, обозначенное эквивалентным блоком
+  const record = (
+    kind: ReductionStep["kind"],
+    parts: SpEdge[],
+    edge: SpEdge,
+  ): SpEdge => {
+    const index = steps.length;
+    const label = variable("Э", String(index + 1));
+    const value = num(formatTo(edge.reliability));
+    const partOperands = parts.map((part) => operands.get(part)!);
+    steps.push({
+      kind,
+      label: `Э${index + 1}`,
+      operands: partOperands,
+      general: eq(label, edge.generalExpr),
+      withValues: eq(label, edge.valueExpr, value),
+      reliability: toNumber(edge.reliability),
+    });
+
+    const replaced = { ...edge, generalExpr: label, valueExpr: value };
+    operands.set(replaced, {
+      blockIds: partOperands.flatMap((o) => o.blockIds),
+      step: index,
+    });
+    return replaced;
+  };
+
+  // Как reduceSeriesParallel, но каждая свертка записывается отдельным шагом
+  const reduceStepwise = (edges: SpEdge[], poles?: Set<string>): SpEdge[] => {
+    let current = edges;
+    for (;;) {
+      const p = reduceParallel(current);
+      if (p.changed) {
+        const before = current;
+        current = p.edges.map((e) =>
+          before.includes(e)
+            ? e
+            : record(
+                "parallel",
+                before.filter((x) => x.from === e.from && x.to === e.to),
+                e,
+              ),
+        );
+        continue;
+      }
+
+      const s = reduceSeries(current, poles);
+      if (!s.changed) return current;
+      const before = current;
+      const created = s.edges.find((e) => !before.includes(e))!;
+      // Сначала ребро, входящее в убранный узел, затем выходящее из него
+      const merged = before.filter((e) => !s.edges.includes(e));
+      const parts =
+        merged[0].from === created.from ? merged : [...merged].reverse();
+      current = s.edges.map((e) =>
+        e === created ? record("series", parts, e) : e,
+      );
+    }
+  };
+
+  const results = components.map((component) => {
+    const network = buildBusNetwork(
+      component,
+      graph,
+      connections,
+      groups,
+      terminals,
+    );
+    network.members.forEach(({ blockIds }, edge) =>
+      operands.set(edge, { blockIds, step: null }),
+    );
+
+    const ends = networkEnds(network);
+    if (!ends) return null;
+    const edges = network.edges.map((e) => {
+      const renamed = { ...e, from: ends.node(e.from), to: ends.node(e.to) };
+      operands.set(renamed, operands.get(e)!);
+      return renamed;
+    });
+
+    const reduced = reduceStepwise(
+      pruneIrrelevantEdges(edges, ends.source, ends.sink),
+      new Set([ends.source, ends.sink]),
+    );
+    if (reduced.length === 1) return reduced[0];
+
+    // Значение - тем же расчетом, что и в calculateSystemReliability;
+    // если формула разложения слишком длинная, в шаге только значение
+    const reliability = factorReliability(reduced, ends.source, ends.sink);
+    const value = num(formatTo(reliability));
+    const exact = factorNetwork(reduced, ends.source, ends.sink, [], {
+      calls: 0,
+    });
+    return record("factoring", reduced, {
+      from: ends.source,
+      to: ends.sink,
+      reliability,
+      generalExpr: exact ? exact.generalExpr : value,
+      valueExpr: exact ? exact.valueExpr : value,
+    });
+  });
+
+  // Компоненты схемы соединены последовательно
+  const parts = results.filter((e): e is SpEdge => e !== null);
+  if (parts.length > 1 && parts.length === results.length) {
+    record("series", parts, {
+      from: parts[0].from,
+      to: parts[parts.length - 1].to,
+      reliability: roundReal(
+        parts.reduce<Real>((acc, e) => times(acc, e.reliability), 1),
       ),
-    },
+      generalExpr: product(...parts.map((e) => e.generalExpr)),
+      valueExpr: product(...parts.map((e) => e.valueExpr)),
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * Ключ исходных данных расчета: схема без положения блоков и полюсов на холсте.
+ * Перетаскивание и раскладка схемы его не меняют, поэтому тяжелые расчеты
+ * (значимость, минимальные наборы, формулы) по нему не повторяются.
+ */
+export function schemeInputKey(
+  blocks: Block[],
+  connections: Connection[],
+  reserveGroups: ReserveGroup[],
+  terminals: Terminal[],
+): string {
+  return JSON.stringify([
+    blocks.map(({ x, y, ...rest }) => rest),
+    connections,
+    reserveGroups,
+    terminals.map(({ x, y, ...rest }) => rest),
+  ]);
+}
+
+/**
+ * Структура схемы в том виде, в каком ее видит расчет: компоненты, сети на шинах
+ * со свернутыми группами резерва и резерв всей системы. Используется для
+ * статистической проверки аналитического результата.
+ */
+export function buildReliabilityNetwork(
+  blocks: Block[],
+  connections: Connection[],
+  reserveGroups: ReserveGroup[] = [],
+  terminals: Terminal[] = [],
+): ReliabilityNetwork {
+  const reliabilities: Record<string, number> = {};
+  blocks.forEach((b) => (reliabilities[b.id] = b.reliability));
+
+  const graph = buildGraph(blocks, connections);
+  const { mainBlocks, components } = findSystemComponents(
+    blocks,
+    connections,
+    graph,
+    terminals,
+  );
+  const groups = resolveReserveGroups(blocks, reserveGroups);
+  const wholeGroup = groups.find(
+    (g) => g.targetBlockIds.length === 0 && g.spareBlockIds.length > 0,
+  );
+
+  return {
+    components: components.map((component) => {
+      const network = buildBusNetwork(
+        component,
+        graph,
+        connections,
+        groups,
+        terminals,
+      );
+      const ends = networkEnds(network);
+      if (!ends) return null;
+
+      const edges: NetworkEdge[] = network.edges.map((e) => ({
+        from: ends.node(e.from),
+        to: ends.node(e.to),
+        ...network.members.get(e)!,
+      }));
+      return { edges, source: ends.source, sink: ends.sink };
+    }),
+    whole:
+      wholeGroup && mainBlocks.length > 0
+        ? {
+            blockIds: [
+              ...mainBlocks.map((b) => b.id),
+              ...wholeGroup.spareBlockIds,
+            ],
+            required: wholeGroup.required,
+          }
+        : null,
+    reliabilities,
   };
 }
+
+/**
+ * Последовательно-параллельная структура схемы для автоматической раскладки:
+ * та же свертка сети на шинах, что и в расчете надежности. Компоненты схемы
+ * без полюсов включены последовательно (по возрастанию номеров блоков).
+ * Резервные и неподключенные блоки в структуру не входят.
+ * null, если в расчете не участвует ни один блок.
+ */
+export function buildSchemeStructure(
+  blocks: Block[],
+  connections: Connection[],
+  reserveGroups: ReserveGroup[] = [],
+  terminals: Terminal[] = [],
+): SchemeStructure | null {
+  const graph = buildGraph(blocks, connections);
+  const { components } = findSystemComponents(
+    blocks,
+    connections,
+    graph,
+    terminals,
+  );
+  const groups = resolveReserveGroups(blocks, reserveGroups);
+  const firstNumber = (component: string[]) =>
+    Math.min(...component.map((id) => graph.blocks.get(id)!.number));
+
+  const parts = [...components]
+    .sort((a, b) => firstNumber(a) - firstNumber(b))
+    .map((component) => {
+      const network = buildBusNetwork(
+        component,
+        graph,
+        connections,
+        groups,
+        terminals,
+      );
+      if (!network.poles) {
+        return structureOf(reduceSeriesParallel(network.edges));
+      }
+
+      const { source, sink } = network.poles;
+      return structureOf(
+        reduceSeriesParallel(
+          pruneIrrelevantEdges(network.edges, source, sink),
+          new Set([source, sink]),
+        ),
+      );
+    })
+    .filter((part): part is SchemeStructure => part !== null);
+
+  if (parts.length === 0) return null;
+  return parts.length === 1 ? parts[0] : { kind: "series", items: parts };
+}
+
+export const DEFAULT_SYSTEM_PARAMETERS: SystemParameters = {
+  useSchemeReliability: true,
+  processorReliability: 0.95,
+  requiredProcessors: 1,
+  maxProcessors: 8,
+  memoryReliability: 0.99,
+  uvvReliability: 0.98,
+  processorCost: 1,
+  memoryCost: 0,
+  uvvCost: 0,
+  costLimit: 0,
+};
+
+/**
+ * Расчет конфигураций вычислительной системы для N = 1..N<sub>max</sub> процессоров:
+ * G<sub>np</sub> = Σ P(k,N), k = m..N (исправны хотя бы m процессоров из N),
+ * E<sub>np</sub> = G<sub>np</sub> / N,
+ * G<sub>вс</sub> = G<sub>np</sub> × P<sub>памяти</sub> × P<sub>УВВ</sub>, E<sub>вс</sub> = G<sub>вс</sub> / N.
+ * Лучшая конфигурация - с максимальной E<sub>вс</sub> среди укладывающихся в ограничение стоимости.
+ */
+export function calculateSystemConfigurations(
+  params: SystemParameters,
+  processorReliability: number,
+): CalculationResults {
+  const p = processorReliability;
+  const m = Math.max(1, Math.floor(params.requiredProcessors));
+  const maxN = Math.max(1, Math.floor(params.maxProcessors));
+
+  const configurations: SystemCalculations[] = [];
+  for (let n = 1; n <= maxN; n++) {
+    let systemReadiness = 0;
+    for (let k = m; k <= n; k++) {
+      systemReadiness += bernoulliProbability(n, k, p);
+    }
+    systemReadiness = roundTo(systemReadiness);
+
+    const computationalSystemReadiness = roundTo(
+      systemReadiness * params.memoryReliability * params.uvvReliability,
+    );
+    const cost = roundTo(
+      n * params.processorCost + params.memoryCost + params.uvvCost,
+    );
+
+    configurations.push({
+      processorCount: n,
+      processorReadiness: roundTo(p),
+      systemReadiness,
+      systemEfficiency: roundTo(systemReadiness / n),
+      memory: roundTo(params.memoryReliability),
+      uvv: roundTo(params.uvvReliability),
+      computationalSystemReadiness,
+      computationalSystemEfficiency: roundTo(computationalSystemReadiness / n),
+      cost,
+      withinCostLimit: params.costLimit <= 0 || cost <= params.costLimit,
+    });
+  }
+
+  // При равной эффективности предпочитаем более готовую конфигурацию
+  const bestConfiguration = configurations
+    .filter((c) => c.withinCostLimit && c.computationalSystemReadiness > 0)
+    .reduce<SystemCalculations | null>((best, c) => {
+      if (!best) return c;
+      if (
+        c.computationalSystemEfficiency > best.computationalSystemEfficiency ||
+        (c.computationalSystemEfficiency === best.computationalSystemEfficiency &&
+          c.computationalSystemReadiness > best.computationalSystemReadiness)
+      ) {
+        return c;
+      }
+      return best;
+    }, null);
+
+  return { configurations, bestConfiguration };
+}
@@ -0,0 +1,97 @@
+import { Block, Connection, ReserveGroup } from "./types";
+
+/**
+ * Скопированная часть схемы: блоки, связи между ними и группы резерва,
+ * целиком лежащие внутри выделения
+ */
+export interface SchemeFragment {
+  blocks: Block[];
+  connections: Connection[];
+  reserveGroups: ReserveGroup[];
+}
+
+// Сдвиг вставленного фрагмента относительно оригинала, клеток
+export const PASTE_OFFSET = 2;
+
+export function copyFragment(
+  scheme: SchemeFragment,
+  blockIds: string[],
+): SchemeFragment {
+  const ids = new Set(blockIds);
+  return {
+    blocks: scheme.blocks.filter((b) => ids.has(b.id)),
+    connections: scheme.connections.filter(
+      (c) => ids.has(c.fromBlockId) && ids.has(c.toBlockId),
+    ),
+    reserveGroups: scheme.reserveGroups.filter(
+      (g) =>
+        g.targetBlockIds.length > 0 &&
+        [...g.targetBlockIds, ...g.spareBlockIds].every((id) => ids.has(id)),
+    ),
+  };
+}
+
+/**
+ * id, которые получат блоки фрагмента при вставке с меткой stamp
+ * (по порядку номеров исходных блоков)
+ */
+export function pastedBlockIds(
+  fragment: SchemeFragment,
+  stamp: number,
+): string[] {
+  return fragment.blocks.map((_, idx) => `block-${stamp}-${idx}`);
+}
+
+/**
+ * Вставляет фрагмент в схему: новые id, номера после последнего блока
+ * (в порядке исходных номеров), связи и группы резерва переносятся на новые блоки.
+ * Резервные блоки без скопированной группы попадают в резерв всей системы.
+ * stamp - основа для новых id.
+ */
+export function pasteFragment<T extends SchemeFragment>(
+  scheme: T,
+  fragment: SchemeFragment,
+  offset: number,
+  stamp: number,
+): T {
+  const maxNumber =
+    scheme.blocks.length > 0
+      ? Math.max(...scheme.blocks.map((b) => b.number))
+      : 0;
+
+  const ids = pastedBlockIds(fragment, stamp);
+  const idMap = new Map<string, string>();
+  const blocks = [...fragment.blocks]
+    .sort((a, b) => a.number - b.number)
+    .map((block, idx) => {
+      idMap.set(block.id, ids[idx]);
+      return {
+        ...block,
+        id: ids[idx],
+        number: maxNumber + idx + 1,
+        x: block.x + offset,
+        y: block.y + offset,
+      };
+    });
+
+  const connections = fragment.connections.map((conn, idx) => ({
+    ...conn,
+    id: `conn-${stamp}-${idx}`,
+    fromBlockId: idMap.get(conn.fromBlockId)!,
+    toBlockId: idMap.get(conn.toBlockId)!,
+  }));
+
+  const reserveGroups = fragment.reserveGroups.map((group, idx) => ({
+    ...group,
+    id: `reserve-${stamp}-${idx}`,
+    targetBlockIds: group.targetBlockIds.map((id) => idMap.get(id)!),
+    spareBlockIds: group.spareBlockIds.map((id) => idMap.get(id)!),
+  }));
+
+  return {
+    ...scheme,
+    blocks: [...scheme.blocks, ...blocks],
+    connections: [...scheme.connections, ...connections],
+    reserveGroups: [...scheme.reserveGroups, ...reserveGroups],
+  };
+}
@@ -0,0 +1,54 @@
+import React from "react";
+import { Diagnostic } from "../types";
+import { SEVERITY_LABELS } from "../validation";
+
+interface DiagnosticsPanelProps {
+  diagnostics: Diagnostic[];
+  activeDiagnosticId: string | null; // Замечание, подсвеченное на холсте
+  onSelectDiagnostic: (id: string | null) => void;
+}
+
+const SEVERITY_ICONS: Record<Diagnostic["severity"], string> = {
+  error: "✖",
+  warning: "▲",
+  info: "●",
+};
+
+/**
+ * Список замечаний проверки схемы. Щелчок по замечанию подсвечивает
+ * затронутые блоки и связи на холсте, повторный - снимает подсветку.
+ */
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({
+  diagnostics,
+  activeDiagnosticId,
+  onSelectDiagnostic,
+}) => {
+  return (
+    <div className="panel-section">
+      <h2>Проверка схемы</h2>
+      {diagnostics.length === 0 ? (
+        <p style={{ color: "#858585", fontSize: "13px" }}>Замечаний нет</p>
+      ) : (
+        <div className="diagnostic-list">
+          {diagnostics.map((d) => (
+            <div
+              key={d.id}
+              className={`diagnostic-item ${d.severity} ${activeDiagnosticId === d.id ? "active" : ""}`}
+              title={SEVERITY_LABELS[d.severity]}
+              onClick={() =>
+                onSelectDiagnostic(activeDiagnosticId === d.id ? null : d.id)
+              }
+            >
+              <span className="diagnostic-icon">
+                {SEVERITY_ICONS[d.severity]}
+              </span>
+              <span>{d.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
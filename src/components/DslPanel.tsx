@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Block, Connection, ReserveGroup, Terminal } from "../types";
+import {
+  DslError,
+  dslToScheme,
+  formatDsl,
+  parseDsl,
+  schemeToDsl,
+  textPosition,
+} from "../dsl";
+import { SchemeView } from "../subsystem";
+
+interface DslPanelProps {
+  blocks: Block[];
+  connections: Connection[];
+  reserveGroups: ReserveGroup[];
+  terminals: Terminal[];
+  onApply: (view: SchemeView) => void;
+  onClose: () => void;
+}
+
+// Текст схемы или причина, по которой ее нельзя записать текстом
+type Generated = { text: string } | { error: string };
+
+const generate = (view: SchemeView): Generated => {
+  try {
+    return {
+      text: formatDsl(
+        schemeToDsl(
+          view.blocks,
+          view.connections,
+          view.reserveGroups,
+          view.terminals,
+        ),
+      ),
+    };
+  } catch (error) {
+    if (error instanceof DslError) return { error: error.message };
+    throw error;
+  }
+};
+
+const sameGenerated = (a: Generated | null, b: Generated) => {
+  if (!a) return false;
+  if ("text" in a && "text" in b) return a.text === b.text;
+  return "error" in a && "error" in b;
+};
+
+/**
+ * Текстовое описание схемы. Текст строится по схеме на холсте и обновляется
+ * вместе с ней. Правки текста применяются к схеме кнопкой "Применить"
+ * (или Ctrl+Enter) одним шагом отмены: промежуточный текст при наборе схему
+ * не меняет, поэтому свойства блоков, которых нет в тексте (модели отказов,
+ * подсистемы, порты), не теряются. Ошибки синтаксиса показываются под полем
+ * ввода сразу, ошибки построения схемы - при применении.
+ */
+const DslPanel: React.FC<DslPanelProps> = ({
+  blocks,
+  connections,
+  reserveGroups,
+  terminals,
+  onApply,
+  onClose,
+}) => {
+  const [text, setText] = useState("");
+  const [generated, setGenerated] = useState<Generated | null>(null);
+  const [error, setError] = useState<DslError | null>(null);
+  // Текст последней построенной или примененной схемы: если схема на холсте
+  // записывается тем же текстом, поле ввода не переписывается
+  const generatedRef = useRef<Generated | null>(null);
+
+  useEffect(() => {
+    const next = generate({ blocks, connections, reserveGroups, terminals });
+    if (sameGenerated(generatedRef.current, next)) return;
+    generatedRef.current = next;
+    setGenerated(next);
+    setText("text" in next ? next.text : "");
+    setError(null);
+  }, [blocks, connections, reserveGroups, terminals]);
+
+  // Текст изменен и еще не применен к схеме
+  const edited =
+    generated !== null && "text" in generated
+      ? text !== generated.text
+      : text.trim() !== "";
+
+  const handleChange = (value: string) => {
+    setText(value);
+    try {
+      parseDsl(value);
+      setError(null);
+    } catch (e) {
+      if (e instanceof DslError) setError(e);
+      else throw e;
+    }
+  };
+
+  const apply = () => {
+    if (!edited || error) return;
+    try {
+      const view = dslToScheme(
+        parseDsl(text),
+        { blocks, connections, reserveGroups, terminals },
+        Date.now(),
+      );
+      const applied = generate(view);
+      generatedRef.current = applied;
+      setGenerated(applied);
+      // Поле ввода показывает примененную схему в обычной записи
+      if ("text" in applied) setText(applied.text);
+      onApply(view);
+    } catch (e) {
+      if (e instanceof DslError) setError(e);
+      else throw e;
+    }
+  };
+
+  const position =
+    error && error.offset !== null ? textPosition(text, error.offset) : null;
+
+  return (
+    <div className="side-panel">
+      <div className="panel-section">
+        <div className="side-panel-header">
+          <h2>Текст схемы</h2>
+          <button className="delete-connection-btn" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        <p style={{ color: "#858585", fontSize: "12px", margin: "0 0 10px" }}>
+          series(...) - последовательно, parallel(...) - параллельно,
+          kofn(k, ...) - хотя бы k из перечисленных блоков. Блок - номер,
+          через двоеточие надежность: series(1: 0.9, parallel(2, 3)).
+        </p>
+
+        {generated && "error" in generated && !error && (
+          <p className="block-warning">
+            Схему нельзя записать текстом: {generated.error}. Новый текст
+            заменит схему целиком.
+          </p>
+        )}
+
+        <div className="property-input">
+          <textarea
+            className={`dsl-editor ${error ? "invalid" : ""}`}
+            value={text}
+            spellCheck={false}
+            onChange={(e) => handleChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+                e.preventDefault();
+                apply();
+              }
+            }}
+          />
+        </div>
+
+        <div className="report-export">
+          <button
+            className="chip"
+            disabled={!edited || error !== null}
+            onClick={apply}
+            title="Перестроить схему по тексту (Ctrl+Enter)"
+          >
+            Применить
+          </button>
+          {edited && (
+            <span style={{ color: "#858585", fontSize: "12px" }}>
+              Текст изменен
+            </span>
+          )}
+        </div>
+
+        {error && (
+          <div className="dsl-error">
+            <span>
+              {position &&
+                `Строка ${position.line}, столбец ${position.column}: `}
+              {error.message}
+            </span>
+            {position && (
+              <pre>
+                {text.split("\n")[position.line - 1]}
+                {"\n"}
+                {" ".repeat(position.column - 1)}^
+              </pre>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DslPanel;
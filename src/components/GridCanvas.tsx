@@ -1,37 +1,167 @@
-import React, { useState, useRef } from "react";
-import { Block, Connection } from "../types";
-import { isBlockConnected } from "../calculations";
+import React, { useState, useRef, useMemo, useEffect } from "react";
+import { Block, Connection, ReserveGroup, Terminal } from "../types";
+import {
+  findDisconnectedBlocks,
+  reserveGroupLabel,
+  resolveReserveGroups,
+} from "../calculations";
+import { ReductionStep } from "../formula";
+import { TERMINAL_LABELS } from "../schemePicture";
+import {
+  BLOCK_SIZE,
+  CELL_SIZE,
+  GridPosition,
+  connectionPathData,
+  outwardPoint,
+  portAnchor,
+} from "../geometry";
+import { RouteMap, routeConnections } from "../routing";
+import { blockPorts, portSide } from "../ports";
+import {
+  DEFAULT_VIEWPORT,
+  Viewport,
+  centerOn,
+  fitRect,
+  schemeBounds,
+  screenToWorld,
+  visibleRect,
+  zoomAt,
+} from "../viewport";
+import Minimap from "./Minimap";
 
 interface GridCanvasProps {
   blocks: Block[];
   connections: Connection[];
-  selectedBlockId: string | null;
-  onSelectBlock: (id: string | null) => void;
-  onUpdateBlock: (id: string, updates: Partial<Block>) => void;
+  reserveGroups: ReserveGroup[];
+  terminals: Terminal[];
+  selectedBlockIds: string[];
+  onSelectBlocks: (ids: string[]) => void;
+  // Сдвиг выделенных блоков на (dx, dy) клеток
+  onMoveBlocks: (
+    ids: string[],
+    dx: number,
+    dy: number,
+    mergeKey?: string,
+  ) => void;
+  onUpdateTerminal: (
+    id: string,
+    updates: Partial<Terminal>,
+    mergeKey?: string,
+  ) => void;
+  onToggleTerminals: () => void; // Добавить или убрать вход и выход системы
+  onArrange: () => void; // Автоматическая раскладка схемы
+  onCollapseSelection: () => void; // Свернуть выделенные блоки в подсистему
+  onOpenSubsystem: (blockId: string) => void;
+  // Названия открытых подсистем от верхнего уровня; пусто - открыта вся схема
+  subsystemPath: string[];
+  onNavigateToLevel: (level: number) => void;
   onAddBlock: () => void;
   onDeleteBlock: () => void;
   onAddConnection: (connection: Connection) => void;
   onDeleteConnection: (id: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  projectName: string;
+  onOpenProject: () => void;
+  onSaveProject: () => void;
+  onSaveProjectAs: () => void;
+  showSystemPanel: boolean;
+  onToggleSystemPanel: () => void;
+  showSweepPanel: boolean;
+  onToggleSweepPanel: () => void;
+  showDslPanel: boolean;
+  onToggleDslPanel: () => void;
+  showRedundancyPanel: boolean;
+  onToggleRedundancyPanel: () => void;
+  importanceHeat: Map<string, number> | null; // Значимость блоков в [0, 1]
+  showImportance: boolean;
+  onToggleImportance: () => void;
+  onExportImage: (showGrid: boolean) => void;
+  // Подсветка элементов выбранного замечания проверки схемы
+  highlight: { blockIds: string[]; connectionIds: string[] } | null;
+  // Пошаговое решение: шаги до position уже выполнены
+  solution: { steps: ReductionStep[]; position: number } | null;
 }
 
-const CELL_SIZE = 40; // размер одной клетки
-const BLOCK_SIZE = 2; // блок занимает 2x2 клетки
+// Эквивалентный блок пошагового решения поверх свернутых блоков
+interface EquivalentBlock {
+  step: number;
+  label: string;
+  reliability: number;
+  left: number; // Рамка в пикселях схемы
+  top: number;
+  width: number;
+  height: number;
+  active: boolean; // Участвует в показанном шаге
+}
+
+// Цвет подсветки значимости: от зеленого (0) к красному (1)
+const heatColor = (value: number) =>
+  `hsl(${Math.round(120 * (1 - value))}, 65%, 38%)`;
 
 interface ConnectionPoint {
-  blockId: string;
+  blockId: string; // id блока или полюса схемы
   side: "left" | "right";
+  port?: string; // Порт блока с несколькими входами или выходами
+}
+
+// Рамка выделения в пикселях схемы
+interface SelectionBand {
+  start: { x: number; y: number };
+  end: { x: number; y: number };
+  additive: boolean; // Shift - добавить к текущему выделению
 }
 
+// Меньшее смещение мыши считается щелчком, а не рамкой
+const BAND_THRESHOLD = 4;
+// Изменение масштаба кнопками и на одно деление колеса
+const ZOOM_STEP = 1.2;
+// Если клетки мельче (в пикселях экрана), сетка рисуется через 5 клеток
+const MIN_GRID_STEP = 8;
+
 const GridCanvas: React.FC<GridCanvasProps> = ({
   blocks,
   connections,
-  selectedBlockId,
-  onSelectBlock,
-  onUpdateBlock,
+  reserveGroups,
+  terminals,
+  selectedBlockIds,
+  onSelectBlocks,
+  onMoveBlocks,
+  onUpdateTerminal,
+  onToggleTerminals,
+  onArrange,
+  onCollapseSelection,
+  onOpenSubsystem,
+  subsystemPath,
+  onNavigateToLevel,
   onAddBlock,
   onDeleteBlock,
   onAddConnection,
   onDeleteConnection,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  projectName,
+  onOpenProject,
+  onSaveProject,
+  onSaveProjectAs,
+  showSystemPanel,
+  onToggleSystemPanel,
+  showSweepPanel,
+  onToggleSweepPanel,
+  showDslPanel,
+  onToggleDslPanel,
+  showRedundancyPanel,
+  onToggleRedundancyPanel,
+  importanceHeat,
+  showImportance,
+  onToggleImportance,
+  onExportImage,
+  highlight,
+  solution,
 }) => {
   const [draggingBlockId, setDraggingBlockId] = useState<string | null>(null);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
@@ -42,7 +172,210 @@ const GridCanvas: React.FC<GridCanvasProps> = ({
     string | null
   >(null);
   const [mousePos, setMousePos] = useState({ x: 0, y: 0 });
+  const [band, setBand] = useState<SelectionBand | null>(null);
+  // Рисовать ли сетку при экспорте схемы в SVG/PNG
+  const [exportGrid, setExportGrid] = useState(false);
   const gridRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<Viewport>(DEFAULT_VIEWPORT);
+  const [viewSize, setViewSize] = useState({ width: 0, height: 0 });
+  // Пробел зажат - левая кнопка мыши двигает холст
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const panRef = useRef<{
+    startX: number;
+    startY: number;
+    view: Viewport;
+  } | null>(null);
+  const [isPanning, setIsPanning] = useState(false);
+  // Подпись группы резерва для резервных блоков (р1, р2, ...)
+  const spareGroupLabels = useMemo(() => {
+    const labels = new Map<string, string>();
+    resolveReserveGroups(blocks, reserveGroups).forEach((group, idx) => {
+      group.spareBlockIds.forEach((id) =>
+        labels.set(id, reserveGroupLabel(idx)),
+      );
+    });
+    return labels;
+  }, [blocks, reserveGroups]);
+  // Неподключенные блоки и причина (подсказка при наведении)
+  const disconnected = useMemo(
+    () => findDisconnectedBlocks(blocks, connections, terminals),
+    [blocks, connections, terminals],
+  );
+  // Пошаговое решение: блоки выполненных шагов скрыты под эквивалентными,
+  // элементы показанного шага подсвечены
+  const solutionView = useMemo(() => {
+    if (!solution) return null;
+    const { steps, position } = solution;
+    const done = steps.slice(0, position);
+    const current = steps[position];
+
+    const consumed = new Set<number>();
+    const hidden = new Set<string>();
+    done.forEach((step) =>
+      step.operands.forEach((operand) => {
+        if (operand.step !== null) consumed.add(operand.step);
+        operand.blockIds.forEach((id) => hidden.add(id));
+      }),
+    );
+    const activeSteps = new Set<number>(
+      current
+        ? current.operands.flatMap((o) => (o.step !== null ? [o.step] : []))
+        : [position - 1],
+    );
+    const activeBlocks = new Set<string>(
+      current
+        ? current.operands.flatMap((o) => (o.step === null ? o.blockIds : []))
+        : [],
+    );
+
+    const blockMap = new Map(blocks.map((b) => [b.id, b]));
+    const equivalents: EquivalentBlock[] = [];
+    done.forEach((step, idx) => {
+      if (consumed.has(idx)) return;
+      const members = step.operands
+        .flatMap((o) => o.blockIds)
+        .map((id) => blockMap.get(id))
+        .filter((b): b is Block => b !== undefined);
+      // Рамка по основным блокам: резервные могут стоять далеко от них
+      const framed = members.some((b) => !b.isReserve)
+        ? members.filter((b) => !b.isReserve)
+        : members;
+      if (framed.length === 0) return;
+      const minX = Math.min(...framed.map((b) => b.x));
+      const minY = Math.min(...framed.map((b) => b.y));
+      const maxX = Math.max(...framed.map((b) => b.x)) + BLOCK_SIZE;
+      const maxY = Math.max(...framed.map((b) => b.y)) + BLOCK_SIZE;
+      equivalents.push({
+        step: idx,
+        label: step.label,
+        reliability: step.reliability,
+        left: minX * CELL_SIZE,
+        top: minY * CELL_SIZE,
+        width: (maxX - minX) * CELL_SIZE,
+        height: (maxY - minY) * CELL_SIZE,
+        active: activeSteps.has(idx),
+      });
+    });
+
+    return { hidden, activeBlocks, equivalents };
+  }, [solution, blocks]);
+  // Положение на сетке блоков и полюсов схемы - концов связей
+  const nodeMap = useMemo(
+    () =>
+      new Map<string, Block | Terminal>([
+        ...blocks.map((b) => [b.id, b] as const),
+        ...terminals.map((t) => [t.id, t] as const),
+      ]),
+    [blocks, terminals],
+  );
+  // Трассы связей. Пока блок перетаскивают, перестраиваются только
+  // задетые трассы; после отпускания схема трассируется заново целиком.
+  const routesRef = useRef<RouteMap>(new Map());
+  const routes = useMemo(() => {
+    const next = routeConnections(
+      connections,
+      nodeMap,
+      draggingBlockId ? routesRef.current : undefined,
+    );
+    routesRef.current = next;
+    return next;
+  }, [connections, nodeMap, draggingBlockId]);
+
+  // Ключ текущего перетаскивания: все шаги одного drag - одна запись истории
+  const dragSessionRef = useRef("");
+  // Блоки, которые двигаются вместе с перетаскиваемым
+  const dragGroupRef = useRef<string[]>([]);
+  // Щелчок, завершающий рамку выделения, не должен сбрасывать выделение
+  const suppressClickRef = useRef(false);
+
+  // Положение мыши в пикселях схемы с учетом сдвига и масштаба холста
+  const canvasPosition = (e: { clientX: number; clientY: number }) => {
+    const rect = gridRef.current!.getBoundingClientRect();
+    return screenToWorld(view, e.clientX - rect.left, e.clientY - rect.top);
+  };
+
+  // Размер видимой области холста
+  useEffect(() => {
+    const element = gridRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() =>
+      setViewSize({ width: element.clientWidth, height: element.clientHeight }),
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Масштаб колесом мыши вокруг курсора. Обработчик не пассивный,
+  // чтобы отменить прокрутку страницы.
+  useEffect(() => {
+    const element = gridRef.current;
+    if (!element) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = element.getBoundingClientRect();
+      const factor = Math.pow(ZOOM_STEP, -e.deltaY / 100);
+      setView((v) =>
+        zoomAt(v, factor, e.clientX - rect.left, e.clientY - rect.top),
+      );
+    };
+    element.addEventListener("wheel", handleWheel, { passive: false });
+    return () => element.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  // Пробел включает режим перемещения холста. Над полями ввода и элементами
+  // управления пробел работает как обычно (нажимает кнопку, ставит флажок)
+  useEffect(() => {
+    const isControl = (e: KeyboardEvent) =>
+      e.target instanceof Element &&
+      e.target.closest(
+        "input, textarea, select, button, a[href], [contenteditable]",
+      ) !== null;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || isControl(e)) return;
+      e.preventDefault();
+      setSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== "Space") return;
+      if (!isControl(e)) e.preventDefault();
+      setSpaceHeld(false);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+    };
+  }, []);
+
+  // Средняя кнопка или левая с зажатым пробелом двигают холст,
+  // даже если нажаты над блоком
+  const handlePanStart = (e: React.MouseEvent) => {
+    if (e.button !== 1 && !(e.button === 0 && spaceHeld)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    panRef.current = { startX: e.clientX, startY: e.clientY, view };
+    setIsPanning(true);
+  };
+
+  const zoomAtCenter = (factor: number) =>
+    setView((v) => zoomAt(v, factor, viewSize.width / 2, viewSize.height / 2));
+
+  const zoomToFit = () => {
+    const bounds = schemeBounds(blocks, terminals);
+    setView(
+      bounds
+        ? fitRect(bounds, viewSize.width, viewSize.height)
+        : DEFAULT_VIEWPORT,
+    );
+  };
+
+  // При переходе в подсистему и обратно холст показывает схему уровня целиком
+  useEffect(() => {
+    if (viewSize.width > 0) zoomToFit();
+  }, [subsystemPath.length]);
+
+  const visible = visibleRect(view, viewSize.width, viewSize.height);
 
   const handleMouseDown = (e: React.MouseEvent, blockId: string) => {
     // Проверяем, не клик ли по точке соединения
@@ -52,52 +385,132 @@ const GridCanvas: React.FC<GridCanvasProps> = ({
     }
 
     e.stopPropagation();
-    onSelectBlock(blockId);
+    // Полюс схемы только перетаскивается, свойств для редактирования у него нет
+    if (!terminals.some((t) => t.id === blockId)) {
+      const isSelected = selectedBlockIds.includes(blockId);
+      // Shift-щелчок добавляет блок к выделению или убирает из него
+      if (e.shiftKey) {
+        onSelectBlocks(
+          isSelected
+            ? selectedBlockIds.filter((id) => id !== blockId)
+            : [...selectedBlockIds, blockId],
+        );
+        return;
+      }
+      // Блок из выделения тащит за собой всю группу
+      dragGroupRef.current = isSelected ? selectedBlockIds : [blockId];
+      if (!isSelected) onSelectBlocks([blockId]);
+    }
     setDraggingBlockId(blockId);
+    dragSessionRef.current = `move:${blockId}:${Date.now()}`;
 
-    const block = blocks.find((b) => b.id === blockId);
+    const block = nodeMap.get(blockId);
     if (block && gridRef.current) {
-      const rect = gridRef.current.getBoundingClientRect();
-      const blockPixelX = block.x * CELL_SIZE;
-      const blockPixelY = block.y * CELL_SIZE;
-      const mouseX = e.clientX - rect.left;
-      const mouseY = e.clientY - rect.top;
-
+      const mouse = canvasPosition(e);
       setDragOffset({
-        x: mouseX - blockPixelX,
-        y: mouseY - blockPixelY,
+        x: mouse.x - block.x * CELL_SIZE,
+        y: mouse.y - block.y * CELL_SIZE,
       });
     }
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
+    const pan = panRef.current;
+    if (pan) {
+      setView({
+        ...pan.view,
+        x: pan.view.x + e.clientX - pan.startX,
+        y: pan.view.y + e.clientY - pan.startY,
+      });
+      return;
+    }
+
     if (gridRef.current) {
-      const rect = gridRef.current.getBoundingClientRect();
-      const mouseX = e.clientX - rect.left;
-      const mouseY = e.clientY - rect.top;
-      setMousePos({ x: mouseX, y: mouseY });
+      const position = canvasPosition(e);
+      setMousePos(position);
+      if (band) setBand({ ...band, end: position });
     }
 
     if (draggingBlockId && gridRef.current) {
-      const rect = gridRef.current.getBoundingClientRect();
-      const mouseX = e.clientX - rect.left - dragOffset.x;
-      const mouseY = e.clientY - rect.top - dragOffset.y;
+      const mouse = canvasPosition(e);
 
       // Привязка к сетке
-      const gridX = Math.max(0, Math.round(mouseX / CELL_SIZE));
-      const gridY = Math.max(0, Math.round(mouseY / CELL_SIZE));
+      const gridX = Math.round((mouse.x - dragOffset.x) / CELL_SIZE);
+      const gridY = Math.round((mouse.y - dragOffset.y) / CELL_SIZE);
+
+      const block = nodeMap.get(draggingBlockId);
+      if (!block || (block.x === gridX && block.y === gridY)) return;
 
-      onUpdateBlock(draggingBlockId, { x: gridX, y: gridY });
+      if (terminals.some((t) => t.id === draggingBlockId)) {
+        onUpdateTerminal(
+          draggingBlockId,
+          { x: gridX, y: gridY },
+          dragSessionRef.current,
+        );
+        return;
+      }
+
+      // Группа сдвигается целиком
+      onMoveBlocks(
+        dragGroupRef.current,
+        gridX - block.x,
+        gridY - block.y,
+        dragSessionRef.current,
+      );
     }
   };
 
+  // Рамка выделения начинается с нажатия на пустом месте холста
+  const handleCanvasMouseDown = (e: React.MouseEvent) => {
+    if (e.target !== e.currentTarget || connectingFrom) return;
+    const position = canvasPosition(e);
+    setBand({ start: position, end: position, additive: e.shiftKey });
+  };
+
   const handleMouseUp = () => {
+    panRef.current = null;
+    setIsPanning(false);
     setDraggingBlockId(null);
+    if (!band) return;
+    setBand(null);
+
+    const left = Math.min(band.start.x, band.end.x);
+    const right = Math.max(band.start.x, band.end.x);
+    const top = Math.min(band.start.y, band.end.y);
+    const bottom = Math.max(band.start.y, band.end.y);
+    // Порог в пикселях экрана, а не схемы
+    const threshold = BAND_THRESHOLD / view.zoom;
+    if (right - left < threshold && bottom - top < threshold) return;
+
+    // Выделяются блоки, которые задевает рамка
+    const size = BLOCK_SIZE * CELL_SIZE;
+    const inside = blocks
+      .filter(
+        (b) =>
+          b.x * CELL_SIZE < right &&
+          b.x * CELL_SIZE + size > left &&
+          b.y * CELL_SIZE < bottom &&
+          b.y * CELL_SIZE + size > top,
+      )
+      .map((b) => b.id);
+    onSelectBlocks(
+      band.additive
+        ? [
+            ...selectedBlockIds,
+            ...inside.filter((id) => !selectedBlockIds.includes(id)),
+          ]
+        : inside,
+    );
+    suppressClickRef.current = true;
   };
 
   const handleCanvasClick = (e: React.MouseEvent) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
     if (e.target === e.currentTarget) {
-      onSelectBlock(null);
+      onSelectBlocks([]);
       setSelectedConnectionId(null);
       // Сброс создания связи при клике в пустое место
       if (connectingFrom) {
@@ -110,12 +523,13 @@ const GridCanvas: React.FC<GridCanvasProps> = ({
     e: React.MouseEvent,
     blockId: string,
     side: "left" | "right",
+    port?: string,
   ) => {
     e.stopPropagation();
 
     if (!connectingFrom) {
       // Начинаем создание связи
-      setConnectingFrom({ blockId, side });
+      setConnectingFrom({ blockId, side, port });
     } else {
       // Проверяем, не та же ли это точка или точка того же блока
       if (connectingFrom.blockId === blockId) {
@@ -130,11 +544,15 @@ const GridCanvas: React.FC<GridCanvasProps> = ({
           (conn.fromBlockId === connectingFrom.blockId &&
             conn.toBlockId === blockId &&
             conn.fromSide === connectingFrom.side &&
-            conn.toSide === side) ||
+            conn.toSide === side &&
+            conn.fromPort === connectingFrom.port &&
+            conn.toPort === port) ||
           (conn.fromBlockId === blockId &&
             conn.toBlockId === connectingFrom.blockId &&
             conn.fromSide === side &&
-            conn.toSide === connectingFrom.side),
+            conn.toSide === connectingFrom.side &&
+            conn.fromPort === port &&
+            conn.toPort === connectingFrom.port),
       );
 
       if (existingConnection) {
@@ -149,6 +567,8 @@ const GridCanvas: React.FC<GridCanvasProps> = ({
         toBlockId: blockId,
         fromSide: connectingFrom.side,
         toSide: side,
+        ...(connectingFrom.port && { fromPort: connectingFrom.port }),
+        ...(port && { toPort: port }),
       };
 
       onAddConnection(newConnection);
@@ -158,27 +578,19 @@ const GridCanvas: React.FC<GridCanvasProps> = ({
 
   // Функция для отрисовки линии между точками
   const renderConnection = (conn: Connection) => {
-    const fromBlock = blocks.find((b) => b.id === conn.fromBlockId);
-    const toBlock = blocks.find((b) => b.id === conn.toBlockId);
-
-    if (!fromBlock || !toBlock) return null;
-
-    // Вычисляем координаты на границах блоков (не точек)
-    const fromEdgeX = getBlockEdgeX(fromBlock, conn.fromSide);
-    const fromEdgeY = getConnectionPointY(fromBlock);
-    const toEdgeX = getBlockEdgeX(toBlock, conn.toSide);
-    const toEdgeY = getConnectionPointY(toBlock);
-
-    // Отступ 1 клетка в сторону от границы блока
-    const fromOffsetX =
-      conn.fromSide === "left" ? fromEdgeX - CELL_SIZE : fromEdgeX + CELL_SIZE;
-    const toOffsetX =
-      conn.toSide === "left" ? toEdgeX - CELL_SIZE : toEdgeX + CELL_SIZE;
+    const route = routes.get(conn.id);
+    if (!route) return null;
 
-    // Ломаная линия: от границы блока -> 1 клетка в бок -> вертикально -> 1 клетка в бок -> до границы блока
-    const pathData = `M ${fromEdgeX} ${fromEdgeY} L ${fromOffsetX} ${fromEdgeY} L ${fromOffsetX} ${toEdgeY} L ${toOffsetX} ${toEdgeY} L ${toEdgeX} ${toEdgeY}`;
+    // Трасса между границами блоков (не точек)
+    const pathData = connectionPathData(route.points);
 
     const isSelected = selectedConnectionId === conn.id;
+    const isHighlighted = highlight?.connectionIds.includes(conn.id) ?? false;
+    // Связь свернутого блока уходит под эквивалентный блок
+    const isReduced =
+      solutionView !== null &&
+      (solutionView.hidden.has(conn.fromBlockId) ||
+        solutionView.hidden.has(conn.toBlockId));
 
     return (
       <g key={conn.id}>
@@ -197,8 +609,10 @@ const GridCanvas: React.FC<GridCanvasProps> = ({
         {/* Видимая линия */}
         <path
           d={pathData}
-          stroke={isSelected ? "#ffa500" : "#4ec9b0"}
-          strokeWidth={isSelected ? 3 : 2}
+          stroke={isSelected || isHighlighted ? "#ffa500" : "#4ec9b0"}
+          strokeWidth={isSelected || isHighlighted ? 3 : 2}
+          strokeDasharray={isHighlighted && !isSelected ? "6,4" : undefined}
+          opacity={isReduced ? 0.25 : 1}
           fill="none"
           style={{ pointerEvents: "none" }}
         />
@@ -214,16 +628,21 @@ const GridCanvas: React.FC<GridCanvasProps> = ({
   const renderTemporaryConnection = () => {
     if (!connectingFrom) return null;
 
-    const fromBlock = blocks.find((b) => b.id === connectingFrom.blockId);
+    const fromBlock = nodeMap.get(connectingFrom.blockId);
     if (!fromBlock) return null;
 
-    const fromEdgeX = getBlockEdgeX(fromBlock, connectingFrom.side);
-    const fromEdgeY = getConnectionPointY(fromBlock);
-    const fromOffsetX =
-      connectingFrom.side === "left"
-        ? fromEdgeX - CELL_SIZE
-        : fromEdgeX + CELL_SIZE;
-    const pathData = `M ${fromEdgeX} ${fromEdgeY} L ${fromOffsetX} ${fromEdgeY} L ${fromOffsetX} ${mousePos.y} L ${mousePos.x} ${mousePos.y}`;
+    const anchor = portAnchor(
+      fromBlock,
+      connectingFrom.side,
+      connectingFrom.port,
+    );
+    const offset = outwardPoint(anchor);
+    // От порта наружу, затем поперек стороны блока до уровня курсора
+    const corner =
+      anchor.placement === "left" || anchor.placement === "right"
+        ? { x: offset.x, y: mousePos.y }
+        : { x: mousePos.x, y: offset.y };
+    const pathData = connectionPathData([anchor, offset, corner, mousePos]);
 
     return (
       <path
@@ -237,63 +656,47 @@ const GridCanvas: React.FC<GridCanvasProps> = ({
     );
   };
 
-  // Получить X координату точки соединения (для отображения точки)
-  const getConnectionPointX = (block: Block, side: "left" | "right") => {
-    if (side === "left") {
-      // Левая точка: минимум 1 клетка от границы блока
-      return (block.x - 1) * CELL_SIZE;
-    } else {
-      // Правая точка: минимум 1 клетка от границы блока
-      return (block.x + BLOCK_SIZE + 1) * CELL_SIZE;
-    }
-  };
-
-  // Получить X координату границы блока (для линий)
-  const getBlockEdgeX = (block: Block, side: "left" | "right") => {
-    if (side === "left") {
-      // Левая граница блока
-      return block.x * CELL_SIZE;
-    } else {
-      // Правая граница блока
-      return (block.x + BLOCK_SIZE) * CELL_SIZE;
-    }
-  };
-
-  // Получить Y координату точки соединения (вертикальный центр блока)
-  const getConnectionPointY = (block: Block) => {
-    return (block.y + BLOCK_SIZE / 2) * CELL_SIZE;
-  };
+  // Точка соединения порта: 1 клетка наружу от границы блока
+  const getConnectionPoint = (
+    node: GridPosition,
+    side: "left" | "right",
+    portId?: string,
+  ) => outwardPoint(portAnchor(node, side, portId));
 
-  // Рендерим сетку линий
+  // Рендерим сетку линий: только в видимой части холста
   const renderGrid = () => {
     const lines = [];
-    const gridWidth = 1200;
-    const gridHeight = 800;
+    const step =
+      CELL_SIZE * view.zoom < MIN_GRID_STEP ? CELL_SIZE * 5 : CELL_SIZE;
+    const left = Math.floor(visible.x / step) * step;
+    const top = Math.floor(visible.y / step) * step;
+    const right = visible.x + visible.width;
+    const bottom = visible.y + visible.height;
 
-    for (let x = 0; x <= gridWidth; x += CELL_SIZE) {
+    for (let x = left; x <= right; x += step) {
       lines.push(
         <line
           key={`v${x}`}
           x1={x}
-          y1={0}
+          y1={visible.y}
           x2={x}
-          y2={gridHeight}
+          y2={bottom}
           stroke="#3e3e42"
-          strokeWidth={1}
+          strokeWidth={1 / view.zoom}
         />,
       );
     }
 
-    for (let y = 0; y <= gridHeight; y += CELL_SIZE) {
+    for (let y = top; y <= bottom; y += step) {
       lines.push(
         <line
           key={`h${y}`}
-          x1={0}
+          x1={visible.x}
           y1={y}
-          x2={gridWidth}
+          x2={right}
           y2={y}
           stroke="#3e3e42"
-          strokeWidth={1}
+          strokeWidth={1 / view.zoom}
         />,
       );
     }
@@ -304,8 +707,67 @@ const GridCanvas: React.FC<GridCanvasProps> = ({
   return (
     <div className="canvas-container">
       <div className="canvas-toolbar">
+        <button onClick={onOpenProject} title="Ctrl+O">
+          Открыть
+        </button>
+        <button onClick={onSaveProject} title="Ctrl+S">
+          Сохранить
+        </button>
+        <button onClick={onSaveProjectAs} title="Ctrl+Shift+S">
+          Сохранить как
+        </button>
+        <button
+          onClick={() => onExportImage(exportGrid)}
+          title="Сохранить рисунок схемы в SVG или PNG"
+        >
+          Экспорт схемы
+        </button>
+        <label className="toolbar-checkbox">
+          <input
+            type="checkbox"
+            checked={exportGrid}
+            onChange={(e) => setExportGrid(e.target.checked)}
+          />
+          сетка
+        </label>
+        <span className="project-name">{projectName}</span>
+        <button onClick={onUndo} disabled={!canUndo} title="Ctrl+Z">
+          Отменить
+        </button>
+        <button onClick={onRedo} disabled={!canRedo} title="Ctrl+Shift+Z">
+          Повторить
+        </button>
         <button onClick={onAddBlock}>Добавить блок (A)</button>
-        <button onClick={onDeleteBlock} disabled={!selectedBlockId}>
+        <button
+          className={terminals.length > 0 ? "active" : ""}
+          onClick={onToggleTerminals}
+          title={
+            terminals.length > 0
+              ? "Убрать вход и выход системы вместе с их связями"
+              : "Добавить вход и выход системы: надежность - вероятность связи входа с выходом"
+          }
+        >
+          Вход/выход
+        </button>
+        <button
+          onClick={onArrange}
+          disabled={blocks.length === 0}
+          title="Расставить блоки по структуре схемы: последовательные - слева направо, параллельные - друг под другом"
+        >
+          Упорядочить
+        </button>
+        <button
+          onClick={onCollapseSelection}
+          disabled={selectedBlockIds.length === 0}
+          title="Свернуть выделенные блоки в составной блок (Ctrl+G). Двойной щелчок по составному блоку открывает его схему"
+        >
+          Подсистема
+        </button>
+        <button
+          onClick={onDeleteBlock}
+          disabled={selectedBlockIds.length === 0}
+          title="Удалить выделенные блоки. Ctrl+C/Ctrl+V - копирование, Ctrl+D - дублирование"
+        >
           Удалить блок (Delete)
         </button>
         <button
@@ -320,86 +782,270 @@ const GridCanvas: React.FC<GridCanvasProps> = ({
         >
           Удалить связь
         </button>
+        <button
+          className={showImportance ? "active" : ""}
+          onClick={onToggleImportance}
+          title="Подсветка блоков по значимости"
+        >
+          Значимость
+        </button>
+        <button
+          className={showSweepPanel ? "active" : ""}
+          onClick={onToggleSweepPanel}
+          title="Надежность системы при изменении надежности блоков: график и тепловая карта"
+        >
+          Чувствительность
+        </button>
+        <button
+          className={showDslPanel ? "active" : ""}
+          onClick={onToggleDslPanel}
+          title="Описание схемы текстом: series, parallel, kofn"
+        >
+          Текст схемы
+        </button>
+        <button
+          className={showRedundancyPanel ? "active" : ""}
+          onClick={onToggleRedundancyPanel}
+          title="Подобрать число параллельных копий блоков по стоимости и весу"
+        >
+          Оптимизация резерва
+        </button>
+        <button
+          className={showSystemPanel ? "active" : ""}
+          onClick={onToggleSystemPanel}
+        >
+          Вычислительная система
+        </button>
       </div>
+      {subsystemPath.length > 0 && (
+        <div className="subsystem-breadcrumbs">
+          {["Схема", ...subsystemPath].map((name, level) => (
+            <React.Fragment key={level}>
+              {level > 0 && <span className="breadcrumb-separator">›</span>}
+              <button
+                className="breadcrumb"
+                disabled={level === subsystemPath.length}
+                onClick={() => onNavigateToLevel(level)}
+              >
+                {name}
+              </button>
+            </React.Fragment>
+          ))}
+        </div>
+      )}
       <div
         ref={gridRef}
-        className="grid-canvas"
+        className={`grid-canvas ${spaceHeld || isPanning ? "panning" : ""}`}
+        onMouseDownCapture={handlePanStart}
+        onMouseDown={handleCanvasMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
         onClick={handleCanvasClick}
       >
-        <svg
-          width="1200"
-          height="800"
+        <div
+          className="grid-world"
           style={{
-            position: "absolute",
-            top: 0,
-            left: 0,
-            pointerEvents: "none",
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
           }}
         >
-          {renderGrid()}
-          {connections.map((conn) => renderConnection(conn))}
-          {renderTemporaryConnection()}
-        </svg>
-        {blocks.map((block) => {
-          const pixelX = block.x * CELL_SIZE;
-          const pixelY = block.y * CELL_SIZE;
-          const pixelSize = BLOCK_SIZE * CELL_SIZE;
-
-          const leftPointX = getConnectionPointX(block, "left");
-          const leftPointY = getConnectionPointY(block);
-          const rightPointX = getConnectionPointX(block, "right");
-          const rightPointY = getConnectionPointY(block);
-
-          const isConnected = isBlockConnected(
-            block.id,
-            blocks,
-            connections,
-            block.isReserve || false,
-          );
-          const blockClass = `grid-block ${selectedBlockId === block.id ? "selected" : ""} ${block.isReserve ? "reserve" : ""} ${!isConnected ? "disconnected" : ""}`;
-
-          return (
-            <div key={block.id}>
-              <div
-                className={blockClass}
-                style={{
-                  left: `${pixelX}px`,
-                  top: `${pixelY}px`,
-                  width: `${pixelSize}px`,
-                  height: `${pixelSize}px`,
-                }}
-                onMouseDown={(e) => handleMouseDown(e, block.id)}
-              >
-                <div className="block-number">#{block.number}</div>
-                <div className="block-reliability">
-                  {formatReliability(block.reliability)}
+          <svg
+            width={visible.width}
+            height={visible.height}
+            viewBox={`${visible.x} ${visible.y} ${visible.width} ${visible.height}`}
+            style={{
+              position: "absolute",
+              left: visible.x,
+              top: visible.y,
+              pointerEvents: "none",
+            }}
+          >
+            {renderGrid()}
+            {connections.map((conn) => renderConnection(conn))}
+            {renderTemporaryConnection()}
+          </svg>
+          {blocks.map((block) => {
+            if (solutionView?.hidden.has(block.id)) return null;
+            const pixelX = block.x * CELL_SIZE;
+            const pixelY = block.y * CELL_SIZE;
+            const pixelSize = BLOCK_SIZE * CELL_SIZE;
+
+            const isConnected = !disconnected.has(block.id);
+            const isHighlighted =
+              (highlight?.blockIds.includes(block.id) ?? false) ||
+              (solutionView?.activeBlocks.has(block.id) ?? false);
+            const blockClass = `grid-block ${selectedBlockIds.includes(block.id) ? "selected" : ""} ${block.isReserve ? "reserve" : ""} ${block.subsystem ? "composite" : ""} ${!isConnected ? "disconnected" : ""} ${isHighlighted ? "highlighted" : ""}`;
+
+            return (
+              <div key={block.id}>
+                <div
+                  className={blockClass}
+                  style={{
+                    left: `${pixelX}px`,
+                    top: `${pixelY}px`,
+                    width: `${pixelSize}px`,
+                    height: `${pixelSize}px`,
+                    ...(importanceHeat?.has(block.id) && {
+                      backgroundColor: heatColor(importanceHeat.get(block.id)!),
+                    }),
+                  }}
+                  onMouseDown={(e) => handleMouseDown(e, block.id)}
+                  onDoubleClick={() =>
+                    block.subsystem && onOpenSubsystem(block.id)
+                  }
+                  title={
+                    disconnected.get(block.id) ??
+                    (block.subsystem
+                      ? `${block.subsystem.name}: двойной щелчок - открыть схему`
+                      : undefined)
+                  }
+                >
+                  {spareGroupLabels.has(block.id) && (
+                    <div className="mode-badge">
+                      {spareGroupLabels.get(block.id)}
+                    </div>
+                  )}
+                  <div className="block-number">#{block.number}</div>
+                  <div className="block-reliability">
+                    {formatReliability(block.reliability)}
+                  </div>
+                  {block.subsystem && (
+                    <div className="subsystem-name">{block.subsystem.name}</div>
+                  )}
                 </div>
+                {/* Точки соединения: у обычного блока вход слева и выход справа */}
+                {blockPorts(block).map((port) => {
+                  const side = portSide(port.kind);
+                  const portId = block.ports ? port.id : undefined;
+                  const point = getConnectionPoint(block, side, portId);
+                  const isActive =
+                    connectingFrom?.blockId === block.id &&
+                    connectingFrom.side === side &&
+                    connectingFrom.port === portId;
+                  return (
+                    <React.Fragment key={port.id}>
+                      <div
+                        className={`connection-point ${isActive ? "active" : ""}`}
+                        style={{
+                          left: `${point.x - 6}px`,
+                          top: `${point.y - 6}px`,
+                        }}
+                        title={port.name || undefined}
+                        onClick={(e) =>
+                          handleConnectionPointClick(e, block.id, side, portId)
+                        }
+                      />
+                      {port.name && (
+                        <div
+                          className={`port-label ${port.placement}`}
+                          style={{ left: `${point.x}px`, top: `${point.y}px` }}
+                        >
+                          {port.name}
+                        </div>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </div>
+            );
+          })}
+          {solutionView?.equivalents.map((equivalent) => (
+            <div
+              key={`equivalent-${equivalent.step}`}
+              className={`grid-block equivalent ${equivalent.active ? "highlighted" : ""}`}
+              style={{
+                left: `${equivalent.left}px`,
+                top: `${equivalent.top}px`,
+                width: `${equivalent.width}px`,
+                height: `${equivalent.height}px`,
+              }}
+            >
+              <div className="block-number">{equivalent.label}</div>
+              <div className="block-reliability">
+                {formatReliability(equivalent.reliability)}
               </div>
-              {/* Левая точка соединения */}
-              <div
-                className={`connection-point ${connectingFrom?.blockId === block.id && connectingFrom?.side === "left" ? "active" : ""}`}
-                style={{
-                  left: `${leftPointX - 6}px`,
-                  top: `${leftPointY - 6}px`,
-                }}
-                onClick={(e) => handleConnectionPointClick(e, block.id, "left")}
-              />
-              {/* Правая точка соединения */}
-              <div
-                className={`connection-point ${connectingFrom?.blockId === block.id && connectingFrom?.side === "right" ? "active" : ""}`}
-                style={{
-                  left: `${rightPointX - 6}px`,
-                  top: `${rightPointY - 6}px`,
-                }}
-                onClick={(e) =>
-                  handleConnectionPointClick(e, block.id, "right")
-                }
-              />
             </div>
-          );
-        })}
+          ))}
+          {terminals.map((terminal) => {
+            // У входа системы только выход (правая точка), у выхода - только вход
+            const side = terminal.kind === "input" ? "right" : "left";
+            return (
+              <div key={terminal.id}>
+                <div
+                  className="grid-terminal"
+                  style={{
+                    left: `${terminal.x * CELL_SIZE}px`,
+                    top: `${terminal.y * CELL_SIZE}px`,
+                    width: `${BLOCK_SIZE * CELL_SIZE}px`,
+                    height: `${BLOCK_SIZE * CELL_SIZE}px`,
+                  }}
+                  onMouseDown={(e) => handleMouseDown(e, terminal.id)}
+                >
+                  {TERMINAL_LABELS[terminal.kind]}
+                </div>
+                <div
+                  className={`connection-point ${connectingFrom?.blockId === terminal.id ? "active" : ""}`}
+                  style={{
+                    left: `${getConnectionPoint(terminal, side).x - 6}px`,
+                    top: `${getConnectionPoint(terminal, side).y - 6}px`,
+                  }}
+                  onClick={(e) =>
+                    handleConnectionPointClick(e, terminal.id, side)
+                  }
+                />
+              </div>
+            );
+          })}
+          {band && (
+            <div
+              className="selection-band"
+              style={{
+                left: `${Math.min(band.start.x, band.end.x)}px`,
+                top: `${Math.min(band.start.y, band.end.y)}px`,
+                width: `${Math.abs(band.end.x - band.start.x)}px`,
+                height: `${Math.abs(band.end.y - band.start.y)}px`,
+              }}
+            />
+          )}
+        </div>
+        <div
+          className="canvas-navigator"
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <div className="zoom-controls">
+            <button
+              onClick={() => zoomAtCenter(1 / ZOOM_STEP)}
+              title="Уменьшить"
+            >
+              −
+            </button>
+            <button
+              onClick={() => zoomAtCenter(1 / view.zoom)}
+              title="Масштаб 100%"
+            >
+              {Math.round(view.zoom * 100)}%
+            </button>
+            <button onClick={() => zoomAtCenter(ZOOM_STEP)} title="Увеличить">
+              +
+            </button>
+            <button
+              onClick={zoomToFit}
+              title="Показать всю схему. Колесо - масштаб, пробел или средняя кнопка - перемещение"
+            >
+              Вписать
+            </button>
+          </div>
+          <Minimap
+            blocks={blocks}
+            terminals={terminals}
+            visible={visible}
+            onNavigate={(x, y) =>
+              setView((v) =>
+                centerOn(v, x, y, viewSize.width, viewSize.height),
+              )
+            }
+          />
+        </div>
       </div>
     </div>
   );
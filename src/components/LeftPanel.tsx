@@ -1,18 +1,92 @@
-import React, { useMemo } from "react";
-import { Block, Connection } from "../types";
+import React, { useMemo, useRef, useState } from "react";
+import {
+  Block,
+  BlockImportance,
+  BlockPort,
+  CalculationPrecision,
+  Connection,
+  Diagnostic,
+  FailureModel,
+  ImportanceMeasure,
+  LibraryItem,
+  MinimalSetsResult,
+  ReserveGroup,
+  SpareTarget,
+  PortPlacement,
+  Terminal,
+} from "../types";
 import { normalizeReliability } from "../utils";
 import {
+  MAX_PORTS_PER_SIDE,
+  PLACEMENT_NAMES,
+  blockPorts,
+  hasRoom,
+  isDefaultPorts,
+  resizePorts,
+} from "../ports";
+import {
+  buildReliabilityDerivation,
   calculateSystemReliability,
-  generateReliabilityFormula,
+  findDisconnectedBlocks,
+  reserveGroupLabel,
+  resolveReserveGroups,
+  schemeInputKey,
 } from "../calculations";
+import {
+  calculateMTTF,
+  calculateReliabilityCurve,
+  hasTimeModels,
+} from "../reliabilityTime";
+import ReliabilityChart from "./ReliabilityChart";
+import MonteCarloPanel from "./MonteCarloPanel";
+import DiagnosticsPanel from "./DiagnosticsPanel";
+import MinimalSetsPanel from "./MinimalSetsPanel";
+import SolutionPanel from "./SolutionPanel";
+import { IMPORTANCE_LABELS } from "../importance";
+import { FormulaNode, ReductionStep, renderHtml } from "../formula";
+import { Real, formatFixed, minus, ninesOf } from "../rational";
+import { ReportFormat } from "../report";
 
 interface LeftPanelProps {
   blocks: Block[];
   connections: Connection[];
   selectedBlockId: string | null;
   onSelectBlock: (id: string | null) => void;
-  onUpdateBlock: (id: string, updates: Partial<Block>) => void;
-  onDeleteConnection: (id: string) => void;
+  onUpdateBlock: (
+    id: string,
+    updates: Partial<Block>,
+    mergeKey?: string,
+  ) => void;
+  onSetBlockReserve: (id: string, isReserve: boolean) => void;
+  reserveGroups: ReserveGroup[];
+  terminals: Terminal[];
+  onAssignSpare: (spareId: string, target: SpareTarget) => void;
+  onUpdateReserveGroup: (id: string, updates: Partial<ReserveGroup>) => void;
+  onDeleteReserveGroup: (id: string) => void;
+  missionTime: number;
+  onSetMissionTime: (time: number) => void;
+  importance: BlockImportance[] | null; // null - таблица скрыта
+  onToggleImportanceTable: () => void;
+  importanceMeasure: ImportanceMeasure; // Показатель для подсветки на холсте
+  onSelectImportanceMeasure: (measure: ImportanceMeasure) => void;
+  onExportReport: (format: ReportFormat | "pdf") => void;
+  precision: CalculationPrecision; // Точный расчет дробями и число знаков при выводе
+  onSetPrecision: (precision: CalculationPrecision) => void;
+  diagnostics: Diagnostic[];
+  activeDiagnosticId: string | null;
+  onSelectDiagnostic: (id: string | null) => void;
+  minimalSets: MinimalSetsResult | null; // null - панель закрыта
+  onToggleMinimalSets: () => void;
+  activeMinimalSetId: string | null;
+  onSelectMinimalSet: (id: string | null) => void;
+  solutionSteps: ReductionStep[]; // Шаги свертки для пошагового решения
+  solutionPosition: number | null; // null - решение не показывается
+  onSetSolutionPosition: (position: number | null) => void;
+  onOpenSubsystem: (blockId: string) => void;
+  library: LibraryItem[]; // Подсистемы для вставки составными блоками
+  onAddToLibrary: (blockId: string) => void;
+  onInsertLibraryItem: (itemId: string) => void;
+  onDeleteLibraryItem: (itemId: string) => void;
 }
 
 const LeftPanel: React.FC<LeftPanelProps> = ({
@@ -21,33 +95,272 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
   selectedBlockId,
   onSelectBlock,
   onUpdateBlock,
-  onDeleteConnection,
+  onSetBlockReserve,
+  reserveGroups,
+  terminals,
+  onAssignSpare,
+  onUpdateReserveGroup,
+  onDeleteReserveGroup,
+  missionTime,
+  onSetMissionTime,
+  importance,
+  onToggleImportanceTable,
+  importanceMeasure,
+  onSelectImportanceMeasure,
+  onExportReport,
+  precision,
+  onSetPrecision,
+  diagnostics,
+  activeDiagnosticId,
+  onSelectDiagnostic,
+  minimalSets,
+  onToggleMinimalSets,
+  activeMinimalSetId,
+  onSelectMinimalSet,
+  solutionSteps,
+  solutionPosition,
+  onSetSolutionPosition,
+  onOpenSubsystem,
+  library,
+  onAddToLibrary,
+  onInsertLibraryItem,
+  onDeleteLibraryItem,
 }) => {
   const selectedBlock = blocks.find((b) => b.id === selectedBlockId);
+  // Все правки за один фокус поля ввода отменяются одним шагом
+  const editSessionRef = useRef("");
 
   const formatReliability = (value: number): string => {
     return value.toFixed(6).replace(/\.?0+$/, "");
   };
 
+  // Ключ схемы без положения блоков: расчеты ниже зависят от него, а не от
+  // blocks, и не повторяются при перетаскивании и раскладке схемы.
+  // Схема в них берется из текущего рендера: ключ меняется вместе с ней.
+  const schemeKey = useMemo(
+    () => schemeInputKey(blocks, connections, reserveGroups, terminals),
+    [blocks, connections, reserveGroups, terminals],
+  );
+
   // Рассчитываем надежность системы
   const systemStats = useMemo(() => {
     if (blocks.length === 0) {
       return null;
     }
-    return calculateSystemReliability(blocks, connections);
-  }, [blocks, connections]);
+    return calculateSystemReliability(
+      blocks,
+      connections,
+      reserveGroups,
+      terminals,
+      precision,
+    );
+  }, [schemeKey, precision]);
+
+  // G для вывода: в точном режиме - дробь, округляется только здесь
+  const shownReliability: Real | null = systemStats
+    ? systemStats.exactReliability ?? systemStats.systemReliability
+    : null;
+  const shownDigits = precision.exact ? precision.digits : 6;
+  const formatShown = (value: Real | null) =>
+    value === null ? "-" : formatFixed(value, shownDigits);
+  const nines = shownReliability !== null ? ninesOf(shownReliability) : null;
+
+  // Число знаков 1..50; неверный ввод оставляет прежнее значение
+  const parseDigits = (value: string): number => {
+    const digits = parseInt(value, 10);
+    return isNaN(digits)
+      ? precision.digits
+      : Math.min(Math.max(digits, 1), 50);
+  };
+
+  // Надежность во времени: MTTF и кривая R(t)
+  const timeDependent = hasTimeModels(blocks);
+  const mttf = useMemo(
+    () =>
+      timeDependent
+        ? calculateMTTF(blocks, connections, reserveGroups, terminals)
+        : null,
+    [timeDependent, schemeKey],
+  );
+  // Правая граница графика; null - подбирается автоматически
+  const [plotEnd, setPlotEnd] = useState<number | null>(null);
+  const chartEnd = plotEnd ?? (mttf ? mttf * 3 : missionTime * 2);
+  const curve = useMemo(
+    () =>
+      timeDependent
+        ? calculateReliabilityCurve(
+            blocks,
+            connections,
+            reserveGroups,
+            terminals,
+            chartEnd,
+          )
+        : [],
+    [timeDependent, schemeKey, chartEnd],
+  );
+
+  // Сортировка таблицы значимости: по номеру блока или по показателю
+  const [importanceSort, setImportanceSort] = useState<{
+    key: "number" | ImportanceMeasure;
+    desc: boolean;
+  }>({ key: "birnbaum", desc: true });
+  const sortedImportance = useMemo(() => {
+    const numberOf = (id: string) =>
+      blocks.find((b) => b.id === id)?.number ?? 0;
+    const { key, desc } = importanceSort;
+    const sorted = [...(importance ?? [])].sort((a, b) =>
+      key === "number"
+        ? numberOf(a.blockId) - numberOf(b.blockId)
+        : a[key] - b[key] || numberOf(a.blockId) - numberOf(b.blockId),
+    );
+    return desc ? sorted.reverse() : sorted;
+  }, [importance, importanceSort, blocks]);
+
+  const handleImportanceSort = (key: "number" | ImportanceMeasure) => {
+    setImportanceSort((prev) => ({
+      key,
+      desc: prev.key === key ? !prev.desc : key !== "number",
+    }));
+    if (key !== "number") onSelectImportanceMeasure(key);
+  };
+
+  const formatImportance = (value: number) =>
+    isFinite(value) ? value.toFixed(4) : "∞";
 
-  // Генерируем формулы
+  // Генерируем формулы в HTML
   const formulas = useMemo(() => {
     if (blocks.length === 0) {
       return null;
     }
-    return generateReliabilityFormula(blocks, connections);
-  }, [blocks, connections]);
+    const derivation = buildReliabilityDerivation(
+      blocks,
+      connections,
+      reserveGroups,
+      terminals,
+      precision,
+    );
+    const lines = (nodes: FormulaNode[]) =>
+      nodes.map(renderHtml).join("<br/>");
+    return {
+      general: lines(derivation.general),
+      withValues: lines([...derivation.reserveSteps, ...derivation.withValues]),
+      notes: derivation.notes.map(renderHtml),
+    };
+  }, [schemeKey, precision]);
+
+  // Почему блок не участвует в расчете
+  const disconnected = useMemo(
+    () => findDisconnectedBlocks(blocks, connections, terminals),
+    [schemeKey],
+  );
+
+  // Группы резерва в том виде, в каком они участвуют в расчете
+  const resolvedGroups = useMemo(
+    () => resolveReserveGroups(blocks, reserveGroups),
+    [blocks, reserveGroups],
+  );
+  const mainBlocks = blocks.filter((b) => !b.isReserve);
+  const blockNumber = (id: string) =>
+    blocks.find((b) => b.id === id)?.number ?? "?";
+
+  const selectedSpareGroupIdx = selectedBlock?.isReserve
+    ? resolvedGroups.findIndex((g) =>
+        g.spareBlockIds.includes(selectedBlock.id),
+      )
+    : -1;
+  const selectedSpareGroup =
+    selectedSpareGroupIdx >= 0 ? resolvedGroups[selectedSpareGroupIdx] : null;
+
+  const handleSpareTargetChange = (spareId: string, value: string) => {
+    const [kind, id] = value.split(":");
+    if (kind === "group") onAssignSpare(spareId, { kind: "group", groupId: id });
+    else if (kind === "block")
+      onAssignSpare(spareId, { kind: "block", blockId: id });
+    else onAssignSpare(spareId, { kind: "system" });
+  };
+
+  const toggleGroupTarget = (group: ReserveGroup, blockId: string) => {
+    const original = reserveGroups.find((g) => g.id === group.id);
+    if (!original) return;
+    const targetBlockIds = original.targetBlockIds.includes(blockId)
+      ? original.targetBlockIds.filter((id) => id !== blockId)
+      : [...original.targetBlockIds, blockId];
+    onUpdateReserveGroup(group.id, { targetBlockIds });
+  };
+
+  const parsePositive = (value: string): number | null => {
+    const parsed = parseFloat(value.replace(",", "."));
+    return isNaN(parsed) || parsed <= 0 ? null : parsed;
+  };
+
+  // Стоимость и вес: пустое поле - не задано
+  const parseAmount = (value: string): number | undefined => {
+    const parsed = parseFloat(value.replace(",", "."));
+    return isNaN(parsed) ? undefined : Math.max(0, parsed);
+  };
+
+  // При смене модели параметры подбираются так, чтобы R(t) в момент миссии не изменилась
+  const handleFailureModelChange = (block: Block, kind: string) => {
+    const p = Math.min(Math.max(block.reliability, 1e-9), 1 - 1e-9);
+    const lambda = -Math.log(p) / missionTime;
+    let failureModel: FailureModel | undefined;
+    if (kind === "exponential") failureModel = { kind: "exponential", lambda };
+    else if (kind === "weibull")
+      failureModel = { kind: "weibull", beta: 1, eta: 1 / lambda };
+    onUpdateBlock(block.id, { failureModel });
+  };
+
+  const updateFailureModel = (
+    block: Block,
+    updates: Partial<{ lambda: number; beta: number; eta: number }>,
+  ) => {
+    if (!block.failureModel) return;
+    onUpdateBlock(block.id, {
+      failureModel: { ...block.failureModel, ...updates } as FailureModel,
+    });
+  };
+
+  const portCount = (block: Block, kind: BlockPort["kind"]) =>
+    blockPorts(block).filter((p) => p.kind === kind).length;
+
+  // Число входов или выходов: лишние порты убираются с конца, новые
+  // ставятся на свободные места
+  const handlePortCountChange = (
+    block: Block,
+    kind: BlockPort["kind"],
+    value: string,
+  ) => {
+    const count = parseInt(value, 10);
+    if (isNaN(count)) return;
+    const clamped = Math.max(1, Math.min(3 * MAX_PORTS_PER_SIDE, count));
+    onUpdateBlock(block.id, {
+      ports: resizePorts(
+        block,
+        kind === "input" ? clamped : portCount(block, "input"),
+        kind === "output" ? clamped : portCount(block, "output"),
+      ),
+    });
+  };
+
+  const updatePort = (
+    block: Block,
+    portId: string,
+    updates: Partial<BlockPort>,
+    mergeKey?: string,
+  ) => {
+    const ports = blockPorts(block).map((p) =>
+      p.id === portId ? { ...p, ...updates } : p,
+    );
+    onUpdateBlock(
+      block.id,
+      { ports: isDefaultPorts(ports) ? undefined : ports },
+      mergeKey,
+    );
+  };
 
   const handleReliabilityChange = (blockId: string, value: string) => {
     const normalized = normalizeReliability(value);
-    onUpdateBlock(blockId, { reliability: normalized });
+    onUpdateBlock(blockId, { reliability: normalized }, editSessionRef.current);
   };
 
   return (
@@ -66,9 +379,7 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
           </div>
           <div className="info-item">
             <span className="info-label">G_np:</span>
-            <span className="info-value">
-              {systemStats ? systemStats.systemReliability.toFixed(6) : "-"}
-            </span>
+            <span className="info-value">{formatShown(shownReliability)}</span>
           </div>
           <div className="info-item">
             <span className="info-label">E_np:</span>
@@ -84,11 +395,113 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
               className="info-value"
               style={{ fontSize: "18px", color: "#4ec9b0" }}
             >
-              {systemStats ? systemStats.systemReliability.toFixed(6) : "-"}
+              {formatShown(shownReliability)}
+            </span>
+          </div>
+          <div className="info-item">
+            <span className="info-label">Ненадежность 1 - G:</span>
+            <span className="info-value">
+              {formatShown(
+                shownReliability !== null ? minus(1, shownReliability) : null,
+              )}
+            </span>
+          </div>
+          <div className="info-item">
+            <span className="info-label">Число девяток:</span>
+            <span className="info-value">
+              {nines === null ? "-" : isFinite(nines) ? nines.toFixed(2) : "∞"}
+            </span>
+          </div>
+          <div
+            className="info-item"
+            style={{
+              gridColumn: "1 / -1",
+              justifyContent: "flex-start",
+              gap: "8px",
+            }}
+          >
+            <input
+              type="checkbox"
+              id="exact-checkbox"
+              checked={precision.exact}
+              onChange={(e) =>
+                onSetPrecision({ ...precision, exact: e.target.checked })
+              }
+              style={{ width: "auto", margin: 0 }}
+            />
+            <label
+              htmlFor="exact-checkbox"
+              className="info-label"
+              style={{ cursor: "pointer" }}
+              title="Расчет точными дробями без округления промежуточных результатов"
+            >
+              Точный расчет, знаков:
+            </label>
+            <input
+              type="text"
+              className="inline-number-input"
+              defaultValue={precision.digits}
+              key={`digits-${precision.digits}`}
+              disabled={!precision.exact}
+              onBlur={(e) => {
+                const digits = parseDigits(e.target.value);
+                onSetPrecision({ ...precision, digits });
+                e.target.value = String(digits);
+              }}
+            />
+          </div>
+          <div className="info-item">
+            <span className="info-label">Время миссии t, ч:</span>
+            <input
+              type="text"
+              className="inline-number-input"
+              defaultValue={missionTime}
+              key={`t-${missionTime}`}
+              onBlur={(e) => {
+                const time = parsePositive(e.target.value);
+                if (time !== null) onSetMissionTime(time);
+                else e.target.value = String(missionTime);
+              }}
+            />
+          </div>
+          <div className="info-item">
+            <span className="info-label">MTTF, ч:</span>
+            <span className="info-value">
+              {mttf !== null ? mttf.toFixed(2) : "-"}
             </span>
           </div>
         </div>
 
+        <MonteCarloPanel
+          blocks={blocks}
+          connections={connections}
+          reserveGroups={reserveGroups}
+          terminals={terminals}
+          analytic={systemStats ? systemStats.systemReliability : null}
+        />
+
+        {/* График R(t) */}
+        {timeDependent && (
+          <div style={{ marginTop: "15px" }}>
+            <div
+              className="property-input"
+              style={{ flexDirection: "row", alignItems: "center", gap: "8px" }}
+            >
+              <label style={{ margin: 0 }}>R(t) на отрезке 0 ... </label>
+              <input
+                type="text"
+                className="inline-number-input"
+                defaultValue={Number(chartEnd.toPrecision(4))}
+                key={`end-${chartEnd}`}
+                onBlur={(e) => setPlotEnd(parsePositive(e.target.value))}
+                title="Пустое значение - автоматически"
+              />
+              <span style={{ fontSize: "12px", color: "#858585" }}>ч</span>
+            </div>
+            <ReliabilityChart curve={curve} missionTime={missionTime} />
+          </div>
+        )}
+
         {/* Детали расчетов */}
         {systemStats && formulas && (
           <div style={{ marginTop: "15px" }}>
@@ -102,6 +515,19 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
               Детали расчетов:
             </h3>
 
+            {/* Примечания о методе расчета */}
+            {formulas.notes?.map((note, idx) => (
+              <div
+                key={idx}
+                style={{
+                  fontSize: "12px",
+                  color: "#dcdcaa",
+                  marginBottom: "10px",
+                }}
+                dangerouslySetInnerHTML={{ __html: note }}
+              />
+            ))}
+
             {/* Формулы */}
             <div
               className="formula-block"
@@ -161,10 +587,36 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
                 dangerouslySetInnerHTML={{ __html: formulas.withValues }}
               />
             </div>
+
+            <SolutionPanel
+              blocks={blocks}
+              steps={solutionSteps}
+              position={solutionPosition}
+              onSetPosition={onSetSolutionPosition}
+            />
+
+            <div className="report-export">
+              <span className="info-label">Отчет:</span>
+              <button className="chip" onClick={() => onExportReport("tex")}>
+                LaTeX
+              </button>
+              <button className="chip" onClick={() => onExportReport("md")}>
+                Markdown
+              </button>
+              <button className="chip" onClick={() => onExportReport("pdf")}>
+                PDF
+              </button>
+            </div>
           </div>
         )}
       </div>
 
+      <DiagnosticsPanel
+        diagnostics={diagnostics}
+        activeDiagnosticId={activeDiagnosticId}
+        onSelectDiagnostic={onSelectDiagnostic}
+      />
+
       {/* Список блоков */}
       <div className="panel-section">
         <h2>Блоки</h2>
@@ -188,27 +640,352 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
         )}
       </div>
 
+      {/* Значимость блоков */}
+      {blocks.length > 0 && importance === null && (
+        <div className="panel-section">
+          <h2>Значимость блоков</h2>
+          <div className="report-export">
+            <button
+              className="chip"
+              onClick={onToggleImportanceTable}
+              title="Показатели Бирнбаума, критичности, RAW и RRW для каждого блока"
+            >
+              Рассчитать значимость
+            </button>
+          </div>
+        </div>
+      )}
+      {importance && importance.length > 0 && (
+        <div className="panel-section">
+          <div className="side-panel-header">
+            <h2>Значимость блоков</h2>
+            <button
+              className="delete-connection-btn"
+              onClick={onToggleImportanceTable}
+              title="Скрыть таблицу"
+            >
+              ×
+            </button>
+          </div>
+          <div style={{ overflowX: "auto" }}>
+            <table className="results-table importance-table">
+              <thead>
+                <tr>
+                  {(
+                    ["number", "birnbaum", "criticality", "raw", "rrw"] as const
+                  ).map((key) => (
+                    <th
+                      key={key}
+                      className={`${key === importanceMeasure ? "heat-measure" : ""}`}
+                      onClick={() => handleImportanceSort(key)}
+                    >
+                      {key === "number" ? "#" : IMPORTANCE_LABELS[key]}
+                      {importanceSort.key === key &&
+                        (importanceSort.desc ? " ▼" : " ▲")}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sortedImportance.map((item) => (
+                  <tr
+                    key={item.blockId}
+                    className={selectedBlockId === item.blockId ? "best" : ""}
+                    onClick={() => onSelectBlock(item.blockId)}
+                  >
+                    <td>{blockNumber(item.blockId)}</td>
+                    <td>{formatImportance(item.birnbaum)}</td>
+                    <td>{formatImportance(item.criticality)}</td>
+                    <td>{formatImportance(item.raw)}</td>
+                    <td>{formatImportance(item.rrw)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {blocks.length > 0 && (
+        <MinimalSetsPanel
+          blocks={blocks}
+          minimalSets={minimalSets}
+          onToggle={onToggleMinimalSets}
+          activeSetId={activeMinimalSetId}
+          onSelectSet={onSelectMinimalSet}
+        />
+      )}
+
       {/* Свойства выбранного блока */}
       {selectedBlock && (
         <div className="panel-section">
           <h2>Редактирование блока #{selectedBlock.number}</h2>
-          <div className="property-input">
-            <label>Надежность (0-1):</label>
-            <textarea
-              className="reliability-input"
-              value={selectedBlock.reliability}
-              rows={3}
-              wrap="off"
-              onChange={(e) =>
-                handleReliabilityChange(selectedBlock.id, e.target.value)
-              }
-              onBlur={(e) => {
-                const normalized = normalizeReliability(e.target.value);
-                onUpdateBlock(selectedBlock.id, { reliability: normalized });
-              }}
-              placeholder="0.95"
-            />
+          {disconnected.has(selectedBlock.id) && (
+            <p className="block-warning">
+              Блок не подключен: {disconnected.get(selectedBlock.id)}
+            </p>
+          )}
+          {selectedBlock.subsystem ? (
+            <>
+              <div className="property-input">
+                <label>Название подсистемы:</label>
+                <input
+                  type="text"
+                  value={selectedBlock.subsystem.name}
+                  onFocus={() => {
+                    editSessionRef.current = `subsystem:${selectedBlock.id}:${Date.now()}`;
+                  }}
+                  onChange={(e) =>
+                    onUpdateBlock(
+                      selectedBlock.id,
+                      {
+                        subsystem: {
+                          ...selectedBlock.subsystem!,
+                          name: e.target.value,
+                        },
+                      },
+                      editSessionRef.current,
+                    )
+                  }
+                />
+              </div>
+              <div className="property-input">
+                <label>Надежность подсистемы:</label>
+                <input
+                  type="text"
+                  value={formatReliability(selectedBlock.reliability)}
+                  readOnly
+                />
+              </div>
+              <div className="report-export">
+                <span className="info-label">
+                  Блоков внутри: {selectedBlock.subsystem.blocks.length}
+                </span>
+                <button
+                  className="chip"
+                  onClick={() => onOpenSubsystem(selectedBlock.id)}
+                >
+                  Открыть схему
+                </button>
+                <button
+                  className="chip"
+                  title="Сохранить подсистему для вставки в другие места схемы"
+                  onClick={() => onAddToLibrary(selectedBlock.id)}
+                >
+                  В библиотеку
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+            <div className="property-input">
+              <label>Модель отказов:</label>
+              <select
+                value={selectedBlock.failureModel?.kind ?? "fixed"}
+                onChange={(e) =>
+                  handleFailureModelChange(selectedBlock, e.target.value)
+                }
+              >
+                <option value="fixed">Фиксированная вероятность p</option>
+                <option value="exponential">Экспоненциальная (λ)</option>
+                <option value="weibull">Вейбулла (β, η)</option>
+              </select>
+            </div>
+            {selectedBlock.failureModel?.kind === "exponential" && (
+              <div className="property-input">
+                <label>Интенсивность отказов λ, 1/ч:</label>
+                <input
+                  type="text"
+                  defaultValue={selectedBlock.failureModel.lambda}
+                  key={`lambda-${selectedBlock.id}-${selectedBlock.failureModel.lambda}`}
+                  onBlur={(e) => {
+                    const lambda = parsePositive(e.target.value);
+                    if (lambda !== null) updateFailureModel(selectedBlock, { lambda });
+                  }}
+                />
+              </div>
+            )}
+            {selectedBlock.failureModel?.kind === "weibull" && (
+              <div className="param-grid">
+                <div className="property-input">
+                  <label>Форма β:</label>
+                  <input
+                    type="text"
+                    defaultValue={selectedBlock.failureModel.beta}
+                    key={`beta-${selectedBlock.id}-${selectedBlock.failureModel.beta}`}
+                    onBlur={(e) => {
+                      const beta = parsePositive(e.target.value);
+                      if (beta !== null) updateFailureModel(selectedBlock, { beta });
+                    }}
+                  />
+                </div>
+                <div className="property-input">
+                  <label>Масштаб η, ч:</label>
+                  <input
+                    type="text"
+                    defaultValue={selectedBlock.failureModel.eta}
+                    key={`eta-${selectedBlock.id}-${selectedBlock.failureModel.eta}`}
+                    onBlur={(e) => {
+                      const eta = parsePositive(e.target.value);
+                      if (eta !== null) updateFailureModel(selectedBlock, { eta });
+                    }}
+                  />
+                </div>
+              </div>
+            )}
+            <div className="property-input">
+              <label>
+                {selectedBlock.failureModel
+                  ? `Надежность R(t) при t = ${missionTime} ч:`
+                  : "Надежность (0-1):"}
+              </label>
+              <textarea
+                className="reliability-input"
+                value={selectedBlock.reliability}
+                readOnly={selectedBlock.failureModel !== undefined}
+                rows={3}
+                wrap="off"
+                onFocus={() => {
+                  editSessionRef.current = `reliability:${selectedBlock.id}:${Date.now()}`;
+                }}
+                onChange={(e) =>
+                  handleReliabilityChange(selectedBlock.id, e.target.value)
+                }
+                onBlur={(e) => {
+                  const normalized = normalizeReliability(e.target.value);
+                  onUpdateBlock(
+                    selectedBlock.id,
+                    { reliability: normalized },
+                    editSessionRef.current,
+                  );
+                }}
+                placeholder="0.95"
+              />
+            </div>
+            </>
+          )}
+          <div className="param-grid">
+            <div className="property-input">
+              <label>Стоимость:</label>
+              <input
+                type="text"
+                placeholder="1"
+                defaultValue={selectedBlock.cost ?? ""}
+                key={`cost-${selectedBlock.id}-${selectedBlock.cost}`}
+                onBlur={(e) =>
+                  onUpdateBlock(selectedBlock.id, {
+                    cost: parseAmount(e.target.value),
+                  })
+                }
+              />
+            </div>
+            <div className="property-input">
+              <label>Вес:</label>
+              <input
+                type="text"
+                placeholder="0"
+                defaultValue={selectedBlock.weight ?? ""}
+                key={`weight-${selectedBlock.id}-${selectedBlock.weight}`}
+                onBlur={(e) =>
+                  onUpdateBlock(selectedBlock.id, {
+                    weight: parseAmount(e.target.value),
+                  })
+                }
+              />
+            </div>
           </div>
+          {!selectedBlock.isReserve && (
+            <>
+              <div className="param-grid">
+                <div className="property-input">
+                  <label>Входов:</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={3 * MAX_PORTS_PER_SIDE}
+                    value={portCount(selectedBlock, "input")}
+                    onChange={(e) =>
+                      handlePortCountChange(
+                        selectedBlock,
+                        "input",
+                        e.target.value,
+                      )
+                    }
+                  />
+                </div>
+                <div className="property-input">
+                  <label>Выходов:</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={3 * MAX_PORTS_PER_SIDE}
+                    value={portCount(selectedBlock, "output")}
+                    onChange={(e) =>
+                      handlePortCountChange(
+                        selectedBlock,
+                        "output",
+                        e.target.value,
+                      )
+                    }
+                  />
+                </div>
+              </div>
+              {/* Порты блока: каждый порт - отдельная точка подключения связей */}
+              {selectedBlock.ports && (
+                <div className="property-input">
+                  <label>Порты:</label>
+                  <div className="connections-list">
+                    {selectedBlock.ports.map((port) => (
+                      <div key={port.id} className="port-row">
+                        <span className="info-label">
+                          {port.kind === "input" ? "Вход" : "Выход"}
+                        </span>
+                        <input
+                          type="text"
+                          value={port.name}
+                          placeholder="Имя"
+                          onFocus={() => {
+                            editSessionRef.current = `port:${selectedBlock.id}:${port.id}:${Date.now()}`;
+                          }}
+                          onChange={(e) =>
+                            updatePort(
+                              selectedBlock,
+                              port.id,
+                              { name: e.target.value },
+                              editSessionRef.current,
+                            )
+                          }
+                        />
+                        <select
+                          value={port.placement}
+                          onChange={(e) =>
+                            updatePort(selectedBlock, port.id, {
+                              placement: e.target.value as PortPlacement,
+                            })
+                          }
+                        >
+                          {(
+                            Object.keys(PLACEMENT_NAMES) as PortPlacement[]
+                          ).map((placement) => (
+                            <option
+                              key={placement}
+                              value={placement}
+                              disabled={
+                                placement !== port.placement &&
+                                !hasRoom(selectedBlock.ports!, placement)
+                              }
+                            >
+                              {PLACEMENT_NAMES[placement]}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
           <div
             className="property-input"
             style={{ display: "flex", alignItems: "center", gap: "8px" }}
@@ -217,21 +994,10 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
               type="checkbox"
               id="reserve-checkbox"
               checked={selectedBlock.isReserve || false}
-              onChange={(e) => {
-                const isReserve = e.target.checked;
-                onUpdateBlock(selectedBlock.id, { isReserve });
-
-                // Если блок становится резервным - удаляем все его связи
-                if (isReserve) {
-                  connections
-                    .filter(
-                      (conn) =>
-                        conn.fromBlockId === selectedBlock.id ||
-                        conn.toBlockId === selectedBlock.id,
-                    )
-                    .forEach((conn) => onDeleteConnection(conn.id));
-                }
-              }}
+              onChange={(e) =>
+                // Если блок становится резервным - его связи удаляются тем же шагом
+                onSetBlockReserve(selectedBlock.id, e.target.checked)
+              }
               style={{ width: "auto", margin: 0 }}
             />
             <label
@@ -241,6 +1007,148 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
               Резервный блок
             </label>
           </div>
+          {selectedBlock.isReserve && (
+            <div className="property-input">
+              <label>Резервирует:</label>
+              <select
+                value={
+                  selectedSpareGroup && selectedSpareGroup.targetBlockIds.length
+                    ? `group:${selectedSpareGroup.id}`
+                    : "system"
+                }
+                onChange={(e) =>
+                  handleSpareTargetChange(selectedBlock.id, e.target.value)
+                }
+              >
+                <option value="system">Всю систему</option>
+                {resolvedGroups.map((group, idx) =>
+                  group.targetBlockIds.length > 0 ? (
+                    <option key={group.id} value={`group:${group.id}`}>
+                      Группа {reserveGroupLabel(idx)} (блоки{" "}
+                      {group.targetBlockIds
+                        .map((id) => `#${blockNumber(id)}`)
+                        .join(", ")}
+                      )
+                    </option>
+                  ) : null,
+                )}
+                {mainBlocks.map((block) => (
+                  <option key={block.id} value={`block:${block.id}`}>
+                    Блок #{block.number}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Библиотека подсистем */}
+      {library.length > 0 && (
+        <div className="panel-section">
+          <h2>Библиотека подсистем</h2>
+          <div className="connections-list">
+            {library.map((item) => (
+              <div key={item.id} className="library-item">
+                <span className="block-id">{item.name}</span>
+                <span className="info-label">
+                  {item.blocks.length} бл.
+                </span>
+                <button
+                  className="chip"
+                  title="Вставить составной блок в открытую схему"
+                  onClick={() => onInsertLibraryItem(item.id)}
+                >
+                  Вставить
+                </button>
+                <button
+                  className="delete-connection-btn"
+                  title="Удалить из библиотеки"
+                  onClick={() => onDeleteLibraryItem(item.id)}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Группы резерва */}
+      {resolvedGroups.length > 0 && (
+        <div className="panel-section">
+          <h2>Группы резерва</h2>
+          <div className="connections-list">
+            {resolvedGroups.map((group, idx) => {
+              const n =
+                (group.targetBlockIds.length || mainBlocks.length) +
+                group.spareBlockIds.length;
+              const isStored = reserveGroups.some((g) => g.id === group.id);
+              return (
+                <div key={group.id} className="reserve-group">
+                  <div className="reserve-group-header">
+                    <span className="block-id">
+                      {reserveGroupLabel(idx)}:{" "}
+                      {group.targetBlockIds.length > 0
+                        ? "фрагмент схемы"
+                        : "вся система"}
+                    </span>
+                    {isStored && (
+                      <button
+                        className="delete-connection-btn"
+                        title="Удалить группу"
+                        onClick={() => onDeleteReserveGroup(group.id)}
+                      >
+                        ×
+                      </button>
+                    )}
+                  </div>
+                  <div className="reserve-group-row">
+                    <span className="info-label">Резервируемые:</span>
+                    <div className="chip-list">
+                      {mainBlocks.map((block) => (
+                        <button
+                          key={block.id}
+                          className={`chip ${group.targetBlockIds.includes(block.id) ? "active" : ""}`}
+                          disabled={!isStored}
+                          onClick={() => toggleGroupTarget(group, block.id)}
+                        >
+                          #{block.number}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="reserve-group-row">
+                    <span className="info-label">Резерв:</span>
+                    <span>
+                      {group.spareBlockIds
+                        .map((id) => `#${blockNumber(id)}`)
+                        .join(", ") || "-"}
+                    </span>
+                  </div>
+                  <div className="reserve-group-row">
+                    <span className="info-label">Должно работать k из {n}:</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={n}
+                      value={group.required}
+                      disabled={!isStored}
+                      onChange={(e) => {
+                        const k = parseInt(e.target.value, 10);
+                        if (!isNaN(k)) {
+                          onUpdateReserveGroup(group.id, {
+                            required: Math.max(1, Math.min(n, k)),
+                          });
+                        }
+                      }}
+                      className="k-input"
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,120 @@
+import React from "react";
+import { Block, MinimalSet, MinimalSetsResult } from "../types";
+
+interface MinimalSetsPanelProps {
+  blocks: Block[];
+  minimalSets: MinimalSetsResult | null; // null - панель закрыта, наборы не считаются
+  onToggle: () => void;
+  activeSetId: string | null; // Набор, подсвеченный на холсте
+  onSelectSet: (id: string | null) => void;
+}
+
+const formatBound = (value: number) => value.toFixed(6).replace(/\.?0+$/, "");
+
+/**
+ * Минимальные пути и сечения схемы с оценками надежности по ним.
+ * Щелчок по набору подсвечивает его блоки на холсте, повторный - снимает
+ * подсветку. Пока панель закрыта, вместо наборов - кнопка их поиска.
+ */
+const MinimalSetsPanel: React.FC<MinimalSetsPanelProps> = ({
+  blocks,
+  minimalSets,
+  onToggle,
+  activeSetId,
+  onSelectSet,
+}) => {
+  const blockNumber = (id: string) =>
+    blocks.find((b) => b.id === id)?.number ?? "?";
+
+  const renderList = (title: string, sets: MinimalSet[]) => (
+    <>
+      <h3 className="minimal-sets-title">
+        {title}: {sets.length}
+      </h3>
+      {sets.length === 0 ? (
+        <p style={{ color: "#858585", fontSize: "12px" }}>Нет</p>
+      ) : (
+        <div className="minimal-set-list">
+          {sets.map((set) => (
+            <div
+              key={set.id}
+              className={`minimal-set-item ${activeSetId === set.id ? "active" : ""}`}
+              onClick={() => onSelectSet(activeSetId === set.id ? null : set.id)}
+            >
+              {"{"}
+              {set.blockIds.map((id) => blockNumber(id)).join(", ")}
+              {"}"}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+
+  if (minimalSets === null) {
+    return (
+      <div className="panel-section">
+        <h2>Минимальные пути и сечения</h2>
+        <div className="report-export">
+          <button
+            className="chip"
+            onClick={onToggle}
+            title="Перечислить минимальные пути и сечения и оценить по ним надежность"
+          >
+            Найти пути и сечения
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="panel-section">
+      <div className="side-panel-header">
+        <h2>Минимальные пути и сечения</h2>
+        <button
+          className="delete-connection-btn"
+          onClick={onToggle}
+          title="Скрыть пути и сечения"
+        >
+          ×
+        </button>
+      </div>
+      {minimalSets.kind === "unsupported" && (
+        <p style={{ color: "#858585", fontSize: "13px" }}>
+          У части схемы нет ни начала, ни конца (замкнутый контур)
+        </p>
+      )}
+      {minimalSets.kind === "too-many" && (
+        <p style={{ color: "#858585", fontSize: "13px" }}>
+          Наборов слишком много для перечисления
+        </p>
+      )}
+      {minimalSets.kind === "sets" && (
+        <>
+          <div className="info-grid">
+            <div className="info-item">
+              <span className="info-label">G не меньше:</span>
+              <span className="info-value">
+                {formatBound(minimalSets.lowerBound)}
+              </span>
+            </div>
+            <div className="info-item">
+              <span className="info-label">G не больше:</span>
+              <span className="info-value">
+                {formatBound(minimalSets.upperBound)}
+              </span>
+            </div>
+          </div>
+          <p style={{ color: "#858585", fontSize: "12px", margin: "6px 0 0" }}>
+            Оценки Эзари-Прошана: нижняя - по сечениям, верхняя - по путям
+          </p>
+          {renderList("Минимальные пути", minimalSets.paths)}
+          {renderList("Минимальные сечения", minimalSets.cuts)}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MinimalSetsPanel;
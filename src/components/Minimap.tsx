@@ -0,0 +1,95 @@
+import React, { useRef } from "react";
+import { Block, Terminal } from "../types";
+import { BLOCK_SIZE, CELL_SIZE } from "../geometry";
+import { Rect, schemeBounds, unionRect } from "../viewport";
+
+interface MinimapProps {
+  blocks: Block[];
+  terminals: Terminal[];
+  visible: Rect; // Видимая на холсте часть схемы
+  onNavigate: (x: number, y: number) => void; // Центрировать холст на точке схемы
+}
+
+const MINIMAP_WIDTH = 200;
+const MINIMAP_HEIGHT = 140;
+const MINIMAP_PADDING = 6;
+
+/**
+ * Уменьшенная схема целиком с рамкой видимой области.
+ * Щелчок или перетаскивание по миникарте переносит туда холст.
+ */
+const Minimap: React.FC<MinimapProps> = ({
+  blocks,
+  terminals,
+  visible,
+  onNavigate,
+}) => {
+  const draggingRef = useRef(false);
+
+  const content = schemeBounds(blocks, terminals);
+  const bounds = content ? unionRect(content, visible) : visible;
+  const scale = Math.min(
+    (MINIMAP_WIDTH - 2 * MINIMAP_PADDING) / bounds.width,
+    (MINIMAP_HEIGHT - 2 * MINIMAP_PADDING) / bounds.height,
+  );
+  // Схема выравнивается по центру миникарты
+  const offsetX = (MINIMAP_WIDTH - bounds.width * scale) / 2 - bounds.x * scale;
+  const offsetY =
+    (MINIMAP_HEIGHT - bounds.height * scale) / 2 - bounds.y * scale;
+  const size = BLOCK_SIZE * CELL_SIZE * scale;
+
+  const navigate = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onNavigate(
+      (e.clientX - rect.left - offsetX) / scale,
+      (e.clientY - rect.top - offsetY) / scale,
+    );
+  };
+
+  return (
+    <svg
+      className="minimap"
+      width={MINIMAP_WIDTH}
+      height={MINIMAP_HEIGHT}
+      onMouseDown={(e) => {
+        e.stopPropagation();
+        draggingRef.current = true;
+        navigate(e);
+      }}
+      onMouseMove={(e) => draggingRef.current && navigate(e)}
+      onMouseUp={() => (draggingRef.current = false)}
+      onMouseLeave={() => (draggingRef.current = false)}
+    >
+      {blocks.map((block) => (
+        <rect
+          key={block.id}
+          x={block.x * CELL_SIZE * scale + offsetX}
+          y={block.y * CELL_SIZE * scale + offsetY}
+          width={size}
+          height={size}
+          fill={block.isReserve ? "#ff69b4" : "#4ec9b0"}
+        />
+      ))}
+      {terminals.map((terminal) => (
+        <circle
+          key={terminal.id}
+          cx={terminal.x * CELL_SIZE * scale + offsetX + size / 2}
+          cy={terminal.y * CELL_SIZE * scale + offsetY + size / 2}
+          r={size / 2}
+          fill="#6a9955"
+        />
+      ))}
+      <rect
+        x={visible.x * scale + offsetX}
+        y={visible.y * scale + offsetY}
+        width={visible.width * scale}
+        height={visible.height * scale}
+        fill="rgba(255, 255, 255, 0.05)"
+        stroke="#ffa500"
+        strokeWidth={1}
+      />
+    </svg>
+  );
+};
+
+export default Minimap;
@@ -0,0 +1,203 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Block,
+  Connection,
+  ReserveGroup,
+  SimulationResult,
+  Terminal,
+} from "../types";
+import { buildReliabilityNetwork } from "../calculations";
+import { hasDiscrepancy, isSimulationSupported } from "../simulation";
+import type {
+  SimulationRequest,
+  SimulationResponse,
+} from "../simulation.worker";
+
+interface MonteCarloPanelProps {
+  blocks: Block[];
+  connections: Connection[];
+  reserveGroups: ReserveGroup[];
+  terminals: Terminal[];
+  analytic: number | null; // G_np аналитическим расчетом
+}
+
+const DEFAULT_TRIALS = 100000;
+const MAX_TRIALS = 10000000;
+
+/**
+ * Проверка аналитического G_np методом Монте-Карло (в Web Worker)
+ */
+const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({
+  blocks,
+  connections,
+  reserveGroups,
+  terminals,
+  analytic,
+}) => {
+  const [trials, setTrials] = useState(DEFAULT_TRIALS);
+  const [seed, setSeed] = useState(1);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const network = useMemo(
+    () =>
+      buildReliabilityNetwork(blocks, connections, reserveGroups, terminals),
+    [blocks, connections, reserveGroups, terminals],
+  );
+  const supported = isSimulationSupported(network);
+  // Структура сети (ребра и надежности) без положения блоков на холсте:
+  // перетаскивание блока не меняет ее и не сбрасывает моделирование
+  const signature = useMemo(() => JSON.stringify(network), [network]);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  // Схема изменилась - прежний результат больше не относится к ней
+  useEffect(() => {
+    stop();
+    setResult(null);
+    setError(null);
+  }, [signature]);
+
+  useEffect(() => stop, []);
+
+  const run = () => {
+    stop();
+    setResult(null);
+    setError(null);
+    setProgress(0);
+
+    const worker = new Worker(
+      new URL("../simulation.worker.ts", import.meta.url),
+      { type: "module" },
+    );
+    workerRef.current = worker;
+    worker.onmessage = (e: MessageEvent<SimulationResponse>) => {
+      if (e.data.type === "progress") {
+        setProgress(e.data.done);
+      } else {
+        setResult(e.data.result);
+        stop();
+      }
+    };
+    // Сбой в потоке моделирования (ошибка в расчете, не загрузившийся
+    // модуль, неразборчивое сообщение): поток останавливается, прогресс
+    // сбрасывается, причина показывается вместо результата
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      stop();
+      setError(e.message || "Не удалось выполнить моделирование");
+    };
+    worker.onmessageerror = () => {
+      stop();
+      setError("Не удалось получить результат моделирования");
+    };
+    const request: SimulationRequest = { network, trials, seed };
+    worker.postMessage(request);
+  };
+
+  const discrepancy =
+    result && analytic !== null ? hasDiscrepancy(result, analytic) : false;
+
+  return (
+    <div style={{ marginTop: "15px" }}>
+      <h3 style={{ fontSize: "14px", marginBottom: "10px", color: "#cccccc" }}>
+        Проверка методом Монте-Карло:
+      </h3>
+      <div className="param-grid">
+        <div className="property-input">
+          <label>Испытаний:</label>
+          <input
+            type="number"
+            min={1000}
+            step={1000}
+            value={trials}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              if (!isNaN(value)) {
+                setTrials(Math.max(1, Math.min(MAX_TRIALS, value)));
+              }
+            }}
+          />
+        </div>
+        <div className="property-input">
+          <label>Seed:</label>
+          <input
+            type="number"
+            value={seed}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              if (!isNaN(value)) setSeed(value);
+            }}
+          />
+        </div>
+      </div>
+
+      {progress !== null ? (
+        <div className="simulation-row">
+          <span className="info-label">
+            Выполнено {Math.round((progress / trials) * 100)}%
+          </span>
+          <button className="chip" onClick={stop}>
+            Остановить
+          </button>
+        </div>
+      ) : (
+        <button
+          className="chip"
+          disabled={!supported || blocks.length === 0}
+          onClick={run}
+        >
+          Запустить моделирование
+        </button>
+      )}
+
+      {!supported && blocks.length > 0 && (
+        <p style={{ color: "#858585", fontSize: "12px", marginTop: "8px" }}>
+          У части схемы нет ни начала, ни конца (замкнутый контур) - моделирование недоступно
+        </p>
+      )}
+
+      {error && (
+        <p className="simulation-error">Ошибка моделирования: {error}</p>
+      )}
+
+      {result && (
+        <div className="info-grid" style={{ marginTop: "10px" }}>
+          <div className="info-item">
+            <span className="info-label">Оценка:</span>
+            <span className="info-value">{result.estimate.toFixed(6)}</span>
+          </div>
+          <div className="info-item">
+            <span className="info-label">Аналитически:</span>
+            <span className="info-value">
+              {analytic !== null ? analytic.toFixed(6) : "-"}
+            </span>
+          </div>
+          <div className="info-item" style={{ gridColumn: "1 / -1" }}>
+            <span className="info-label">95% интервал:</span>
+            <span className="info-value">
+              [{result.confidenceLow.toFixed(6)};{" "}
+              {result.confidenceHigh.toFixed(6)}]
+            </span>
+          </div>
+          <div
+            className={`info-item simulation-verdict ${discrepancy ? "mismatch" : ""}`}
+            style={{ gridColumn: "1 / -1" }}
+          >
+            {discrepancy
+              ? "Расхождение с аналитическим расчетом!"
+              : "Аналитический расчет согласуется с моделированием"}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MonteCarloPanel;
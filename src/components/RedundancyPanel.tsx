@@ -0,0 +1,353 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Block,
+  Connection,
+  RedundancyCopyKind,
+  RedundancyPlan,
+  ReserveGroup,
+  Terminal,
+} from "../types";
+import { calculateSystemReliability } from "../calculations";
+import { blockCost, withCopies } from "../redundancy";
+import type {
+  RedundancyRequest,
+  RedundancyResponse,
+} from "../redundancy.worker";
+import { normalizeReliability } from "../utils";
+
+interface RedundancyPanelProps {
+  blocks: Block[];
+  connections: Connection[];
+  reserveGroups: ReserveGroup[];
+  terminals: Terminal[];
+  onApply: (plan: RedundancyPlan) => void;
+  onClose: () => void;
+}
+
+const MAX_COPIES_LIMIT = 10;
+
+const formatReliability = (value: number) =>
+  value.toFixed(6).replace(/\.?0+$/, "");
+
+const formatAmount = (value: number) => String(Math.round(value * 100) / 100);
+
+/**
+ * Оптимизация резерва: сколько параллельных или резервных копий каждого блока
+ * добавить, чтобы достичь заданной надежности при наименьшей стоимости или
+ * получить наибольшую надежность в пределах бюджета. Поиск выполняется
+ * в Web Worker и может быть остановлен.
+ */
+const RedundancyPanel: React.FC<RedundancyPanelProps> = ({
+  blocks,
+  connections,
+  reserveGroups,
+  terminals,
+  onApply,
+  onClose,
+}) => {
+  const [goalKind, setGoalKind] = useState<"min-cost" | "max-reliability">(
+    "min-cost",
+  );
+  const [target, setTarget] = useState(0.99);
+  const [budget, setBudget] = useState(10);
+  const [weightLimit, setWeightLimit] = useState(0);
+  const [maxCopies, setMaxCopies] = useState(3);
+  const [copyKind, setCopyKind] = useState<RedundancyCopyKind>("parallel");
+  const [plan, setPlan] = useState<RedundancyPlan | null>(null);
+  // Число расчетов схемы во время поиска; null - поиск не идет
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  // Схема изменилась - прежнее решение больше не относится к ней
+  useEffect(() => {
+    stop();
+    setPlan(null);
+    setError(null);
+  }, [blocks, connections, reserveGroups, terminals]);
+
+  useEffect(() => stop, []);
+
+  const current = useMemo(
+    () =>
+      blocks.length > 0
+        ? calculateSystemReliability(
+            blocks,
+            connections,
+            reserveGroups,
+            terminals,
+          ).systemReliability
+        : null,
+    [blocks, connections, reserveGroups, terminals],
+  );
+
+  const run = () => {
+    stop();
+    setPlan(null);
+    setError(null);
+    setProgress(0);
+
+    const worker = new Worker(
+      new URL("../redundancy.worker.ts", import.meta.url),
+      { type: "module" },
+    );
+    workerRef.current = worker;
+    worker.onmessage = (e: MessageEvent<RedundancyResponse>) => {
+      if (e.data.type === "progress") {
+        setProgress(e.data.evaluations);
+      } else {
+        setPlan(e.data.plan);
+        stop();
+      }
+    };
+    worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      stop();
+      setError(e.message || "Не удалось выполнить поиск");
+    };
+    worker.onmessageerror = () => {
+      stop();
+      setError("Не удалось получить результат поиска");
+    };
+    const request: RedundancyRequest = {
+      blocks,
+      connections,
+      reserveGroups,
+      terminals,
+      problem: {
+        goal:
+          goalKind === "min-cost"
+            ? { kind: "min-cost", target }
+            : { kind: "max-reliability", budget },
+        copyKind,
+        weightLimit,
+        maxCopies,
+      },
+    };
+    worker.postMessage(request);
+  };
+
+  const parseAmount = (value: string) => {
+    const parsed = parseFloat(value.replace(",", "."));
+    return isNaN(parsed) ? 0 : Math.max(0, parsed);
+  };
+
+  const planBlocks = plan
+    ? [...blocks]
+        .filter((b) => plan.copies[b.id])
+        .sort((a, b) => a.number - b.number)
+    : [];
+
+  return (
+    <div className="side-panel">
+      <div className="panel-section">
+        <div className="side-panel-header">
+          <h2>Оптимизация резерва</h2>
+          <button className="delete-connection-btn" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        <div className="property-input">
+          <label>Цель:</label>
+          <select
+            value={goalKind}
+            onChange={(e) =>
+              setGoalKind(e.target.value as "min-cost" | "max-reliability")
+            }
+          >
+            <option value="min-cost">
+              Наименьшая стоимость при заданной надежности
+            </option>
+            <option value="max-reliability">
+              Наибольшая надежность в пределах бюджета
+            </option>
+          </select>
+        </div>
+
+        <div className="property-input">
+          <label>Копии:</label>
+          <select
+            value={copyKind}
+            onChange={(e) => setCopyKind(e.target.value as RedundancyCopyKind)}
+          >
+            <option value="parallel">Параллельно исходным блокам</option>
+            <option value="reserve">
+              Резервные блоки в группе резерва блока
+            </option>
+          </select>
+        </div>
+
+        <div className="param-grid">
+          {goalKind === "min-cost" ? (
+            <div className="property-input">
+              <label>Требуемая G:</label>
+              <input
+                type="text"
+                defaultValue={target}
+                key={`target-${target}`}
+                onBlur={(e) => setTarget(normalizeReliability(e.target.value))}
+              />
+            </div>
+          ) : (
+            <div className="property-input">
+              <label>Бюджет:</label>
+              <input
+                type="text"
+                defaultValue={budget}
+                key={`budget-${budget}`}
+                onBlur={(e) => setBudget(parseAmount(e.target.value))}
+              />
+            </div>
+          )}
+          <div className="property-input">
+            <label>Предел веса (0 - нет):</label>
+            <input
+              type="text"
+              defaultValue={weightLimit}
+              key={`weight-${weightLimit}`}
+              onBlur={(e) => setWeightLimit(parseAmount(e.target.value))}
+            />
+          </div>
+          <div className="property-input">
+            <label>Копий блока, не более:</label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_COPIES_LIMIT}
+              value={maxCopies}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                if (!isNaN(value)) {
+                  setMaxCopies(Math.max(1, Math.min(MAX_COPIES_LIMIT, value)));
+                }
+              }}
+            />
+          </div>
+        </div>
+
+        <p style={{ color: "#858585", fontSize: "12px", margin: "0 0 10px" }}>
+          Стоимость и вес блока задаются в его свойствах; блок без стоимости
+          считается стоимостью 1.
+        </p>
+
+        {progress !== null ? (
+          <div className="simulation-row">
+            <span className="info-label">Расчетов схемы: {progress}</span>
+            <button className="chip" onClick={stop}>
+              Остановить
+            </button>
+          </div>
+        ) : (
+          <button
+            className="chip"
+            disabled={blocks.length === 0}
+            onClick={run}
+          >
+            Рассчитать
+          </button>
+        )}
+
+        {error && <p className="simulation-error">Ошибка поиска: {error}</p>}
+
+        {plan && (
+          <div style={{ marginTop: "15px" }}>
+            <div className="info-grid">
+              <div className="info-item">
+                <span className="info-label">G сейчас:</span>
+                <span className="info-value">
+                  {current !== null ? formatReliability(current) : "-"}
+                </span>
+              </div>
+              <div className="info-item">
+                <span className="info-label">G с резервом:</span>
+                <span className="info-value">
+                  {formatReliability(plan.reliability)}
+                </span>
+              </div>
+              <div className="info-item">
+                <span className="info-label">Стоимость:</span>
+                <span className="info-value">{formatAmount(plan.cost)}</span>
+              </div>
+              <div className="info-item">
+                <span className="info-label">Вес:</span>
+                <span className="info-value">{formatAmount(plan.weight)}</span>
+              </div>
+            </div>
+
+            {!plan.feasible && (
+              <p className="block-warning" style={{ marginTop: "10px" }}>
+                Требуемая надежность недостижима в заданных ограничениях -
+                показано лучшее найденное решение
+              </p>
+            )}
+
+            {planBlocks.length > 0 ? (
+              <table className="results-table" style={{ marginTop: "10px" }}>
+                <thead>
+                  <tr>
+                    <th>Блок</th>
+                    <th>p</th>
+                    <th>Копий</th>
+                    <th>p с копиями</th>
+                    <th>Стоимость</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {planBlocks.map((block) => {
+                    const copies = plan.copies[block.id];
+                    return (
+                      <tr key={block.id}>
+                        <td>#{block.number}</td>
+                        <td>{formatReliability(block.reliability)}</td>
+                        <td>+{copies}</td>
+                        <td>
+                          {formatReliability(
+                            withCopies(block.reliability, copies),
+                          )}
+                        </td>
+                        <td>{formatAmount(copies * blockCost(block))}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <p style={{ color: "#858585", fontSize: "12px" }}>
+                Добавлять копии не нужно
+              </p>
+            )}
+
+            <p style={{ color: "#858585", fontSize: "12px", marginTop: "8px" }}>
+              {plan.method === "exact"
+                ? "Метод ветвей и границ (точный оптимум)"
+                : "Жадная эвристика (вариантов слишком много для точного поиска)"}
+              , расчетов схемы: {plan.evaluations}
+            </p>
+
+            <button
+              className="chip"
+              disabled={planBlocks.length === 0}
+              onClick={() => onApply(plan)}
+              title={
+                plan.copyKind === "parallel"
+                  ? "Добавить копии на схему параллельно исходным блокам"
+                  : "Добавить копии резервными блоками в группы резерва исходных блоков"
+              }
+            >
+              Применить к схеме
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RedundancyPanel;
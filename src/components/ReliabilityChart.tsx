@@ -0,0 +1,92 @@
+import React from "react";
+
+interface ReliabilityChartProps {
+  curve: Array<{ t: number; r: number }>;
+  missionTime: number;
+  width?: number;
+  height?: number;
+}
+
+const PADDING = { left: 36, right: 10, top: 10, bottom: 24 };
+
+/**
+ * График R(t) с отметкой времени миссии
+ */
+const ReliabilityChart: React.FC<ReliabilityChartProps> = ({
+  curve,
+  missionTime,
+  width = 310,
+  height = 180,
+}) => {
+  if (curve.length < 2) return null;
+
+  const tEnd = curve[curve.length - 1].t;
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const x = (t: number) => PADDING.left + (t / tEnd) * plotWidth;
+  const y = (r: number) => PADDING.top + (1 - r) * plotHeight;
+
+  const points = curve.map((p) => `${x(p.t)},${y(p.r)}`).join(" ");
+  const yTicks = [0, 0.25, 0.5, 0.75, 1];
+  const xTicks = [0, 0.25, 0.5, 0.75, 1].map((f) => f * tEnd);
+
+  const formatTime = (t: number) =>
+    t >= 10000 ? t.toExponential(1) : String(Math.round(t * 10) / 10);
+
+  return (
+    <svg width={width} height={height} className="reliability-chart">
+      {/* Сетка и подписи осей */}
+      {yTicks.map((r) => (
+        <g key={`y-${r}`}>
+          <line
+            x1={PADDING.left}
+            y1={y(r)}
+            x2={width - PADDING.right}
+            y2={y(r)}
+            stroke="#3e3e42"
+            strokeWidth="1"
+          />
+          <text
+            x={PADDING.left - 4}
+            y={y(r) + 3}
+            fontSize="9"
+            fill="#858585"
+            textAnchor="end"
+          >
+            {r}
+          </text>
+        </g>
+      ))}
+      {xTicks.map((t) => (
+        <text
+          key={`x-${t}`}
+          x={x(t)}
+          y={height - 8}
+          fontSize="9"
+          fill="#858585"
+          textAnchor="middle"
+        >
+          {formatTime(t)}
+        </text>
+      ))}
+
+      {/* Время миссии */}
+      {missionTime <= tEnd && (
+        <line
+          x1={x(missionTime)}
+          y1={PADDING.top}
+          x2={x(missionTime)}
+          y2={PADDING.top + plotHeight}
+          stroke="#dcdcaa"
+          strokeWidth="1"
+          strokeDasharray="4,3"
+        />
+      )}
+
+      <polyline points={points} fill="none" stroke="#4ec9b0" strokeWidth="2" />
+    </svg>
+  );
+};
+
+export default ReliabilityChart;
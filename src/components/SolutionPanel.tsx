@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from "react";
+import { Block } from "../types";
+import { ReductionOperand, ReductionStep, renderHtml } from "../formula";
+
+interface SolutionPanelProps {
+  blocks: Block[];
+  steps: ReductionStep[];
+  // Показанный шаг; steps.length - схема свернута целиком, null - решение скрыто
+  position: number | null;
+  onSetPosition: (position: number | null) => void;
+}
+
+const STEP_TITLES: Record<ReductionStep["kind"], string> = {
+  parallel: "Параллельное соединение",
+  series: "Последовательное соединение",
+  factoring: "Разложение несводимого фрагмента",
+};
+
+const formatValue = (value: number) => value.toFixed(6).replace(/\.?0+$/, "");
+
+// Пауза между шагами при автоматическом показе, мс
+const PLAY_INTERVAL = 1500;
+
+/**
+ * Пошаговое решение: свертка схемы по шагам с показом на холсте.
+ * На каждом шаге подсвечиваются сворачиваемые элементы и выводится
+ * формула эквивалентного блока, который их заменит. Шаги листаются
+ * кнопками или показываются подряд автоматически.
+ */
+const SolutionPanel: React.FC<SolutionPanelProps> = ({
+  blocks,
+  steps,
+  position,
+  onSetPosition,
+}) => {
+  const [playing, setPlaying] = useState(false);
+
+  // Автоматический показ останавливается на итоге
+  useEffect(() => {
+    if (!playing || position === null) return;
+    if (position >= steps.length) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => onSetPosition(position + 1), PLAY_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [playing, position, steps.length, onSetPosition]);
+
+  if (position === null) {
+    return (
+      <div className="report-export">
+        <button
+          className="chip"
+          onClick={() => {
+            setPlaying(false);
+            onSetPosition(0);
+          }}
+          title="Показать свертку схемы по шагам на холсте"
+        >
+          Показать решение
+        </button>
+      </div>
+    );
+  }
+
+  const blockNumber = (id: string) =>
+    blocks.find((b) => b.id === id)?.number ?? "?";
+  const describe = (operand: ReductionOperand) =>
+    operand.step !== null
+      ? steps[operand.step].label
+      : operand.blockIds.length === 1
+        ? `блок ${blockNumber(operand.blockIds[0])}`
+        : `группа резерва {${operand.blockIds.map(blockNumber).join(", ")}}`;
+
+  const step = steps[position];
+  const last = steps[steps.length - 1];
+
+  return (
+    <div className="solution-panel">
+      <div className="solution-controls">
+        <button
+          className="chip"
+          disabled={position === 0}
+          onClick={() => {
+            setPlaying(false);
+            onSetPosition(position - 1);
+          }}
+        >
+          ← Назад
+        </button>
+        <span className="info-label">
+          {steps.length === 0
+            ? "Шагов нет"
+            : step
+              ? `Шаг ${position + 1} из ${steps.length}`
+              : "Итог"}
+        </span>
+        <button
+          className="chip"
+          disabled={position >= steps.length}
+          onClick={() => {
+            setPlaying(false);
+            onSetPosition(position + 1);
+          }}
+        >
+          Вперед →
+        </button>
+        <button
+          className={`chip ${playing ? "active" : ""}`}
+          disabled={steps.length === 0}
+          onClick={() => {
+            // Показ с начала, если схема уже свернута
+            if (!playing && position >= steps.length) onSetPosition(0);
+            setPlaying(!playing);
+          }}
+          title="Показать шаги подряд"
+        >
+          {playing ? "Пауза" : "Показ"}
+        </button>
+        <button
+          className="delete-connection-btn"
+          style={{ marginLeft: "auto" }}
+          onClick={() => {
+            setPlaying(false);
+            onSetPosition(null);
+          }}
+          title="Скрыть решение"
+        >
+          ×
+        </button>
+      </div>
+
+      {steps.length === 0 && (
+        <p className="solution-note">
+          Свертки нет: схема состоит из одного элемента или считается по
+          формуле Бернулли для резерва всей системы
+        </p>
+      )}
+
+      {step && (
+        <>
+          <p className="solution-note">
+            {STEP_TITLES[step.kind]}: {step.operands.map(describe).join(", ")}
+          </p>
+          <div
+            className="solution-formula"
+            dangerouslySetInnerHTML={{
+              __html: `${renderHtml(step.general)}<br/>${renderHtml(step.withValues)}`,
+            }}
+          />
+        </>
+      )}
+
+      {!step && last && (
+        <p className="solution-note">
+          Схема свернута в один блок {last.label}: G ={" "}
+          {formatValue(last.reliability)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SolutionPanel;
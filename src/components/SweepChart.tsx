@@ -0,0 +1,185 @@
+import React from "react";
+import { SweepResult } from "../types";
+
+interface SweepChartProps {
+  result: SweepResult;
+  xLabel: string;
+  yLabel: string | null;
+  width?: number;
+  height?: number;
+}
+
+const PADDING = { left: 44, right: 10, top: 10, bottom: 30 };
+const LEGEND_HEIGHT = 8;
+
+// Цвет тепловой карты: от красного (наименьшая надежность) к зеленому (наибольшая)
+const heatColor = (k: number) => `hsl(${Math.round(120 * k)}, 65%, 40%)`;
+
+const formatValue = (value: number) => String(Math.round(value * 1e4) / 1e4);
+
+/**
+ * График надежности системы от одного параметра или тепловая карта
+ * от двух. Шкала надежности подбирается по диапазону значений.
+ */
+const SweepChart: React.FC<SweepChartProps> = ({
+  result,
+  xLabel,
+  yLabel,
+  width = 340,
+  height = 220,
+}) => {
+  const { x, y, values } = result;
+  if (x.length < 2) return null;
+
+  const all = values.flat();
+  const gMin = Math.min(...all);
+  const gMax = Math.max(...all);
+  const gSpan = gMax - gMin || 1;
+
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const xStart = x[0];
+  const xSpan = x[x.length - 1] - xStart || 1;
+  const px = (value: number) =>
+    PADDING.left + ((value - xStart) / xSpan) * plotWidth;
+
+  const xTicks = [0, 0.5, 1].map((f) => xStart + f * xSpan);
+  const xAxis = (
+    <>
+      {xTicks.map((value) => (
+        <text
+          key={`x-${value}`}
+          x={px(value)}
+          y={PADDING.top + plotHeight + 12}
+          fontSize="9"
+          fill="#858585"
+          textAnchor="middle"
+        >
+          {formatValue(value)}
+        </text>
+      ))}
+      <text
+        x={PADDING.left + plotWidth / 2}
+        y={height - 4}
+        fontSize="10"
+        fill="#cccccc"
+        textAnchor="middle"
+      >
+        {xLabel}
+      </text>
+    </>
+  );
+
+  if (!y) {
+    const py = (g: number) =>
+      PADDING.top + (1 - (g - gMin) / gSpan) * plotHeight;
+    const gTicks = [0, 0.25, 0.5, 0.75, 1].map((f) => gMin + f * gSpan);
+    const points = x.map((value, i) => `${px(value)},${py(values[0][i])}`);
+
+    return (
+      <svg width={width} height={height} className="reliability-chart">
+        {gTicks.map((g) => (
+          <g key={`g-${g}`}>
+            <line
+              x1={PADDING.left}
+              y1={py(g)}
+              x2={width - PADDING.right}
+              y2={py(g)}
+              stroke="#3e3e42"
+              strokeWidth="1"
+            />
+            <text
+              x={PADDING.left - 4}
+              y={py(g) + 3}
+              fontSize="9"
+              fill="#858585"
+              textAnchor="end"
+            >
+              {formatValue(g)}
+            </text>
+          </g>
+        ))}
+        {xAxis}
+        <polyline
+          points={points.join(" ")}
+          fill="none"
+          stroke="#4ec9b0"
+          strokeWidth="2"
+        />
+      </svg>
+    );
+  }
+
+  // Тепловая карта: клетка на каждую пару значений, ось y - снизу вверх
+  const mapHeight = plotHeight - LEGEND_HEIGHT - 6;
+  const cellWidth = plotWidth / x.length;
+  const cellHeight = mapHeight / y.length;
+  const yTicks = [0, y.length - 1];
+
+  return (
+    <svg width={width} height={height} className="reliability-chart">
+      {values.map((row, j) =>
+        row.map((g, i) => (
+          <rect
+            key={`${i}-${j}`}
+            x={PADDING.left + i * cellWidth}
+            y={PADDING.top + mapHeight - (j + 1) * cellHeight}
+            width={cellWidth + 0.5}
+            height={cellHeight + 0.5}
+            fill={heatColor((g - gMin) / gSpan)}
+          >
+            <title>
+              {`${xLabel} = ${formatValue(x[i])}, ${yLabel} = ${formatValue(y[j])}: G = ${g.toFixed(6)}`}
+            </title>
+          </rect>
+        )),
+      )}
+      {yTicks.map((j) => (
+        <text
+          key={`y-${j}`}
+          x={PADDING.left - 4}
+          y={PADDING.top + mapHeight - (j + 0.5) * cellHeight + 3}
+          fontSize="9"
+          fill="#858585"
+          textAnchor="end"
+        >
+          {formatValue(y[j])}
+        </text>
+      ))}
+      <text
+        x={10}
+        y={PADDING.top + mapHeight / 2}
+        fontSize="10"
+        fill="#cccccc"
+        textAnchor="middle"
+        transform={`rotate(-90 10 ${PADDING.top + mapHeight / 2})`}
+      >
+        {yLabel}
+      </text>
+
+      {/* Шкала цветов */}
+      {Array.from({ length: 20 }, (_, k) => (
+        <rect
+          key={`legend-${k}`}
+          x={PADDING.left + (k * plotWidth) / 20}
+          y={PADDING.top + plotHeight - LEGEND_HEIGHT}
+          width={plotWidth / 20 + 0.5}
+          height={LEGEND_HEIGHT}
+          fill={heatColor(k / 19)}
+        />
+      ))}
+      <text
+        x={PADDING.left - 4}
+        y={PADDING.top + plotHeight - 1}
+        fontSize="9"
+        fill="#858585"
+        textAnchor="end"
+      >
+        G
+      </text>
+      {xAxis}
+    </svg>
+  );
+};
+
+export default SweepChart;
@@ -0,0 +1,259 @@
+import React, { useEffect, useState } from "react";
+import {
+  Block,
+  CalculationPrecision,
+  Connection,
+  ReserveGroup,
+  SweepAxis,
+  SweepParameter,
+  SweepResult,
+  Terminal,
+} from "../types";
+import {
+  MAX_HEATMAP_STEPS,
+  MAX_LINE_STEPS,
+  MIN_SWEEP_STEPS,
+  exportSweepCsv,
+  runSweep,
+  sweepParameterLabel,
+  sweepToCsv,
+} from "../sweep";
+import { normalizeReliability } from "../utils";
+import SweepChart from "./SweepChart";
+
+interface SweepPanelProps {
+  blocks: Block[];
+  connections: Connection[];
+  reserveGroups: ReserveGroup[];
+  terminals: Terminal[];
+  precision: CalculationPrecision; // Точность расчета из панели параметров
+  projectName: string;
+  onExportError: (error: unknown) => void;
+  onClose: () => void;
+}
+
+// Значение select: "all" или "block:<id>"; для второго параметра еще "none"
+const parameterValue = (parameter: SweepParameter) =>
+  parameter.kind === "all" ? "all" : `block:${parameter.blockId}`;
+
+const parseParameter = (value: string): SweepParameter =>
+  value.startsWith("block:")
+    ? { kind: "block", blockId: value.slice("block:".length) }
+    : { kind: "all" };
+
+const DEFAULT_RANGE = { from: 0.8, to: 0.99 };
+
+/**
+ * Анализ чувствительности: надежность системы при переборе надежности
+ * одного или двух блоков (или всех блоков сразу). Один параметр - график,
+ * два - тепловая карта.
+ */
+const SweepPanel: React.FC<SweepPanelProps> = ({
+  blocks,
+  connections,
+  reserveGroups,
+  terminals,
+  precision,
+  projectName,
+  onExportError,
+  onClose,
+}) => {
+  const [xAxis, setXAxis] = useState<SweepAxis>({
+    parameter: { kind: "all" },
+    ...DEFAULT_RANGE,
+    steps: 20,
+  });
+  const [yAxis, setYAxis] = useState<SweepAxis | null>(null);
+  const [result, setResult] = useState<SweepResult | null>(null);
+
+  // Схема изменилась - прежний результат больше не относится к ней
+  useEffect(() => {
+    setResult(null);
+  }, [blocks, connections, reserveGroups, terminals, precision]);
+
+  // Удаленный блок в параметре заменяется на "все блоки"
+  const exists = (axis: SweepAxis | null) =>
+    !axis ||
+    axis.parameter.kind === "all" ||
+    blocks.some(
+      (b) => axis.parameter.kind === "block" && b.id === axis.parameter.blockId,
+    );
+  useEffect(() => {
+    if (!exists(xAxis)) setXAxis({ ...xAxis, parameter: { kind: "all" } });
+    if (!exists(yAxis)) setYAxis(null);
+  }, [blocks]);
+
+  const maxSteps = yAxis ? MAX_HEATMAP_STEPS : MAX_LINE_STEPS;
+  const clampSteps = (steps: number) =>
+    Math.max(MIN_SWEEP_STEPS, Math.min(maxSteps, steps));
+
+  const xLabel = sweepParameterLabel(xAxis.parameter, blocks);
+  const yLabel = yAxis ? sweepParameterLabel(yAxis.parameter, blocks) : null;
+
+  const run = () => {
+    setResult(
+      runSweep(
+        blocks,
+        connections,
+        reserveGroups,
+        terminals,
+        { ...xAxis, steps: clampSteps(xAxis.steps) },
+        yAxis && { ...yAxis, steps: clampSteps(yAxis.steps) },
+        precision,
+      ),
+    );
+  };
+
+  const exportCsv = async () => {
+    if (!result) return;
+    try {
+      await exportSweepCsv(
+        sweepToCsv(result, xLabel, yLabel),
+        `${projectName} - чувствительность`,
+      );
+    } catch (error) {
+      onExportError(error);
+    }
+  };
+
+  const renderAxis = (
+    axis: SweepAxis,
+    onChange: (axis: SweepAxis) => void,
+  ) => (
+    <div className="param-grid sweep-range">
+      <div className="property-input">
+        <label>От:</label>
+        <input
+          type="text"
+          defaultValue={axis.from}
+          key={`from-${axis.from}`}
+          onBlur={(e) =>
+            onChange({ ...axis, from: normalizeReliability(e.target.value) })
+          }
+        />
+      </div>
+      <div className="property-input">
+        <label>До:</label>
+        <input
+          type="text"
+          defaultValue={axis.to}
+          key={`to-${axis.to}`}
+          onBlur={(e) =>
+            onChange({ ...axis, to: normalizeReliability(e.target.value) })
+          }
+        />
+      </div>
+      <div className="property-input">
+        <label>Точек:</label>
+        <input
+          type="number"
+          min={MIN_SWEEP_STEPS}
+          max={maxSteps}
+          value={axis.steps}
+          onChange={(e) => {
+            const steps = parseInt(e.target.value, 10);
+            if (!isNaN(steps)) onChange({ ...axis, steps: clampSteps(steps) });
+          }}
+        />
+      </div>
+    </div>
+  );
+
+  const parameterOptions = blocks.map((block) => (
+    <option key={block.id} value={`block:${block.id}`}>
+      Блок #{block.number}
+    </option>
+  ));
+
+  const values = result ? result.values.flat() : [];
+
+  return (
+    <div className="side-panel">
+      <div className="panel-section">
+        <div className="side-panel-header">
+          <h2>Анализ чувствительности</h2>
+          <button className="delete-connection-btn" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        <div className="property-input">
+          <label>Параметр по оси x:</label>
+          <select
+            value={parameterValue(xAxis.parameter)}
+            onChange={(e) =>
+              setXAxis({ ...xAxis, parameter: parseParameter(e.target.value) })
+            }
+          >
+            <option value="all">Все блоки вместе</option>
+            {parameterOptions}
+          </select>
+        </div>
+        {renderAxis(xAxis, setXAxis)}
+
+        <div className="property-input">
+          <label>Второй параметр (тепловая карта):</label>
+          <select
+            value={yAxis ? parameterValue(yAxis.parameter) : "none"}
+            onChange={(e) => {
+              const value = e.target.value;
+              setYAxis(
+                value === "none"
+                  ? null
+                  : {
+                      ...DEFAULT_RANGE,
+                      steps: Math.min(xAxis.steps, MAX_HEATMAP_STEPS),
+                      ...yAxis,
+                      parameter: parseParameter(value),
+                    },
+              );
+              if (value !== "none" && xAxis.steps > MAX_HEATMAP_STEPS) {
+                setXAxis({ ...xAxis, steps: MAX_HEATMAP_STEPS });
+              }
+            }}
+          >
+            <option value="none">Нет</option>
+            <option value="all">Все блоки вместе</option>
+            {parameterOptions}
+          </select>
+        </div>
+        {yAxis && renderAxis(yAxis, setYAxis)}
+
+        <div className="report-export">
+          <button
+            className="chip"
+            disabled={blocks.length === 0}
+            onClick={run}
+          >
+            Построить
+          </button>
+          <button className="chip" disabled={!result} onClick={exportCsv}>
+            Экспорт CSV
+          </button>
+        </div>
+
+        {result && (
+          <div style={{ marginTop: "15px" }}>
+            <SweepChart result={result} xLabel={xLabel} yLabel={yLabel} />
+            <div className="info-grid" style={{ marginTop: "10px" }}>
+              <div className="info-item">
+                <span className="info-label">G min:</span>
+                <span className="info-value">
+                  {Math.min(...values).toFixed(6)}
+                </span>
+              </div>
+              <div className="info-item">
+                <span className="info-label">G max:</span>
+                <span className="info-value">
+                  {Math.max(...values).toFixed(6)}
+                </span>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SweepPanel;
@@ -0,0 +1,292 @@
+import React, { useMemo } from "react";
+import {
+  Block,
+  Connection,
+  ReserveGroup,
+  SystemParameters,
+  Terminal,
+} from "../types";
+import { normalizeReliability } from "../utils";
+import {
+  calculateSystemConfigurations,
+  calculateSystemReliability,
+} from "../calculations";
+
+interface SystemPanelProps {
+  blocks: Block[];
+  connections: Connection[];
+  reserveGroups: ReserveGroup[];
+  terminals: Terminal[];
+  params: SystemParameters;
+  onChangeParams: (params: SystemParameters) => void;
+  onClose: () => void;
+}
+
+const SystemPanel: React.FC<SystemPanelProps> = ({
+  blocks,
+  connections,
+  reserveGroups,
+  terminals,
+  params,
+  onChangeParams,
+  onClose,
+}) => {
+  // Надежность процессора по схеме на холсте
+  const schemeReliability = useMemo(() => {
+    if (blocks.length === 0) return null;
+    return calculateSystemReliability(
+      blocks,
+      connections,
+      reserveGroups,
+      terminals,
+    ).systemReliability;
+  }, [blocks, connections, reserveGroups, terminals]);
+
+  const processorReliability =
+    params.useSchemeReliability && schemeReliability !== null
+      ? schemeReliability
+      : params.processorReliability;
+
+  const results = useMemo(
+    () => calculateSystemConfigurations(params, processorReliability),
+    [params, processorReliability],
+  );
+
+  const update = (updates: Partial<SystemParameters>) => {
+    onChangeParams({ ...params, ...updates });
+  };
+
+  const parseCount = (value: string, min: number) => {
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) ? min : Math.max(min, Math.min(64, parsed));
+  };
+
+  const parseCost = (value: string) => {
+    const parsed = parseFloat(value.replace(",", "."));
+    return isNaN(parsed) ? 0 : Math.max(0, parsed);
+  };
+
+  const best = results.bestConfiguration;
+
+  return (
+    <div className="side-panel">
+      <div className="panel-section">
+        <div className="side-panel-header">
+          <h2>Вычислительная система</h2>
+          <button className="delete-connection-btn" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        <div
+          className="property-input"
+          style={{ flexDirection: "row", alignItems: "center" }}
+        >
+          <input
+            type="checkbox"
+            id="use-scheme-reliability"
+            checked={params.useSchemeReliability}
+            onChange={(e) =>
+              update({ useSchemeReliability: e.target.checked })
+            }
+            style={{ width: "auto", margin: 0 }}
+          />
+          <label htmlFor="use-scheme-reliability" style={{ cursor: "pointer" }}>
+            P<sub>np</sub> из схемы (
+            {schemeReliability !== null ? schemeReliability.toFixed(6) : "-"})
+          </label>
+        </div>
+
+        <div className="param-grid">
+          <div className="property-input">
+            <label>
+              P<sub>np</sub> процессора:
+            </label>
+            <input
+              type="text"
+              disabled={params.useSchemeReliability}
+              defaultValue={params.processorReliability}
+              key={`p-${params.processorReliability}`}
+              onBlur={(e) =>
+                update({
+                  processorReliability: normalizeReliability(e.target.value),
+                })
+              }
+            />
+          </div>
+          <div className="property-input">
+            <label>Нужно процессоров (m):</label>
+            <input
+              type="number"
+              min={1}
+              value={params.requiredProcessors}
+              onChange={(e) =>
+                update({ requiredProcessors: parseCount(e.target.value, 1) })
+              }
+            />
+          </div>
+          <div className="property-input">
+            <label>
+              N<sub>max</sub>:
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={params.maxProcessors}
+              onChange={(e) =>
+                update({ maxProcessors: parseCount(e.target.value, 1) })
+              }
+            />
+          </div>
+          <div className="property-input">
+            <label>Надежность памяти:</label>
+            <input
+              type="text"
+              defaultValue={params.memoryReliability}
+              key={`m-${params.memoryReliability}`}
+              onBlur={(e) =>
+                update({
+                  memoryReliability: normalizeReliability(e.target.value),
+                })
+              }
+            />
+          </div>
+          <div className="property-input">
+            <label>Надежность УВВ:</label>
+            <input
+              type="text"
+              defaultValue={params.uvvReliability}
+              key={`u-${params.uvvReliability}`}
+              onBlur={(e) =>
+                update({ uvvReliability: normalizeReliability(e.target.value) })
+              }
+            />
+          </div>
+          <div className="property-input">
+            <label>Цена процессора:</label>
+            <input
+              type="text"
+              defaultValue={params.processorCost}
+              key={`pc-${params.processorCost}`}
+              onBlur={(e) =>
+                update({ processorCost: parseCost(e.target.value) })
+              }
+            />
+          </div>
+          <div className="property-input">
+            <label>Цена памяти:</label>
+            <input
+              type="text"
+              defaultValue={params.memoryCost}
+              key={`mc-${params.memoryCost}`}
+              onBlur={(e) => update({ memoryCost: parseCost(e.target.value) })}
+            />
+          </div>
+          <div className="property-input">
+            <label>Цена УВВ:</label>
+            <input
+              type="text"
+              defaultValue={params.uvvCost}
+              key={`uc-${params.uvvCost}`}
+              onBlur={(e) => update({ uvvCost: parseCost(e.target.value) })}
+            />
+          </div>
+          <div className="property-input" style={{ gridColumn: "1 / -1" }}>
+            <label>Ограничение стоимости (0 - нет):</label>
+            <input
+              type="text"
+              defaultValue={params.costLimit}
+              key={`cl-${params.costLimit}`}
+              onBlur={(e) => update({ costLimit: parseCost(e.target.value) })}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Лучшая конфигурация */}
+      <div className="panel-section system-info">
+        <h2>Лучшая конфигурация</h2>
+        {best ? (
+          <div className="info-grid">
+            <div className="info-item">
+              <span className="info-label">N:</span>
+              <span className="info-value">{best.processorCount}</span>
+            </div>
+            <div className="info-item">
+              <span className="info-label">Стоимость:</span>
+              <span className="info-value">{best.cost}</span>
+            </div>
+            <div className="info-item">
+              <span className="info-label">
+                G<sub>вс</sub>:
+              </span>
+              <span className="info-value">
+                {best.computationalSystemReadiness.toFixed(6)}
+              </span>
+            </div>
+            <div className="info-item">
+              <span className="info-label">
+                E<sub>вс</sub>:
+              </span>
+              <span className="info-value">
+                {best.computationalSystemEfficiency.toFixed(6)}
+              </span>
+            </div>
+          </div>
+        ) : (
+          <p style={{ color: "#858585", fontSize: "13px" }}>
+            Нет конфигураций, удовлетворяющих ограничениям
+          </p>
+        )}
+      </div>
+
+      {/* Таблица конфигураций */}
+      <div className="panel-section">
+        <h2>Конфигурации</h2>
+        <div style={{ overflowX: "auto" }}>
+          <table className="results-table">
+            <thead>
+              <tr>
+                <th>N</th>
+                <th>
+                  G<sub>np</sub>
+                </th>
+                <th>
+                  E<sub>np</sub>
+                </th>
+                <th>
+                  G<sub>вс</sub>
+                </th>
+                <th>
+                  E<sub>вс</sub>
+                </th>
+                <th>Цена</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.configurations.map((c) => (
+                <tr
+                  key={c.processorCount}
+                  className={`${best?.processorCount === c.processorCount ? "best" : ""} ${!c.withinCostLimit ? "excluded" : ""}`}
+                >
+                  <td>{c.processorCount}</td>
+                  <td>{c.systemReadiness.toFixed(6)}</td>
+                  <td>{c.systemEfficiency.toFixed(6)}</td>
+                  <td>{c.computationalSystemReadiness.toFixed(6)}</td>
+                  <td>{c.computationalSystemEfficiency.toFixed(6)}</td>
+                  <td>{c.cost}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p style={{ color: "#858585", fontSize: "12px", marginTop: "10px" }}>
+          P<sub>np</sub> = {processorReliability.toFixed(6)}, P<sub>памяти</sub>{" "}
+          = {params.memoryReliability}, P<sub>УВВ</sub> = {params.uvvReliability}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default SystemPanel;
@@ -0,0 +1,514 @@
+import {
+  Block,
+  Connection,
+  ReserveGroup,
+  SchemeStructure,
+  Terminal,
+} from "./types";
+import { buildSchemeStructure, resolveReserveGroups } from "./calculations";
+import { arrangeScheme } from "./layout";
+import { SchemeView } from "./subsystem";
+
+/**
+ * Текстовое описание схемы, например
+ * series(1: 0.9, parallel(2, 3), kofn(2, 4, 5, 6)):
+ * series - последовательное соединение, parallel - параллельное,
+ * kofn(k, ...) - исправны хотя бы k блоков из перечисленных.
+ * Блок записывается номером, после двоеточия - его надежность.
+ */
+export type DslNode =
+  | { kind: "block"; number: number; reliability: number | null }
+  | { kind: "series"; items: DslNode[] }
+  | { kind: "parallel"; items: DslNode[] }
+  | { kind: "kofn"; k: number; items: DslNode[] }; // Только блоки
+
+type BlockLeaf = Extract<DslNode, { kind: "block" }>;
+
+// Надежность нового блока, если в тексте она не указана
+const DEFAULT_RELIABILITY = 0.95;
+// Длиннее - каждый аргумент с новой строки
+const MAX_LINE_LENGTH = 60;
+const INDENT = "  ";
+
+/**
+ * Ошибка разбора текста или перевода схемы в текст.
+ * offset - позиция ошибки в тексте (null, если ошибка не в тексте).
+ */
+export class DslError extends Error {
+  offset: number | null;
+
+  constructor(message: string, offset: number | null = null) {
+    super(message);
+    this.name = "DslError";
+    this.offset = offset;
+  }
+}
+
+/**
+ * Строка и столбец позиции в тексте (с единицы)
+ */
+export function textPosition(
+  text: string,
+  offset: number,
+): { line: number; column: number } {
+  const before = text.slice(0, offset).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/**
+ * Разбор текста схемы. Пустой текст - пустая схема (null).
+ */
+export function parseDsl(text: string): DslNode | null {
+  let pos = 0;
+  const numbers = new Set<number>();
+
+  const skipSpaces = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos += 1;
+  };
+  const expect = (char: string) => {
+    skipSpaces();
+    if (text[pos] !== char) {
+      throw new DslError(
+        pos < text.length
+          ? `Ожидался символ "${char}"`
+          : `Ожидался символ "${char}", а текст закончился`,
+        pos,
+      );
+    }
+    pos += 1;
+  };
+  const readMatch = (pattern: RegExp) => {
+    const match = pattern.exec(text.slice(pos));
+    if (!match) return null;
+    const start = pos;
+    pos += match[0].length;
+    return { value: match[0], start };
+  };
+
+  const parseBlock = (): DslNode => {
+    const numberToken = readMatch(/^\d+/)!;
+    const number = parseInt(numberToken.value, 10);
+    if (number < 1) {
+      throw new DslError(
+        "Номер блока должен быть больше нуля",
+        numberToken.start,
+      );
+    }
+    if (numbers.has(number)) {
+      throw new DslError(`Блок ${number} указан дважды`, numberToken.start);
+    }
+    numbers.add(number);
+
+    skipSpaces();
+    if (text[pos] !== ":") return { kind: "block", number, reliability: null };
+    pos += 1;
+    skipSpaces();
+    const valueToken = readMatch(/^(\d+(\.\d*)?|\.\d+)/);
+    if (!valueToken) {
+      throw new DslError("Ожидалась надежность блока", pos);
+    }
+    const reliability = parseFloat(valueToken.value);
+    if (reliability > 1) {
+      throw new DslError("Надежность должна быть от 0 до 1", valueToken.start);
+    }
+    return { kind: "block", number, reliability };
+  };
+
+  const parseNode = (): DslNode => {
+    skipSpaces();
+    if (/\d/.test(text[pos] ?? "")) return parseBlock();
+
+    const name = readMatch(/^[A-Za-z_]\w*/);
+    if (!name) {
+      throw new DslError(
+        pos < text.length
+          ? "Ожидался номер блока или series, parallel, kofn"
+          : "Текст закончился раньше времени",
+        pos,
+      );
+    }
+    if (!["series", "parallel", "kofn"].includes(name.value)) {
+      throw new DslError(
+        `Неизвестное соединение "${name.value}" (допустимы series, parallel, kofn)`,
+        name.start,
+      );
+    }
+
+    expect("(");
+    let k = 0;
+    if (name.value === "kofn") {
+      skipSpaces();
+      const kToken = readMatch(/^\d+/);
+      if (!kToken) throw new DslError("Ожидалось число k", pos);
+      k = parseInt(kToken.value, 10);
+      expect(",");
+    }
+
+    const items: DslNode[] = [];
+    const starts: number[] = [];
+    for (;;) {
+      skipSpaces();
+      starts.push(pos);
+      items.push(parseNode());
+      skipSpaces();
+      if (text[pos] === ",") {
+        pos += 1;
+        continue;
+      }
+      expect(")");
+      break;
+    }
+
+    if (name.value !== "kofn") {
+      return { kind: name.value as "series" | "parallel", items };
+    }
+    const nested = items.findIndex((item) => item.kind !== "block");
+    if (nested >= 0) {
+      throw new DslError("В kofn перечисляются только блоки", starts[nested]);
+    }
+    if (k < 1 || k > items.length) {
+      throw new DslError(`k должно быть от 1 до ${items.length}`, name.start);
+    }
+    return { kind: "kofn", k, items };
+  };
+
+  skipSpaces();
+  if (pos === text.length) return null;
+  const node = parseNode();
+  skipSpaces();
+  if (pos < text.length) {
+    throw new DslError("Лишний текст после описания схемы", pos);
+  }
+  return node;
+}
+
+const formatReliability = (value: number) =>
+  value.toFixed(6).replace(/\.?0+$/, "");
+
+/**
+ * Текст схемы. Короткие соединения пишутся в строку, длинные - с отступами.
+ */
+export function formatDsl(node: DslNode | null): string {
+  if (!node) return "";
+
+  const flat = (n: DslNode): string => {
+    if (n.kind === "block") {
+      return n.reliability === null
+        ? String(n.number)
+        : `${n.number}: ${formatReliability(n.reliability)}`;
+    }
+    const args = n.items.map(flat);
+    if (n.kind === "kofn") args.unshift(String(n.k));
+    return `${n.kind}(${args.join(", ")})`;
+  };
+
+  const pretty = (n: DslNode, indent: string): string => {
+    const line = flat(n);
+    if (n.kind === "block" || indent.length + line.length <= MAX_LINE_LENGTH) {
+      return indent + line;
+    }
+    const inner = indent + INDENT;
+    const args = n.items.map((item) => pretty(item, inner));
+    if (n.kind === "kofn") args.unshift(inner + n.k);
+    return `${indent}${n.kind}(\n${args.join(",\n")}\n${indent})`;
+  };
+
+  return pretty(node, "");
+}
+
+/**
+ * Описание схемы в виде дерева. Схема должна сводиться к последовательно-
+ * параллельной, группы резерва - охватывать целые звенья схемы.
+ * Бросает DslError, если схему нельзя записать текстом.
+ */
+export function schemeToDsl(
+  blocks: Block[],
+  connections: Connection[],
+  reserveGroups: ReserveGroup[],
+  terminals: Terminal[],
+): DslNode | null {
+  if (blocks.length === 0) return null;
+
+  const numbers = new Map(blocks.map((b) => [b.id, b.number]));
+  const blockNode = (id: string): DslNode => ({
+    kind: "block",
+    number: numbers.get(id)!,
+    reliability: blocks.find((b) => b.id === id)!.reliability,
+  });
+  const byNumber = (a: string, b: string) => numbers.get(a)! - numbers.get(b)!;
+
+  const convert = (structure: SchemeStructure): DslNode => {
+    switch (structure.kind) {
+      case "block":
+        return blockNode(structure.blockId);
+      case "series":
+        return { kind: "series", items: structure.items.map(convert) };
+      case "parallel": {
+        // Ветви - по наименьшему номеру блока, чтобы текст не менялся
+        // от порядка связей
+        const first = (n: DslNode) => Math.min(...numbersOf(n));
+        const items = structure.items
+          .map(convert)
+          .sort((a, b) => first(a) - first(b));
+        return { kind: "parallel", items };
+      }
+      case "network":
+        throw new DslError(
+          "Мостиковое соединение нельзя записать через series и parallel",
+        );
+    }
+  };
+
+  const structure = buildSchemeStructure(
+    blocks,
+    connections,
+    reserveGroups,
+    terminals,
+  );
+  let root = structure ? convert(structure) : null;
+
+  const used = new Set<number>();
+  const collect = (node: DslNode) => {
+    if (node.kind === "block") used.add(node.number);
+    else node.items.forEach(collect);
+  };
+  if (root) collect(root);
+
+  const groups = resolveReserveGroups(blocks, reserveGroups);
+  groups.forEach((group) => {
+    if (group.spareBlockIds.length === 0) return;
+    const spares = [...group.spareBlockIds].sort(byNumber).map(blockNode);
+
+    // Резерв всей системы: k из всех блоков схемы и запасных
+    if (group.targetBlockIds.length === 0) {
+      const main: BlockLeaf[] = [];
+      const flatten = (node: DslNode) => {
+        if (node.kind === "block") main.push(node);
+        else node.items.forEach(flatten);
+      };
+      if (root) flatten(root);
+      main.sort((a, b) => a.number - b.number);
+      root = { kind: "kofn", k: group.required, items: [...main, ...spares] };
+      spares.forEach(collect);
+      return;
+    }
+
+    const targets = new Set(group.targetBlockIds.map((id) => numbers.get(id)));
+    const kofn: DslNode = {
+      kind: "kofn",
+      k: group.required,
+      items: [
+        ...[...group.targetBlockIds].sort(byNumber).map(blockNode),
+        ...spares,
+      ],
+    };
+    const replaced = root && replaceGroup(root, targets, kofn);
+    if (!replaced) {
+      throw new DslError("Группа резерва охватывает не целое звено схемы");
+    }
+    root = replaced;
+    spares.forEach(collect);
+  });
+
+  const missing = blocks.find((b) => !used.has(b.number));
+  if (missing) {
+    throw new DslError(`Блок ${missing.number} не участвует в расчете`);
+  }
+  return root;
+}
+
+/**
+ * Номера блоков поддерева
+ */
+function numbersOf(node: DslNode): number[] {
+  return node.kind === "block" ? [node.number] : node.items.flatMap(numbersOf);
+}
+
+/**
+ * Заменяет на kofn звено, состоящее ровно из блоков группы: целый узел,
+ * несколько соседних ступеней последовательного соединения или несколько
+ * ветвей параллельного. null, если такого звена нет.
+ */
+function replaceGroup(
+  node: DslNode,
+  targets: Set<number | undefined>,
+  kofn: DslNode,
+): DslNode | null {
+  const covers = (items: DslNode[]) => {
+    const ids = items.flatMap(numbersOf);
+    return ids.length === targets.size && ids.every((n) => targets.has(n));
+  };
+  if (covers([node])) return kofn;
+  if (node.kind !== "series" && node.kind !== "parallel") return null;
+
+  const inside = node.items.map((item) =>
+    numbersOf(item).every((n) => targets.has(n)),
+  );
+  const first = inside.indexOf(true);
+  const last = inside.lastIndexOf(true);
+  const chosen = node.items.filter((_, idx) => inside[idx]);
+  const contiguous = inside.slice(first, last + 1).every(Boolean);
+  if (
+    first >= 0 &&
+    covers(chosen) &&
+    (node.kind === "parallel" || contiguous)
+  ) {
+    const items = node.items.filter((_, idx) => !inside[idx]);
+    items.splice(first, 0, kofn);
+    return { ...node, items };
+  }
+
+  for (let idx = 0; idx < node.items.length; idx++) {
+    const replaced = replaceGroup(node.items[idx], targets, kofn);
+    if (replaced) {
+      const items = [...node.items];
+      items[idx] = replaced;
+      return { ...node, items };
+    }
+  }
+  return null;
+}
+
+/**
+ * Схема по описанию: блоки с теми же номерами сохраняют id, модель отказов,
+ * подсистему и прочие свойства; надежность из текста заменяет прежнюю.
+ * Группа kofn(k, ...) становится группой резерва: первые k блоков включаются
+ * последовательно, остальные - запасные. Полюса схемы сохраняются
+ * и подключаются к началу и концу. Блоки расставляются автоматической
+ * раскладкой. stamp - основа для новых id.
+ */
+export function dslToScheme<T extends SchemeView>(
+  node: DslNode | null,
+  view: T,
+  stamp: number,
+): T {
+  const existing = new Map(view.blocks.map((b) => [b.number, b]));
+  const blocks: Block[] = [];
+  const connections: Connection[] = [];
+  const reserveGroups: ReserveGroup[] = [];
+
+  const nodes = [...view.blocks, ...view.terminals];
+  const origin = {
+    x: nodes.length > 0 ? Math.min(...nodes.map((n) => n.x)) : 0,
+    y: nodes.length > 0 ? Math.min(...nodes.map((n) => n.y)) : 0,
+  };
+
+  const addBlock = (leaf: BlockLeaf, isReserve: boolean): string => {
+    const old = existing.get(leaf.number);
+    let block: Block = old
+      ? { ...old, isReserve: isReserve || undefined }
+      : {
+          id: `block-${stamp}-${blocks.length}`,
+          number: leaf.number,
+          ...origin,
+          reliability: leaf.reliability ?? DEFAULT_RELIABILITY,
+          isReserve: isReserve || undefined,
+        };
+    // Значение из текста округлено - совпадающее с ним не трогаем
+    if (
+      old &&
+      leaf.reliability !== null &&
+      Math.abs(old.reliability - leaf.reliability) >= 5e-7
+    ) {
+      if (old.subsystem) {
+        throw new DslError(
+          `Надежность составного блока ${leaf.number} задается его подсистемой`,
+        );
+      }
+      block = {
+        ...block,
+        reliability: leaf.reliability,
+        failureModel: undefined,
+      };
+    }
+    blocks.push(block);
+    return block.id;
+  };
+
+  const connect = (
+    from: string,
+    fromSide: "left" | "right",
+    to: string,
+    toSide: "left" | "right",
+  ) =>
+    connections.push({
+      id: `conn-${stamp}-${connections.length}`,
+      fromBlockId: from,
+      toBlockId: to,
+      fromSide,
+      toSide,
+    });
+
+  // Строит звено и возвращает блоки его входной и выходной шины
+  const build = (n: DslNode): { inputs: string[]; outputs: string[] } => {
+    if (n.kind === "block") {
+      const id = addBlock(n, false);
+      return { inputs: [id], outputs: [id] };
+    }
+
+    if (n.kind === "kofn" && n.k < n.items.length) {
+      const leaves = n.items as BlockLeaf[];
+      const targetBlockIds = leaves
+        .slice(0, n.k)
+        .map((leaf) => addBlock(leaf, false));
+      targetBlockIds
+        .slice(1)
+        .forEach((id, idx) =>
+          connect(targetBlockIds[idx], "right", id, "left"),
+        );
+      reserveGroups.push({
+        id: `reserve-${stamp}-${reserveGroups.length}`,
+        targetBlockIds,
+        spareBlockIds: leaves.slice(n.k).map((leaf) => addBlock(leaf, true)),
+        required: n.k,
+      });
+      return {
+        inputs: [targetBlockIds[0]],
+        outputs: [targetBlockIds[n.k - 1]],
+      };
+    }
+
+    const parts = n.items.map(build);
+    if (n.kind === "parallel") {
+      parts.slice(1).forEach((part) => {
+        connect(parts[0].inputs[0], "left", part.inputs[0], "left");
+        connect(parts[0].outputs[0], "right", part.outputs[0], "right");
+      });
+      return {
+        inputs: parts.flatMap((p) => p.inputs),
+        outputs: parts.flatMap((p) => p.outputs),
+      };
+    }
+
+    // series и kofn(n, ...) - последовательное соединение
+    parts.slice(1).forEach((part, idx) =>
+      connect(parts[idx].outputs[0], "right", part.inputs[0], "left"),
+    );
+    return {
+      inputs: parts[0].inputs,
+      outputs: parts[parts.length - 1].outputs,
+    };
+  };
+
+  if (node) {
+    const ends = build(node);
+    const input = view.terminals.find((t) => t.kind === "input");
+    const output = view.terminals.find((t) => t.kind === "output");
+    if (input) connect(input.id, "right", ends.inputs[0], "left");
+    if (output) connect(ends.outputs[0], "right", output.id, "left");
+  }
+
+  const positions = arrangeScheme(
+    blocks,
+    connections,
+    reserveGroups,
+    view.terminals,
+  );
+  return {
+    ...view,
+    blocks: blocks.map((b) => ({ ...b, ...positions.get(b.id) })),
+    connections,
+    reserveGroups,
+    terminals: view.terminals.map((t) => ({ ...t, ...positions.get(t.id) })),
+  };
+}
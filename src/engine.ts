@@ -0,0 +1,137 @@
+import {
+  Block,
+  CalculationPrecision,
+  CalculationResults,
+  Connection,
+  Diagnostic,
+  ReserveGroup,
+  SystemParameters,
+  Terminal,
+} from "./types";
+import {
+  DEFAULT_PRECISION,
+  DEFAULT_SYSTEM_PARAMETERS,
+  buildReliabilityDerivation,
+  calculateSystemConfigurations,
+  calculateSystemReliability,
+} from "./calculations";
+import { ReliabilityDerivation, renderPlain } from "./formula";
+import { formatFixed } from "./rational";
+import { validateScheme } from "./validation";
+import { parseProject } from "./projectFormat";
+
+export { ProjectFormatError, parseProject } from "./projectFormat";
+export { renderLatex, renderPlain } from "./formula";
+export type { FormulaNode, ReliabilityDerivation } from "./formula";
+
+// Схема для расчета без интерфейса: один уровень, как в файле проекта.
+// Надежность блоков с моделью отказов уже пересчитана на время миссии.
+export interface EngineInput {
+  blocks: Block[];
+  connections: Connection[];
+  reserveGroups?: ReserveGroup[];
+  terminals?: Terminal[];
+  system?: SystemParameters; // По умолчанию DEFAULT_SYSTEM_PARAMETERS
+}
+
+// Компонент схемы: компоненты включены последовательно
+export interface EngineComponent {
+  blockIds: string[];
+  blockNumbers: number[];
+  reliability: number;
+}
+
+export interface EngineResult {
+  reliability: number; // G схемы
+  exactReliability: string | null; // В точном режиме - G с precision.digits знаками
+  efficiency: number | null; // E лучшей конфигурации вычислительной системы
+  components: EngineComponent[];
+  derivation: ReliabilityDerivation; // Формула в виде дерева
+  formula: { general: string[]; withValues: string[] }; // Та же формула текстом
+  system: CalculationResults; // Конфигурации вычислительной системы
+  diagnostics: Diagnostic[];
+  valid: boolean; // Нет замечаний с уровнем "ошибка"
+}
+
+/**
+ * Полный расчет схемы: надежность, компоненты, формула, конфигурации
+ * вычислительной системы и проверка схемы. Не зависит от интерфейса
+ * и Tauri, поэтому используется и в пакетной обработке.
+ */
+export function analyzeScheme(
+  input: EngineInput,
+  precision: CalculationPrecision = DEFAULT_PRECISION,
+): EngineResult {
+  const {
+    blocks,
+    connections,
+    reserveGroups = [],
+    terminals = [],
+    system = DEFAULT_SYSTEM_PARAMETERS,
+  } = input;
+
+  const { systemReliability, exactReliability, details } =
+    calculateSystemReliability(
+      blocks,
+      connections,
+      reserveGroups,
+      terminals,
+      precision,
+    );
+  const derivation = buildReliabilityDerivation(
+    blocks,
+    connections,
+    reserveGroups,
+    terminals,
+    precision,
+  );
+
+  // Как в панели вычислительной системы: P процессора - надежность схемы
+  const processorReliability =
+    system.useSchemeReliability && blocks.length > 0
+      ? systemReliability
+      : system.processorReliability;
+  const configurations = calculateSystemConfigurations(
+    system,
+    processorReliability,
+  );
+
+  const numbers = new Map(blocks.map((b) => [b.id, b.number]));
+  const diagnostics = validateScheme(blocks, connections, terminals);
+
+  return {
+    reliability: systemReliability,
+    exactReliability: exactReliability
+      ? formatFixed(exactReliability, precision.digits)
+      : null,
+    efficiency:
+      configurations.bestConfiguration?.computationalSystemEfficiency ?? null,
+    components: details.chains.map((chain) => ({
+      blockIds: chain.blocks,
+      blockNumbers: chain.blocks.map((id) => numbers.get(id) ?? 0),
+      reliability: chain.reliability,
+    })),
+    derivation,
+    formula: {
+      general: derivation.general.map(renderPlain),
+      withValues: [...derivation.reserveSteps, ...derivation.withValues].map(
+        renderPlain,
+      ),
+    },
+    system: configurations,
+    diagnostics,
+    valid: diagnostics.every((d) => d.severity !== "error"),
+  };
+}
+
+/**
+ * Расчет схемы из текста файла проекта (.vsproj или JSON того же формата).
+ * Бросает ProjectFormatError, если файл не разобран.
+ */
+export function analyzeProject(
+  text: string,
+  precision: CalculationPrecision = DEFAULT_PRECISION,
+): EngineResult {
+  const project = parseProject(text);
+  return analyzeScheme(project, precision);
+}
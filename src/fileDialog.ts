@@ -0,0 +1,34 @@
+import { SaveDialogOptions, save } from "@tauri-apps/api/dialog";
+import { writeTextFile } from "@tauri-apps/api/fs";
+
+/**
+ * Спрашивает путь через системный диалог сохранения и записывает файл.
+ * write получает выбранный путь и возвращает путь записанного файла
+ * (он может отличаться, например, добавленным расширением).
+ * Возвращает путь или null, если пользователь отменил выбор.
+ */
+export async function saveFile(
+  dialog: SaveDialogOptions,
+  write: (target: string) => Promise<string>,
+): Promise<string | null> {
+  const target = await save(dialog);
+  if (!target) return null;
+  return write(target);
+}
+
+/**
+ * Сохраняет текстовый файл через диалог. Содержимое можно строить
+ * по выбранному пути (например, имя проекта в метаданных).
+ */
+export function saveTextFile(
+  dialog: SaveDialogOptions,
+  contents: string | ((target: string) => string),
+): Promise<string | null> {
+  return saveFile(dialog, async (target) => {
+    await writeTextFile(
+      target,
+      typeof contents === "string" ? contents : contents(target),
+    );
+    return target;
+  });
+}
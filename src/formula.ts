@@ -0,0 +1,270 @@
+/**
+ * Дерево формулы расчета надежности. Одна и та же формула выводится
+ * в HTML (панель расчетов), LaTeX (отчет) и обычный текст.
+ */
+export type FormulaNode =
+  | { kind: "num"; text: string } // Число, уже отформатированное
+  | { kind: "var"; name: string; sub?: string; sup?: string } // p₁, G_np, P_k,n, Cₙᵏ
+  | { kind: "pow"; base: FormulaNode; exp: FormulaNode }
+  | { kind: "product"; factors: FormulaNode[] } // a × b × ...
+  | { kind: "sum"; terms: FormulaNode[] } // a + b + ...
+  | { kind: "diff"; left: FormulaNode; right: FormulaNode } // a - b
+  | { kind: "group"; body: FormulaNode; bracket: "round" | "square" }
+  | { kind: "eq"; sides: FormulaNode[] } // a = b = ...
+  | { kind: "text"; text: string } // Пояснение внутри строки (примечания)
+  | { kind: "seq"; items: FormulaNode[] }; // Текст вперемешку с формулами
+
+/**
+ * Структурированный вывод формулы надежности схемы
+ */
+export interface ReliabilityDerivation {
+  general: FormulaNode[]; // Общая формула и суммы групп резерва
+  reserveSteps: FormulaNode[]; // Расчет P(k,n) для групп резерва
+  withValues: FormulaNode[]; // Формула с подставленными значениями
+  notes: FormulaNode[]; // Примечания о методе расчета
+}
+
+// Элемент, участвующий в шаге свертки: блок, группа резерва
+// или эквивалентный блок, полученный на шаге step
+export interface ReductionOperand {
+  blockIds: string[];
+  step: number | null;
+}
+
+/**
+ * Шаг пошагового решения: несколько элементов схемы заменяются
+ * одним эквивалентным блоком
+ */
+export interface ReductionStep {
+  kind: "parallel" | "series" | "factoring";
+  label: string; // Обозначение эквивалентного блока: Э1, Э2, ...
+  operands: ReductionOperand[];
+  general: FormulaNode; // Э1 = p₁ × p₂
+  withValues: FormulaNode; // Э1 = 0.9 × 0.8 = 0.72
+  reliability: number;
+}
+
+export const num = (text: string): FormulaNode => ({ kind: "num", text });
+
+export const variable = (
+  name: string,
+  sub?: string,
+  sup?: string,
+): FormulaNode => ({ kind: "var", name, sub, sup });
+
+export const pow = (base: FormulaNode, exp: FormulaNode): FormulaNode => ({
+  kind: "pow",
+  base,
+  exp,
+});
+
+// Вложенные произведения разворачиваются: (a × b) × c = a × b × c
+export const product = (...factors: FormulaNode[]): FormulaNode => {
+  const flat = factors.flatMap((f) => (f.kind === "product" ? f.factors : [f]));
+  return flat.length === 1 ? flat[0] : { kind: "product", factors: flat };
+};
+
+export const sum = (...terms: FormulaNode[]): FormulaNode =>
+  terms.length === 1 ? terms[0] : { kind: "sum", terms };
+
+export const diff = (left: FormulaNode, right: FormulaNode): FormulaNode => ({
+  kind: "diff",
+  left,
+  right,
+});
+
+export const group = (
+  body: FormulaNode,
+  bracket: "round" | "square" = "round",
+): FormulaNode => ({ kind: "group", body, bracket });
+
+export const eq = (...sides: FormulaNode[]): FormulaNode => ({
+  kind: "eq",
+  sides,
+});
+
+export const text = (value: string): FormulaNode => ({
+  kind: "text",
+  text: value,
+});
+
+export const seq = (...items: FormulaNode[]): FormulaNode => ({
+  kind: "seq",
+  items,
+});
+
+/**
+ * Константа с заданным значением ("0" или "1")
+ */
+export function isConstant(node: FormulaNode, value: string): boolean {
+  return node.kind === "num" && node.text === value;
+}
+
+/**
+ * Копия формулы с переименованными индексами переменных
+ * (например, p₁ -> p₅.₁ при вложении формулы подсистемы)
+ */
+export function mapVariables(
+  node: FormulaNode,
+  fn: (v: { name: string; sub?: string; sup?: string }) => FormulaNode,
+): FormulaNode {
+  const map = (child: FormulaNode) => mapVariables(child, fn);
+  switch (node.kind) {
+    case "var":
+      return fn(node);
+    case "pow":
+      return { ...node, base: map(node.base), exp: map(node.exp) };
+    case "product":
+      return { ...node, factors: node.factors.map(map) };
+    case "sum":
+      return { ...node, terms: node.terms.map(map) };
+    case "diff":
+      return { ...node, left: map(node.left), right: map(node.right) };
+    case "group":
+      return { ...node, body: map(node.body) };
+    case "eq":
+      return { ...node, sides: node.sides.map(map) };
+    case "seq":
+      return { ...node, items: node.items.map(map) };
+    default:
+      return node;
+  }
+}
+
+// Сумма и разность внутри произведения или степени берутся в скобки
+function needsParens(node: FormulaNode): boolean {
+  return node.kind === "sum" || node.kind === "diff";
+}
+
+interface Syntax {
+  num: (text: string) => string;
+  var: (name: string, sub?: string, sup?: string) => string;
+  pow: (base: string, exp: string) => string;
+  times: string;
+  plus: string;
+  minus: string;
+  equals: string;
+  group: (body: string, bracket: "round" | "square") => string;
+  text: (value: string) => string;
+  // Формула внутри текста примечания
+  inline: (formula: string) => string;
+}
+
+function render(node: FormulaNode, syntax: Syntax): string {
+  const inner = (child: FormulaNode) => {
+    const rendered = render(child, syntax);
+    return needsParens(child) ? syntax.group(rendered, "round") : rendered;
+  };
+
+  switch (node.kind) {
+    case "num":
+      return syntax.num(node.text);
+    case "var":
+      return syntax.var(node.name, node.sub, node.sup);
+    case "pow":
+      return syntax.pow(
+        node.base.kind === "num" || node.base.kind === "var"
+          ? render(node.base, syntax)
+          : syntax.group(render(node.base, syntax), "round"),
+        render(node.exp, syntax),
+      );
+    case "product":
+      return node.factors.map(inner).join(syntax.times);
+    case "sum":
+      return node.terms.map((t) => render(t, syntax)).join(syntax.plus);
+    case "diff":
+      return `${render(node.left, syntax)}${syntax.minus}${inner(node.right)}`;
+    case "group":
+      return syntax.group(render(node.body, syntax), node.bracket);
+    case "eq":
+      return node.sides.map((s) => render(s, syntax)).join(syntax.equals);
+    case "text":
+      return syntax.text(node.text);
+    case "seq":
+      return node.items
+        .map((item) =>
+          item.kind === "text" || item.kind === "seq"
+            ? render(item, syntax)
+            : syntax.inline(render(item, syntax)),
+        )
+        .join("");
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+const HTML_SYNTAX: Syntax = {
+  num: (t) => t,
+  var: (name, sub, sup) =>
+    `${escapeHtml(name)}${sub ? `<sub>${escapeHtml(sub)}</sub>` : ""}${sup ? `<sup>${escapeHtml(sup)}</sup>` : ""}`,
+  pow: (base, exp) => `${base}<sup>${exp}</sup>`,
+  times: " × ",
+  plus: " + ",
+  minus: " - ",
+  equals: " = ",
+  group: (body, bracket) => (bracket === "round" ? `(${body})` : `[${body}]`),
+  text: escapeHtml,
+  inline: (f) => f,
+};
+
+// Индекс из цифр, запятых и точек остается в формуле, остальное - текстом (np, р1)
+function latexIndex(value: string): string {
+  return /^[0-9,.]+$/.test(value) ? value : `\\text{${value}}`;
+}
+
+function escapeLatex(value: string): string {
+  return value.replace(/[\\{}&%$#_^~]/g, (ch) =>
+    ch === "\\" ? "\\textbackslash{}" : `\\${ch}`,
+  );
+}
+
+const LATEX_SYNTAX: Syntax = {
+  num: (t) => t,
+  var: (name, sub, sup) =>
+    `${name}${sub ? `_{${latexIndex(sub)}}` : ""}${sup ? `^{${latexIndex(sup)}}` : ""}`,
+  pow: (base, exp) => `${base}^{${exp}}`,
+  times: " \\cdot ",
+  plus: " + ",
+  minus: " - ",
+  equals: " = ",
+  // Без \left/\right, чтобы длинная формула могла переноситься внутри скобок
+  group: (body, bracket) => (bracket === "round" ? `(${body})` : `[${body}]`),
+  text: escapeLatex,
+  inline: (f) => `$${f}$`,
+};
+
+const PLAIN_SYNTAX: Syntax = {
+  num: (t) => t,
+  var: (name, sub, sup) => {
+    const index = (v: string) => (/^[\p{L}\p{N}]+$/u.test(v) ? v : `{${v}}`);
+    return `${name}${sub ? `_${index(sub)}` : ""}${sup ? `^${index(sup)}` : ""}`;
+  },
+  pow: (base, exp) => `${base}^${exp}`,
+  times: " * ",
+  plus: " + ",
+  minus: " - ",
+  equals: " = ",
+  group: (body, bracket) => (bracket === "round" ? `(${body})` : `[${body}]`),
+  text: (t) => t,
+  inline: (f) => f,
+};
+
+export function renderHtml(node: FormulaNode): string {
+  return render(node, HTML_SYNTAX);
+}
+
+/**
+ * LaTeX без окружающих $...$ (кроме формул внутри текста примечаний)
+ */
+export function renderLatex(node: FormulaNode): string {
+  return render(node, LATEX_SYNTAX);
+}
+
+export function renderPlain(node: FormulaNode): string {
+  return render(node, PLAIN_SYNTAX);
+}
@@ -0,0 +1,84 @@
+import { BlockPort, Connection, PortPlacement } from "./types";
+import { findPort, portOffset } from "./ports";
+
+export const CELL_SIZE = 40; // размер одной клетки
+export const BLOCK_SIZE = 2; // блок (и полюс схемы) занимает 2x2 клетки
+
+// Положение на сетке: у блоков и полюсов схемы одинаковая геометрия.
+// ports - порты блока (у полюсов и обычных блоков их нет).
+export type GridPosition = { x: number; y: number; ports?: BlockPort[] };
+
+// Единичный шаг наружу от стороны блока
+const OUTWARD: Record<PortPlacement, { x: number; y: number }> = {
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+  top: { x: 0, y: -1 },
+  bottom: { x: 0, y: 1 },
+};
+
+/**
+ * Точка порта на границе блока (в пикселях) и сторона, на которой он стоит
+ */
+export function portAnchor(
+  node: GridPosition,
+  side: "left" | "right",
+  portId?: string,
+): { x: number; y: number; placement: PortPlacement } {
+  const port = findPort(node, side, portId);
+  const along = portOffset(node, port);
+  const cell = {
+    left: { x: node.x, y: node.y + along },
+    right: { x: node.x + BLOCK_SIZE, y: node.y + along },
+    top: { x: node.x + along, y: node.y },
+    bottom: { x: node.x + along, y: node.y + BLOCK_SIZE },
+  }[port.placement];
+  return {
+    x: cell.x * CELL_SIZE,
+    y: cell.y * CELL_SIZE,
+    placement: port.placement,
+  };
+}
+
+/**
+ * Точка на distance пикселей наружу от порта
+ */
+export function outwardPoint(
+  anchor: { x: number; y: number; placement: PortPlacement },
+  distance = CELL_SIZE,
+): { x: number; y: number } {
+  return {
+    x: anchor.x + OUTWARD[anchor.placement].x * distance,
+    y: anchor.y + OUTWARD[anchor.placement].y * distance,
+  };
+}
+
+/**
+ * Точки ломаной связи: от порта блока -> 1 клетка наружу -> поворот ->
+ * 1 клетка наружу от порта другого блока -> до порта
+ */
+export function connectionPoints(
+  conn: Connection,
+  fromBlock: GridPosition,
+  toBlock: GridPosition,
+): Array<{ x: number; y: number }> {
+  const from = portAnchor(fromBlock, conn.fromSide, conn.fromPort);
+  const to = portAnchor(toBlock, conn.toSide, conn.toPort);
+
+  // Отступ 1 клетка наружу от границы блока
+  const fromOffset = outwardPoint(from);
+  const toOffset = outwardPoint(to);
+
+  return [
+    { x: from.x, y: from.y },
+    fromOffset,
+    { x: fromOffset.x, y: toOffset.y },
+    toOffset,
+    { x: to.x, y: to.y },
+  ];
+}
+
+export function connectionPathData(points: Array<{ x: number; y: number }>) {
+  return points
+    .map((p, idx) => `${idx === 0 ? "M" : "L"} ${p.x} ${p.y}`)
+    .join(" ");
+}
@@ -0,0 +1,270 @@
+import {
+  Block,
+  Connection,
+  LibraryItem,
+  ReserveGroup,
+  SystemParameters,
+  Terminal,
+} from "./types";
+
+/**
+ * Состояние схемы, которое попадает в историю правок
+ */
+export interface SchemeState {
+  blocks: Block[];
+  connections: Connection[];
+  reserveGroups: ReserveGroup[];
+  terminals: Terminal[];
+  missionTime: number;
+  system: SystemParameters;
+  library: LibraryItem[];
+}
+
+// Коллекции сущностей с id: в команде хранятся только измененные элементы
+type EntityKey =
+  | "blocks"
+  | "connections"
+  | "reserveGroups"
+  | "terminals"
+  | "library";
+// Остальные поля состояния сравниваются целиком
+type ValueKey = Exclude<keyof SchemeState, EntityKey>;
+
+const ENTITY_KEYS: EntityKey[] = [
+  "blocks",
+  "connections",
+  "reserveGroups",
+  "terminals",
+  "library",
+];
+const VALUE_KEYS: ValueKey[] = ["missionTime", "system"];
+
+interface EntityChange<T> {
+  id: string;
+  before: T | null; // null - элемента не было (добавление)
+  after: T | null; // null - элемент удален
+  beforeIndex: number;
+  afterIndex: number;
+}
+
+type EntityChanges = {
+  [K in EntityKey]: EntityChange<SchemeState[K][number]>[];
+};
+
+interface ValueChange<T> {
+  before: T;
+  after: T;
+}
+
+type ValueChanges = {
+  [K in ValueKey]?: ValueChange<SchemeState[K]>;
+};
+
+/**
+ * Команда истории: обратимый набор изменений состояния схемы
+ */
+export interface SchemeCommand {
+  label: string;
+  mergeKey?: string; // Команды с одинаковым ключом подряд сливаются в одну
+  entities: EntityChanges;
+  values: ValueChanges;
+}
+
+function diffEntities<T extends { id: string }>(
+  before: T[],
+  after: T[],
+): EntityChange<T>[] {
+  const changes: EntityChange<T>[] = [];
+  const afterIndex = new Map(after.map((item, idx) => [item.id, idx]));
+  const beforeIndex = new Map(before.map((item, idx) => [item.id, idx]));
+
+  before.forEach((item, idx) => {
+    const nextIdx = afterIndex.get(item.id);
+    if (nextIdx === undefined) {
+      changes.push({
+        id: item.id,
+        before: item,
+        after: null,
+        beforeIndex: idx,
+        afterIndex: -1,
+      });
+    } else if (after[nextIdx] !== item) {
+      changes.push({
+        id: item.id,
+        before: item,
+        after: after[nextIdx],
+        beforeIndex: idx,
+        afterIndex: nextIdx,
+      });
+    }
+  });
+
+  after.forEach((item, idx) => {
+    if (!beforeIndex.has(item.id)) {
+      changes.push({
+        id: item.id,
+        before: null,
+        after: item,
+        beforeIndex: -1,
+        afterIndex: idx,
+      });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Применяет изменения к коллекции в прямом (redo) или обратном (undo) направлении
+ */
+function applyEntityChanges<T extends { id: string }>(
+  items: T[],
+  changes: EntityChange<T>[],
+  direction: "redo" | "undo",
+): T[] {
+  const target = (c: EntityChange<T>) =>
+    direction === "redo" ? c.after : c.before;
+  const targetIndex = (c: EntityChange<T>) =>
+    direction === "redo" ? c.afterIndex : c.beforeIndex;
+
+  const byId = new Map(changes.map((c) => [c.id, c]));
+
+  // Обновления и удаления
+  const result: T[] = [];
+  items.forEach((item) => {
+    const change = byId.get(item.id);
+    if (!change) {
+      result.push(item);
+      return;
+    }
+    const next = target(change);
+    if (next) result.push(next);
+  });
+
+  // Добавления - на исходные позиции
+  const present = new Set(items.map((item) => item.id));
+  changes
+    .filter((c) => !present.has(c.id) && target(c) !== null)
+    .sort((a, b) => targetIndex(a) - targetIndex(b))
+    .forEach((c) => {
+      const index = Math.min(Math.max(targetIndex(c), 0), result.length);
+      result.splice(index, 0, target(c)!);
+    });
+
+  return result;
+}
+
+function diffValue<K extends ValueKey>(
+  key: K,
+  before: SchemeState,
+  after: SchemeState,
+  values: ValueChanges,
+): void {
+  if (before[key] !== after[key]) {
+    (values as Partial<Record<K, ValueChange<SchemeState[K]>>>)[key] = {
+      before: before[key],
+      after: after[key],
+    };
+  }
+}
+
+function applyValue<K extends ValueKey>(
+  key: K,
+  state: SchemeState,
+  values: ValueChanges,
+  direction: "redo" | "undo",
+): void {
+  const change = values[key];
+  if (change) {
+    state[key] = direction === "redo" ? change.after : change.before;
+  }
+}
+
+/**
+ * Строит команду по состояниям до и после правки. null - если ничего не изменилось.
+ */
+export function createCommand(
+  label: string,
+  before: SchemeState,
+  after: SchemeState,
+  mergeKey?: string,
+): SchemeCommand | null {
+  const entities = {
+    blocks: diffEntities(before.blocks, after.blocks),
+    connections: diffEntities(before.connections, after.connections),
+    reserveGroups: diffEntities(before.reserveGroups, after.reserveGroups),
+    terminals: diffEntities(before.terminals, after.terminals),
+    library: diffEntities(before.library, after.library),
+  };
+
+  const values: ValueChanges = {};
+  VALUE_KEYS.forEach((key) => diffValue(key, before, after, values));
+
+  const isEmpty =
+    ENTITY_KEYS.every((key) => entities[key].length === 0) &&
+    Object.keys(values).length === 0;
+  if (isEmpty) return null;
+
+  return { label, mergeKey, entities, values };
+}
+
+export function applyCommand(
+  state: SchemeState,
+  command: SchemeCommand,
+  direction: "redo" | "undo",
+): SchemeState {
+  const next: SchemeState = {
+    ...state,
+    blocks: applyEntityChanges(
+      state.blocks,
+      command.entities.blocks,
+      direction,
+    ),
+    connections: applyEntityChanges(
+      state.connections,
+      command.entities.connections,
+      direction,
+    ),
+    reserveGroups: applyEntityChanges(
+      state.reserveGroups,
+      command.entities.reserveGroups,
+      direction,
+    ),
+    terminals: applyEntityChanges(
+      state.terminals,
+      command.entities.terminals,
+      direction,
+    ),
+    library: applyEntityChanges(
+      state.library,
+      command.entities.library,
+      direction,
+    ),
+  };
+
+  VALUE_KEYS.forEach((key) => applyValue(key, next, command.values, direction));
+
+  return next;
+}
+
+/**
+ * Сливает две последовательные команды в одну (например, шаги перетаскивания блока).
+ * Результат пересчитывается по крайним состояниям.
+ */
+export function mergeCommands(
+  previous: SchemeCommand,
+  next: SchemeCommand,
+  stateAfterNext: SchemeState,
+): SchemeCommand | null {
+  const stateBeforePrevious = applyCommand(
+    applyCommand(stateAfterNext, next, "undo"),
+    previous,
+    "undo",
+  );
+  return createCommand(
+    previous.label,
+    stateBeforePrevious,
+    stateAfterNext,
+    previous.mergeKey,
+  );
+}
@@ -0,0 +1,94 @@
+import {
+  Block,
+  BlockImportance,
+  Connection,
+  ImportanceMeasure,
+  ReserveGroup,
+  Terminal,
+} from "./types";
+import { calculateSystemReliability } from "./calculations";
+
+export const IMPORTANCE_LABELS: Record<ImportanceMeasure, string> = {
+  birnbaum: "Бирнбаум",
+  criticality: "Критичность",
+  raw: "RAW",
+  rrw: "RRW",
+};
+
+/**
+ * Отношение рисков (вероятностей отказа). Деление на ноль дает бесконечность,
+ * 0/0 - единицу (блок не влияет на риск).
+ */
+function riskRatio(numerator: number, denominator: number): number {
+  if (denominator > 0) return numerator / denominator;
+  return numerator > 0 ? Infinity : 1;
+}
+
+/**
+ * Показатели значимости каждого блока. G линейна по p_i, поэтому
+ * ∂G/∂p_i = G(p_i = 1) - G(p_i = 0); остальные показатели выражаются через те же величины
+ * (риск - вероятность отказа системы 1 - G):
+ * критичность = I_B × (1 - p_i) / (1 - G), RAW = (1 - G(p_i = 0)) / (1 - G),
+ * RRW = (1 - G) / (1 - G(p_i = 1)).
+ */
+export function calculateImportanceMeasures(
+  blocks: Block[],
+  connections: Connection[],
+  reserveGroups: ReserveGroup[] = [],
+  terminals: Terminal[] = [],
+): BlockImportance[] {
+  if (blocks.length === 0) return [];
+
+  const reliabilityWith = (blockId: string, p: number) =>
+    calculateSystemReliability(
+      blocks.map((b) => (b.id === blockId ? { ...b, reliability: p } : b)),
+      connections,
+      reserveGroups,
+      terminals,
+    ).systemReliability;
+
+  const g = calculateSystemReliability(
+    blocks,
+    connections,
+    reserveGroups,
+    terminals,
+  ).systemReliability;
+  const risk = 1 - g;
+
+  return blocks.map((block) => {
+    const gUp = reliabilityWith(block.id, 1);
+    const gDown = reliabilityWith(block.id, 0);
+    const birnbaum = Math.max(0, gUp - gDown);
+
+    return {
+      blockId: block.id,
+      birnbaum,
+      criticality:
+        risk > 0 ? Math.min(1, (birnbaum * (1 - block.reliability)) / risk) : 0,
+      raw: riskRatio(1 - gDown, risk),
+      rrw: riskRatio(risk, 1 - gUp),
+    };
+  });
+}
+
+/**
+ * Значения показателя, приведенные к [0, 1] для цветовой подсветки.
+ * Бесконечные значения считаются максимальными.
+ */
+export function normalizeImportance(
+  importance: BlockImportance[],
+  measure: ImportanceMeasure,
+): Map<string, number> {
+  const values = importance.map((item) => item[measure]);
+  const finite = values.filter((v) => isFinite(v));
+  const min = finite.length > 0 ? Math.min(...finite) : 0;
+  const max = finite.length > 0 ? Math.max(...finite) : 0;
+
+  return new Map(
+    importance.map((item) => {
+      const value = item[measure];
+      if (!isFinite(value)) return [item.blockId, 1];
+      return [item.blockId, max > min ? (value - min) / (max - min) : 0];
+    }),
+  );
+}
@@ -0,0 +1,256 @@
+import {
+  Block,
+  Connection,
+  ReserveGroup,
+  SchemeStructure,
+  Terminal,
+} from "./types";
+import { buildSchemeStructure } from "./calculations";
+import { BLOCK_SIZE } from "./geometry";
+
+// Шаг раскладки в клетках: блок, точки соединения и место под вертикальные шины
+const COLUMN_WIDTH = BLOCK_SIZE + 4;
+const ROW_HEIGHT = BLOCK_SIZE + 1;
+// Сколько блоков в ряду при поиске свободной клетки для нового блока
+const FREE_CELL_COLUMNS = 8;
+
+export type GridPositions = Map<string, { x: number; y: number }>;
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * Столбцы несводимого фрагмента: ребро стоит в столбце, равном длине
+ * самого длинного пути до его начального узла. Циклы не удлиняют путь
+ * больше, чем на число ребер.
+ */
+function networkColumns(
+  edges: Array<{ from: string; to: string; item: SchemeStructure }>,
+): SchemeStructure[][] {
+  const rank = new Map<string, number>();
+  edges.forEach((e) => {
+    rank.set(e.from, 0);
+    rank.set(e.to, 0);
+  });
+  for (let i = 0; i < edges.length; i++) {
+    let changed = false;
+    edges.forEach((e) => {
+      if (rank.get(e.to)! < rank.get(e.from)! + 1) {
+        rank.set(e.to, rank.get(e.from)! + 1);
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+
+  const columns: SchemeStructure[][] = [];
+  edges.forEach((e) => {
+    const column = rank.get(e.from)!;
+    while (columns.length <= column) columns.push([]);
+    columns[column].push(e.item);
+  });
+  return columns.filter((column) => column.length > 0);
+}
+
+function measure(node: SchemeStructure): Size {
+  switch (node.kind) {
+    case "block":
+      return { width: COLUMN_WIDTH, height: ROW_HEIGHT };
+    case "series": {
+      const sizes = node.items.map(measure);
+      return {
+        width: sizes.reduce((acc, s) => acc + s.width, 0),
+        height: Math.max(...sizes.map((s) => s.height)),
+      };
+    }
+    case "parallel": {
+      const sizes = node.items.map(measure);
+      return {
+        width: Math.max(...sizes.map((s) => s.width)),
+        height: sizes.reduce((acc, s) => acc + s.height, 0),
+      };
+    }
+    case "network": {
+      const columns = networkColumns(node.edges).map((column) =>
+        measure({ kind: "parallel", items: column }),
+      );
+      return {
+        width: columns.reduce((acc, s) => acc + s.width, 0),
+        height: Math.max(...columns.map((s) => s.height)),
+      };
+    }
+  }
+}
+
+/**
+ * Расставляет блоки структуры, начиная с левого верхнего угла (x, y):
+ * последовательные ступени - столбцами слева направо, параллельные ветви -
+ * друг под другом. Узлы меньшего размера центрируются.
+ */
+function place(
+  node: SchemeStructure,
+  x: number,
+  y: number,
+  positions: GridPositions,
+): void {
+  if (node.kind === "block") {
+    positions.set(node.blockId, { x, y });
+    return;
+  }
+
+  const items =
+    node.kind === "network"
+      ? networkColumns(node.edges).map(
+          (column): SchemeStructure => ({ kind: "parallel", items: column }),
+        )
+      : node.items;
+  const size = measure(node);
+  const vertical = node.kind === "parallel";
+
+  let offset = 0;
+  items.forEach((item) => {
+    const itemSize = measure(item);
+    if (vertical) {
+      place(
+        item,
+        x + Math.floor((size.width - itemSize.width) / 2),
+        y + offset,
+        positions,
+      );
+      offset += itemSize.height;
+    } else {
+      place(
+        item,
+        x + offset,
+        y + Math.floor((size.height - itemSize.height) / 2),
+        positions,
+      );
+      offset += itemSize.width;
+    }
+  });
+}
+
+/**
+ * Раскладка схемы по ее последовательно-параллельной структуре. Вход системы
+ * ставится слева от схемы, выход - справа; резервные блоки - отдельной полосой
+ * под схемой, блоки вне расчета - еще ниже. Левый верхний угол раскладки
+ * совпадает с углом текущей схемы. Возвращает новые положения блоков и полюсов.
+ */
+export function arrangeScheme(
+  blocks: Block[],
+  connections: Connection[],
+  reserveGroups: ReserveGroup[],
+  terminals: Terminal[],
+): GridPositions {
+  const nodes = [...blocks, ...terminals];
+  const originX = nodes.length > 0 ? Math.min(...nodes.map((n) => n.x)) : 0;
+  const originY = nodes.length > 0 ? Math.min(...nodes.map((n) => n.y)) : 0;
+
+  const positions: GridPositions = new Map();
+  const structure = buildSchemeStructure(
+    blocks,
+    connections,
+    reserveGroups,
+    terminals,
+  );
+  const size = structure ? measure(structure) : { width: 0, height: 0 };
+  const input = terminals.find((t) => t.kind === "input");
+  const output = terminals.find((t) => t.kind === "output");
+  const left = originX + (input ? COLUMN_WIDTH : 0);
+
+  if (structure) place(structure, left, originY, positions);
+  const poleY =
+    originY + Math.max(0, Math.floor((size.height - ROW_HEIGHT) / 2));
+  if (input) positions.set(input.id, { x: originX, y: poleY });
+  if (output) positions.set(output.id, { x: left + size.width, y: poleY });
+
+  // Полосы под схемой: резервные блоки, затем все остальные неразложенные
+  const rest = [...blocks]
+    .filter((b) => !positions.has(b.id))
+    .sort((a, b) => a.number - b.number);
+  const bands = [
+    rest.filter((b) => b.isReserve),
+    rest.filter((b) => !b.isReserve),
+  ];
+  let bandY = originY + size.height + (size.height > 0 ? ROW_HEIGHT : 0);
+  bands.forEach((band) => {
+    if (band.length === 0) return;
+    band.forEach((block, idx) =>
+      positions.set(block.id, { x: left + idx * COLUMN_WIDTH, y: bandY }),
+    );
+    bandY += 2 * ROW_HEIGHT;
+  });
+
+  return positions;
+}
+
+// Место для блока свободно, если не задевает блоки и полюса вместе
+// с их точками соединения
+function isCellFree(
+  nodes: Array<{ x: number; y: number }>,
+  x: number,
+  y: number,
+): boolean {
+  return nodes.every(
+    (n) =>
+      x + BLOCK_SIZE + 1 <= n.x - 1 ||
+      n.x + BLOCK_SIZE + 1 <= x - 1 ||
+      y + BLOCK_SIZE <= n.y ||
+      n.y + BLOCK_SIZE <= y,
+  );
+}
+
+/**
+ * Первая свободная клетка для нового блока: места перебираются рядами
+ * с шагом раскладки
+ */
+export function findFreeCell(
+  blocks: Block[],
+  terminals: Terminal[],
+): { x: number; y: number } {
+  const nodes = [...blocks, ...terminals];
+  for (let row = 0; ; row++) {
+    for (let column = 0; column < FREE_CELL_COLUMNS; column++) {
+      const x = column * COLUMN_WIDTH;
+      const y = row * ROW_HEIGHT;
+      if (isCellFree(nodes, x, y)) return { x, y };
+    }
+  }
+}
+
+/**
+ * Первая свободная клетка под точкой (x, y) в том же столбце - например,
+ * для параллельной копии блока
+ */
+export function findFreeCellBelow(
+  nodes: Array<{ x: number; y: number }>,
+  x: number,
+  y: number,
+): { x: number; y: number } {
+  for (let row = 1; ; row++) {
+    if (isCellFree(nodes, x, y + row * ROW_HEIGHT)) {
+      return { x, y: y + row * ROW_HEIGHT };
+    }
+  }
+}
+
+/**
+ * Промежуточные положения при анимации перехода from -> to, k в [0, 1]
+ */
+export function interpolatePositions(
+  from: GridPositions,
+  to: GridPositions,
+  k: number,
+): GridPositions {
+  const result: GridPositions = new Map();
+  to.forEach((target, id) => {
+    const start = from.get(id) ?? target;
+    result.set(id, {
+      x: start.x + (target.x - start.x) * k,
+      y: start.y + (target.y - start.y) * k,
+    });
+  });
+  return result;
+}
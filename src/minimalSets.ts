@@ -0,0 +1,229 @@
+import {
+  Block,
+  Connection,
+  MinimalSet,
+  MinimalSetKind,
+  MinimalSetsResult,
+  NetworkEdge,
+  ReserveGroup,
+  Terminal,
+} from "./types";
+import { buildReliabilityNetwork } from "./calculations";
+
+// Наибольшее число наборов одного вида (защита от экспоненциального роста)
+const MAX_SETS = 2000;
+
+/**
+ * Число сочетаний C(n, k)
+ */
+function combinationCount(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+  let count = 1;
+  for (let i = 0; i < Math.min(k, n - k); i++) {
+    count = (count * (n - i)) / (i + 1);
+  }
+  return Math.round(count);
+}
+
+function allCombinations(items: string[], size: number): string[][] {
+  if (size <= 0) return [[]];
+  if (size > items.length) return [];
+  const [first, ...rest] = items;
+  return [
+    ...allCombinations(rest, size - 1).map((c) => [first, ...c]),
+    ...allCombinations(rest, size),
+  ];
+}
+
+/**
+ * Все сочетания из items по size. null, если их больше MAX_SETS: число
+ * сочетаний проверяется до перечисления, чтобы не строить миллионы наборов.
+ */
+function combinations(items: string[], size: number): string[][] | null {
+  if (combinationCount(items.length, size) > MAX_SETS) return null;
+  return allCombinations(items, size);
+}
+
+/**
+ * Оставляет только минимальные наборы: убирает наборы, содержащие другой набор
+ */
+function minimize(sets: string[][]): string[][] {
+  const unique = new Map<string, string[]>();
+  sets.forEach((set) => {
+    const sorted = [...new Set(set)].sort();
+    unique.set(sorted.join(","), sorted);
+  });
+
+  const result: string[][] = [];
+  [...unique.values()]
+    .sort((a, b) => a.length - b.length)
+    .forEach((set) => {
+      const members = new Set(set);
+      if (!result.some((kept) => kept.every((id) => members.has(id)))) {
+        result.push(set);
+      }
+    });
+  return result;
+}
+
+/**
+ * Наборы для всех вариантов выбора: из каждого списка берется по одному набору.
+ * null, если наборов больше MAX_SETS.
+ */
+function product(lists: string[][][]): string[][] | null {
+  let result: string[][] = [[]];
+  for (const list of lists) {
+    result = result.flatMap((set) => list.map((item) => [...set, ...item]));
+    if (result.length > MAX_SETS) return null;
+  }
+  return result;
+}
+
+/**
+ * Минимальные пути двухполюсной сети: простые пути source -> sink по
+ * направлению ребер. Ребро-группа резерва "k из n" на пути требует исправности
+ * любых k своих блоков.
+ */
+function networkPaths(
+  edges: NetworkEdge[],
+  source: string,
+  sink: string,
+): string[][] | null {
+  const routes: NetworkEdge[][] = [];
+  const visited = new Set<string>([source]);
+  const walk = (node: string, route: NetworkEdge[]) => {
+    if (routes.length > MAX_SETS) return;
+    if (node === sink) {
+      routes.push(route);
+      return;
+    }
+    edges.forEach((e) => {
+      if (e.from !== node || visited.has(e.to)) return;
+      visited.add(e.to);
+      walk(e.to, [...route, e]);
+      visited.delete(e.to);
+    });
+  };
+  walk(source, []);
+  if (routes.length > MAX_SETS) return null;
+
+  const paths: string[][] = [];
+  for (const route of routes) {
+    const choices = route.map((e) => combinations(e.blockIds, e.required));
+    if (choices.some((c) => c === null)) return null;
+    const variants = product(choices as string[][][]);
+    if (!variants) return null;
+    paths.push(...variants);
+    if (paths.length > MAX_SETS) return null;
+  }
+  return minimize(paths);
+}
+
+/**
+ * Минимальные сечения - минимальные наборы, пересекающиеся с каждым путем
+ * (последовательное построение трансверсалей, алгоритм Берже)
+ */
+function pathsToCuts(paths: string[][]): string[][] | null {
+  let cuts: string[][] = [[]];
+  for (const path of paths) {
+    const next: string[][] = [];
+    cuts.forEach((cut) => {
+      if (path.some((id) => cut.includes(id))) next.push(cut);
+      else path.forEach((id) => next.push([...cut, id]));
+    });
+    if (next.length > MAX_SETS * 10) return null;
+    cuts = minimize(next);
+    if (cuts.length > MAX_SETS) return null;
+  }
+  return cuts;
+}
+
+/**
+ * Минимальные пути и сечения схемы по той же сети на шинах, что и расчет
+ * надежности, и оценки Эзари-Прошана по ним:
+ * G ≥ ∏ по сечениям [1 - ∏ (1 - p<sub>i</sub>)],
+ * G ≤ 1 - ∏ по путям (1 - ∏ p<sub>i</sub>).
+ * Компоненты схемы включены последовательно: путь системы составляется из путей
+ * всех компонентов, сечение любого компонента - сечение системы.
+ */
+export function findMinimalSets(
+  blocks: Block[],
+  connections: Connection[],
+  reserveGroups: ReserveGroup[] = [],
+  terminals: Terminal[] = [],
+): MinimalSetsResult {
+  const network = buildReliabilityNetwork(
+    blocks,
+    connections,
+    reserveGroups,
+    terminals,
+  );
+
+  let paths: string[][] | null;
+  let cuts: string[][] | null;
+  if (network.whole) {
+    // Резерв всей системы: работают любые required блоков из всех
+    const { blockIds, required } = network.whole;
+    paths = combinations(blockIds, required);
+    cuts = combinations(blockIds, blockIds.length - required + 1);
+  } else {
+    if (
+      network.components.length === 0 ||
+      network.components.some((c) => c === null)
+    ) {
+      return { kind: "unsupported" };
+    }
+
+    const componentPaths: string[][][] = [];
+    cuts = [];
+    for (const component of network.components) {
+      const { edges, source, sink } = component!;
+      const own = networkPaths(edges, source, sink);
+      const ownCuts = own && pathsToCuts(own);
+      if (!own || !ownCuts) return { kind: "too-many" };
+      componentPaths.push(own);
+      cuts.push(...ownCuts);
+    }
+    paths = product(componentPaths);
+  }
+  if (!paths || !cuts || paths.length > MAX_SETS || cuts.length > MAX_SETS) {
+    return { kind: "too-many" };
+  }
+
+  const p = (id: string) => network.reliabilities[id] ?? 0;
+  const lowerBound = cuts.reduce(
+    (acc, cut) => acc * (1 - cut.reduce((q, id) => q * (1 - p(id)), 1)),
+    1,
+  );
+  const upperBound =
+    1 -
+    paths.reduce(
+      (acc, path) => acc * (1 - path.reduce((r, id) => r * p(id), 1)),
+      1,
+    );
+
+  const numbers = new Map(blocks.map((b) => [b.id, b.number]));
+  const toSets = (sets: string[][], kind: MinimalSetKind): MinimalSet[] =>
+    sets
+      .map((set) =>
+        [...set].sort((a, b) => numbers.get(a)! - numbers.get(b)!),
+      )
+      .sort((a, b) => {
+        if (a.length !== b.length) return a.length - b.length;
+        const diff = a.findIndex((id, i) => id !== b[i]);
+        return diff < 0 ? 0 : numbers.get(a[diff])! - numbers.get(b[diff])!;
+      })
+      .map((blockIds) => ({
+        id: `${kind}:${blockIds.join(",")}`,
+        kind,
+        blockIds,
+      }));
+
+  return {
+    kind: "sets",
+    paths: toSets(paths, "path"),
+    cuts: toSets(cuts, "cut"),
+    lowerBound,
+    upperBound,
+  };
+}
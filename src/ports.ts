@@ -0,0 +1,121 @@
+import { BlockPort, PortPlacement } from "./types";
+
+// Больше портов на одной стороне блока 2x2 не помещается
+export const MAX_PORTS_PER_SIDE = 3;
+
+// Порты обычного блока: вход слева и выход справа
+export const DEFAULT_PORTS: BlockPort[] = [
+  { id: "in", name: "", kind: "input", placement: "left" },
+  { id: "out", name: "", kind: "output", placement: "right" },
+];
+
+// Положения портов вдоль стороны блока, в клетках от ее начала.
+// Узлы сетки с шагом в полклетки, чтобы связи трассировались к каждому порту.
+const PORT_OFFSETS = [[1], [0.5, 1.5], [0.5, 1, 1.5]];
+
+export const PLACEMENT_NAMES: Record<PortPlacement, string> = {
+  left: "Слева",
+  right: "Справа",
+  top: "Сверху",
+  bottom: "Снизу",
+};
+
+type WithPorts = { ports?: BlockPort[] };
+
+export function blockPorts(node: WithPorts): BlockPort[] {
+  return node.ports && node.ports.length > 0 ? node.ports : DEFAULT_PORTS;
+}
+
+export const portKind = (side: "left" | "right"): BlockPort["kind"] =>
+  side === "left" ? "input" : "output";
+
+export const portSide = (kind: BlockPort["kind"]): "left" | "right" =>
+  kind === "input" ? "left" : "right";
+
+/**
+ * Порт, к которому подключен конец связи. Связь без порта (или с портом,
+ * удаленным из блока) подключается к первому порту нужного вида.
+ */
+export function findPort(
+  node: WithPorts,
+  side: "left" | "right",
+  portId?: string,
+): BlockPort {
+  const ports = blockPorts(node).filter((p) => p.kind === portKind(side));
+  const port = ports.find((p) => p.id === portId) ?? ports[0];
+  return port ?? DEFAULT_PORTS[side === "left" ? 0 : 1];
+}
+
+/**
+ * Смещение порта вдоль своей стороны блока, в клетках
+ */
+export function portOffset(node: WithPorts, port: BlockPort): number {
+  const onSide = blockPorts(node).filter((p) => p.placement === port.placement);
+  const count = Math.min(Math.max(onSide.length, 1), MAX_PORTS_PER_SIDE);
+  const index = onSide.findIndex((p) => p.id === port.id);
+  return PORT_OFFSETS[count - 1][Math.max(0, Math.min(index, count - 1))];
+}
+
+// На стороне есть место для еще одного порта
+export const hasRoom = (ports: BlockPort[], placement: PortPlacement) =>
+  ports.filter((p) => p.placement === placement).length < MAX_PORTS_PER_SIDE;
+
+/**
+ * Порты блока с заданным числом входов и выходов. Существующие порты
+ * сохраняются, новые занимают свободное место, начиная с обычной стороны
+ * (входы - слева, выходы - справа). Один вход и один выход без имен
+ * на обычных местах - снова обычный блок без портов.
+ */
+export function resizePorts(
+  node: WithPorts,
+  inputs: number,
+  outputs: number,
+): BlockPort[] | undefined {
+  const current = blockPorts(node);
+  const ports: BlockPort[] = [];
+  const name = (kind: BlockPort["kind"], index: number) =>
+    `${kind === "input" ? "Вх" : "Вых"}${index + 1}`;
+  const add = (kind: BlockPort["kind"], count: number) => {
+    // Безымянный порт обычного блока получает имя, если портов несколько
+    const existing = current
+      .filter((p) => p.kind === kind)
+      .slice(0, count)
+      .map((p, i) =>
+        count > 1 && !p.name ? { ...p, name: name(kind, i) } : p,
+      );
+    ports.push(...existing);
+    const order: PortPlacement[] =
+      kind === "input"
+        ? ["left", "top", "bottom"]
+        : ["right", "bottom", "top"];
+    for (let i = existing.length; i < count; i++) {
+      const placement = order.find((side) => hasRoom(ports, side));
+      if (!placement) break;
+      const prefix = kind === "input" ? "in" : "out";
+      let n = i + 1;
+      const taken = (id: string) =>
+        [...current, ...ports].some((p) => p.id === id);
+      while (taken(`${prefix}${n}`)) n += 1;
+      ports.push({
+        id: `${prefix}${n}`,
+        name: name(kind, i),
+        kind,
+        placement,
+      });
+    }
+  };
+  add("input", inputs);
+  add("output", outputs);
+  return isDefaultPorts(ports) ? undefined : ports;
+}
+
+export function isDefaultPorts(ports: BlockPort[]): boolean {
+  return (
+    ports.length === 2 &&
+    DEFAULT_PORTS.every((d) =>
+      ports.some(
+        (p) => p.kind === d.kind && p.placement === d.placement && !p.name,
+      ),
+    )
+  );
+}
@@ -0,0 +1,55 @@
+import { open } from "@tauri-apps/api/dialog";
+import { readTextFile, writeTextFile } from "@tauri-apps/api/fs";
+import { ProjectFile } from "./types";
+import { PROJECT_EXTENSION, parseProject } from "./projectFormat";
+import { saveTextFile } from "./fileDialog";
+
+const FILE_FILTERS = [
+  { name: "Проект схемы", extensions: [PROJECT_EXTENSION] },
+  { name: "JSON", extensions: ["json"] },
+];
+
+/**
+ * Открывает файл проекта через системный диалог.
+ * Возвращает null, если пользователь отменил выбор.
+ */
+export async function openProjectFile(): Promise<{
+  path: string;
+  project: ProjectFile;
+} | null> {
+  const selected = await open({
+    title: "Открыть схему",
+    multiple: false,
+    filters: FILE_FILTERS,
+  });
+  if (typeof selected !== "string") return null;
+
+  const text = await readTextFile(selected);
+  return { path: selected, project: parseProject(text) };
+}
+
+/**
+ * Сохраняет проект. Если путь не задан (или выбран "Сохранить как"),
+ * спрашивает его через диалог. Содержимое строится уже после выбора пути,
+ * чтобы в метаданные попало имя нового файла.
+ * Возвращает путь сохраненного файла или null.
+ */
+export async function saveProjectFile(
+  path: string | null,
+  defaultName: string,
+  buildContents: (target: string) => string,
+): Promise<string | null> {
+  if (!path) {
+    return saveTextFile(
+      {
+        title: "Сохранить схему",
+        defaultPath: `${defaultName}.${PROJECT_EXTENSION}`,
+        filters: FILE_FILTERS,
+      },
+      buildContents,
+    );
+  }
+
+  await writeTextFile(path, buildContents(path));
+  return path;
+}
@@ -0,0 +1,485 @@
+import {
+  Block,
+  BlockPort,
+  Connection,
+  FailureModel,
+  LibraryItem,
+  ProjectFile,
+  ProjectMetadata,
+  ReserveGroup,
+  Subsystem,
+  SystemParameters,
+  Terminal,
+} from "./types";
+import { normalizeReliability } from "./utils";
+import {
+  DEFAULT_SYSTEM_PARAMETERS,
+  subsystemReliability,
+} from "./calculations";
+import { DEFAULT_MISSION_TIME, blockReliabilityAt } from "./reliabilityTime";
+import { DEFAULT_SUBSYSTEM_NAME, SchemeView } from "./subsystem";
+import { MAX_PORTS_PER_SIDE, isDefaultPorts } from "./ports";
+
+export const PROJECT_FORMAT = "vs-scheme";
+export const PROJECT_VERSION = 8;
+export const PROJECT_EXTENSION = "vsproj";
+
+/**
+ * Ошибка чтения файла проекта (поврежденный JSON, неизвестный формат и т.п.)
+ */
+export class ProjectFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectFormatError";
+  }
+}
+
+// Сырые данные из файла до миграции и нормализации
+type RawProject = Record<string, unknown>;
+
+/**
+ * Миграции между версиями формата: MIGRATIONS[v] переводит данные из версии v в v+1.
+ * При добавлении новых полей в Block/Connection нужно увеличить PROJECT_VERSION
+ * и добавить сюда шаг миграции.
+ */
+const MIGRATIONS: Record<number, (data: RawProject) => RawProject> = {
+  // 0 -> 1: ранние сохранения содержали только { blocks, connections } без метаданных
+  0: (data) => ({
+    ...data,
+    format: PROJECT_FORMAT,
+    version: 1,
+  }),
+  // 1 -> 2: добавлены параметры вычислительной системы
+  1: (data) => ({
+    ...data,
+    system: { ...DEFAULT_SYSTEM_PARAMETERS },
+    version: 2,
+  }),
+  // 2 -> 3: резервные блоки объединяются в группы резерва.
+  // Раньше любой резервный блок резервировал всю систему - переносим их в одну такую группу.
+  2: (data) => {
+    const blocks = Array.isArray(data.blocks) ? data.blocks : [];
+    const spareBlockIds = blocks
+      .filter((b) => isRecord(b) && b.isReserve === true)
+      .map((b) => (b as Record<string, unknown>).id);
+    return {
+      ...data,
+      reserveGroups:
+        spareBlockIds.length > 0
+          ? [
+              {
+                id: "reserve-system",
+                targetBlockIds: [],
+                spareBlockIds,
+                required: 0,
+              },
+            ]
+          : [],
+      version: 3,
+    };
+  },
+  // 3 -> 4: модели отказов блоков и время миссии. Старые блоки остаются с фиксированной p.
+  3: (data) => ({
+    ...data,
+    missionTime: DEFAULT_MISSION_TIME,
+    version: 4,
+  }),
+  // 4 -> 5: полюса схемы (вход и выход). Старые схемы остаются без них -
+  // началом считается блок с наименьшим номером, как и раньше.
+  4: (data) => ({
+    ...data,
+    terminals: [],
+    version: 5,
+  }),
+  // 5 -> 6: составные блоки (поле subsystem блока) и библиотека подсистем
+  5: (data) => ({
+    ...data,
+    library: [],
+    version: 6,
+  }),
+  // 6 -> 7: стоимость и вес блоков. Старые блоки остаются без них.
+  6: (data) => ({
+    ...data,
+    version: 7,
+  }),
+  // 7 -> 8: порты блоков и связей. Старые блоки остаются с одним входом
+  // и одним выходом, связи - без портов.
+  7: (data) => ({
+    ...data,
+    version: 8,
+  }),
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function migrateProject(data: RawProject): RawProject {
+  let current = data;
+  let version = typeof current.version === "number" ? current.version : 0;
+
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFormatError(
+      `Файл создан более новой версией программы (версия формата ${version})`,
+    );
+  }
+
+  while (version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new ProjectFormatError(`Нет миграции для версии формата ${version}`);
+    }
+    current = migrate(current);
+    version += 1;
+  }
+
+  return current;
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === "number" && isFinite(value) && value > 0;
+}
+
+function normalizeNonNegative(value: unknown): number | undefined {
+  return typeof value === "number" && isFinite(value) && value >= 0
+    ? value
+    : undefined;
+}
+
+function normalizeFailureModel(raw: unknown): FailureModel | undefined {
+  if (!isRecord(raw)) return undefined;
+  if (raw.kind === "exponential" && isPositive(raw.lambda)) {
+    return { kind: "exponential", lambda: raw.lambda };
+  }
+  if (raw.kind === "weibull" && isPositive(raw.beta) && isPositive(raw.eta)) {
+    return { kind: "weibull", beta: raw.beta, eta: raw.eta };
+  }
+  return undefined;
+}
+
+const PORT_PLACEMENTS = ["left", "right", "top", "bottom"] as const;
+
+function isPlacement(value: unknown): value is BlockPort["placement"] {
+  return PORT_PLACEMENTS.some((p) => p === value);
+}
+
+/**
+ * Порты блока: без повторов id и не больше MAX_PORTS_PER_SIDE на стороне.
+ * Блок без входа или выхода, как и с обычными портами, остается без портов.
+ */
+function normalizePorts(raw: unknown): BlockPort[] | undefined {
+  const ports: BlockPort[] = [];
+  (Array.isArray(raw) ? raw : []).forEach((item) => {
+    if (
+      !isRecord(item) ||
+      typeof item.id !== "string" ||
+      (item.kind !== "input" && item.kind !== "output") ||
+      !isPlacement(item.placement) ||
+      ports.some((p) => p.id === item.id) ||
+      ports.filter((p) => p.placement === item.placement).length >=
+        MAX_PORTS_PER_SIDE
+    ) {
+      return;
+    }
+    ports.push({
+      id: item.id,
+      name: typeof item.name === "string" ? item.name : "",
+      kind: item.kind,
+      placement: item.placement,
+    });
+  });
+  const complete =
+    ports.some((p) => p.kind === "input") &&
+    ports.some((p) => p.kind === "output");
+  return complete && !isDefaultPorts(ports) ? ports : undefined;
+}
+
+// Координата на сетке: холст не ограничен, отрицательные значения допустимы
+function normalizeCoordinate(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value)
+    ? Math.round(value)
+    : 0;
+}
+
+function normalizeBlock(
+  raw: unknown,
+  index: number,
+  missionTime: number,
+): Block {
+  if (!isRecord(raw) || typeof raw.id !== "string") {
+    throw new ProjectFormatError(`Некорректный блок #${index + 1}`);
+  }
+
+  const block: Block = {
+    id: raw.id,
+    number: typeof raw.number === "number" ? raw.number : index + 1,
+    x: normalizeCoordinate(raw.x),
+    y: normalizeCoordinate(raw.y),
+    reliability:
+      typeof raw.reliability === "number" || typeof raw.reliability === "string"
+        ? normalizeReliability(raw.reliability)
+        : 0.95,
+    isReserve: raw.isReserve === true ? true : undefined,
+    failureModel: normalizeFailureModel(raw.failureModel),
+    cost: normalizeNonNegative(raw.cost),
+    weight: normalizeNonNegative(raw.weight),
+    ports: normalizePorts(raw.ports),
+  };
+
+  // Надежность составного блока - надежность его подсистемы
+  if (isRecord(raw.subsystem)) {
+    const subsystem = normalizeSubsystem(raw.subsystem, missionTime);
+    return {
+      ...block,
+      failureModel: undefined,
+      subsystem,
+      reliability: subsystemReliability(subsystem),
+    };
+  }
+
+  // Надежность блока с моделью отказов всегда соответствует времени миссии
+  return block.failureModel
+    ? { ...block, reliability: blockReliabilityAt(block, missionTime) }
+    : block;
+}
+
+/**
+ * Полюса схемы: не больше одного входа и одного выхода
+ */
+function normalizeTerminals(raw: unknown): Terminal[] {
+  const terminals: Terminal[] = [];
+  (Array.isArray(raw) ? raw : []).forEach((item) => {
+    if (
+      !isRecord(item) ||
+      typeof item.id !== "string" ||
+      (item.kind !== "input" && item.kind !== "output") ||
+      terminals.some((t) => t.kind === item.kind || t.id === item.id)
+    ) {
+      return;
+    }
+    terminals.push({
+      id: item.id,
+      kind: item.kind,
+      x: normalizeCoordinate(item.x),
+      y: normalizeCoordinate(item.y),
+    });
+  });
+  return terminals;
+}
+
+function isSide(value: unknown): value is "left" | "right" {
+  return value === "left" || value === "right";
+}
+
+function normalizeConnection(
+  raw: unknown,
+  blockIds: Set<string>,
+): Connection | null {
+  if (
+    !isRecord(raw) ||
+    typeof raw.id !== "string" ||
+    typeof raw.fromBlockId !== "string" ||
+    typeof raw.toBlockId !== "string" ||
+    !isSide(raw.fromSide) ||
+    !isSide(raw.toSide)
+  ) {
+    return null;
+  }
+
+  // Связи на несуществующие блоки и полюса просто отбрасываем
+  if (!blockIds.has(raw.fromBlockId) || !blockIds.has(raw.toBlockId)) {
+    return null;
+  }
+
+  return {
+    id: raw.id,
+    fromBlockId: raw.fromBlockId,
+    toBlockId: raw.toBlockId,
+    fromSide: raw.fromSide,
+    toSide: raw.toSide,
+    fromPort: typeof raw.fromPort === "string" ? raw.fromPort : undefined,
+    toPort: typeof raw.toPort === "string" ? raw.toPort : undefined,
+  };
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function normalizeReserveGroup(
+  raw: unknown,
+  blockIds: Set<string>,
+): ReserveGroup | null {
+  if (
+    !isRecord(raw) ||
+    typeof raw.id !== "string" ||
+    !isStringArray(raw.targetBlockIds) ||
+    !isStringArray(raw.spareBlockIds)
+  ) {
+    return null;
+  }
+
+  return {
+    id: raw.id,
+    targetBlockIds: raw.targetBlockIds.filter((id) => blockIds.has(id)),
+    spareBlockIds: raw.spareBlockIds.filter((id) => blockIds.has(id)),
+    required:
+      typeof raw.required === "number" ? Math.max(0, Math.floor(raw.required)) : 0,
+  };
+}
+
+function normalizeSystem(raw: unknown): SystemParameters {
+  const source = isRecord(raw) ? raw : {};
+  const result = { ...DEFAULT_SYSTEM_PARAMETERS };
+
+  (Object.keys(result) as Array<keyof SystemParameters>).forEach((key) => {
+    const value = source[key];
+    if (typeof value === typeof result[key]) {
+      (result as Record<string, unknown>)[key] = value;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Блоки, связи, группы резерва и полюса одного уровня схемы
+ */
+function normalizeScheme(
+  data: RawProject,
+  missionTime: number,
+): SchemeView {
+  const blocks = (Array.isArray(data.blocks) ? data.blocks : []).map((b, i) =>
+    normalizeBlock(b, i, missionTime),
+  );
+  const blockIds = new Set(blocks.map((b) => b.id));
+  const terminals = normalizeTerminals(data.terminals).filter(
+    (t) => !blockIds.has(t.id),
+  );
+  const endpointIds = new Set([...blockIds, ...terminals.map((t) => t.id)]);
+  const connections = (Array.isArray(data.connections) ? data.connections : [])
+    .map((c) => normalizeConnection(c, endpointIds))
+    .filter((c): c is Connection => c !== null);
+  const reserveGroups = (
+    Array.isArray(data.reserveGroups) ? data.reserveGroups : []
+  )
+    .map((g) => normalizeReserveGroup(g, blockIds))
+    .filter((g): g is ReserveGroup => g !== null);
+
+  return { blocks, connections, reserveGroups, terminals };
+}
+
+function normalizeSubsystem(
+  raw: Record<string, unknown>,
+  missionTime: number,
+): Subsystem {
+  return {
+    name: typeof raw.name === "string" ? raw.name : DEFAULT_SUBSYSTEM_NAME,
+    ...normalizeScheme(raw, missionTime),
+  };
+}
+
+function normalizeLibraryItem(
+  raw: unknown,
+  missionTime: number,
+): LibraryItem | null {
+  if (!isRecord(raw) || typeof raw.id !== "string") return null;
+  return { id: raw.id, ...normalizeSubsystem(raw, missionTime) };
+}
+
+export function createProjectMetadata(name = "Новая схема"): ProjectMetadata {
+  const now = new Date().toISOString();
+  return { name, createdAt: now, updatedAt: now };
+}
+
+/**
+ * Разбирает текст файла проекта, применяя миграции до текущей версии
+ */
+export function parseProject(text: string): ProjectFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ProjectFormatError("Файл не является корректным JSON");
+  }
+
+  if (!isRecord(parsed)) {
+    throw new ProjectFormatError("Неизвестный формат файла");
+  }
+  if (parsed.format !== undefined && parsed.format !== PROJECT_FORMAT) {
+    throw new ProjectFormatError("Файл не является проектом схемы");
+  }
+
+  const data = migrateProject(parsed);
+
+  if (!Array.isArray(data.blocks) || !Array.isArray(data.connections)) {
+    throw new ProjectFormatError("В файле отсутствуют блоки или связи");
+  }
+
+  const missionTime = isPositive(data.missionTime)
+    ? data.missionTime
+    : DEFAULT_MISSION_TIME;
+  const scheme = normalizeScheme(data, missionTime);
+  const library = (Array.isArray(data.library) ? data.library : [])
+    .map((item) => normalizeLibraryItem(item, missionTime))
+    .filter((item): item is LibraryItem => item !== null);
+
+  const rawMeta = isRecord(data.metadata) ? data.metadata : {};
+  const fallbackMeta = createProjectMetadata();
+  const metadata: ProjectMetadata = {
+    name: typeof rawMeta.name === "string" ? rawMeta.name : fallbackMeta.name,
+    createdAt:
+      typeof rawMeta.createdAt === "string"
+        ? rawMeta.createdAt
+        : fallbackMeta.createdAt,
+    updatedAt:
+      typeof rawMeta.updatedAt === "string"
+        ? rawMeta.updatedAt
+        : fallbackMeta.updatedAt,
+  };
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    metadata,
+    ...scheme,
+    missionTime,
+    system: normalizeSystem(data.system),
+    library,
+  };
+}
+
+export function serializeProject(
+  scheme: {
+    blocks: Block[];
+    connections: Connection[];
+    reserveGroups: ReserveGroup[];
+    terminals: Terminal[];
+    missionTime: number;
+    system: SystemParameters;
+    library: LibraryItem[];
+  },
+  metadata: ProjectMetadata,
+): string {
+  const project: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    metadata,
+    blocks: scheme.blocks,
+    connections: scheme.connections,
+    reserveGroups: scheme.reserveGroups,
+    terminals: scheme.terminals,
+    missionTime: scheme.missionTime,
+    system: scheme.system,
+    library: scheme.library,
+  };
+  return JSON.stringify(project, null, 2);
+}
+
+/**
+ * Имя проекта по пути к файлу (без каталога и расширения)
+ */
+export function projectNameFromPath(path: string): string {
+  const fileName = path.split(/[\\/]/).pop() || path;
+  return fileName.replace(/\.[^.]+$/, "");
+}
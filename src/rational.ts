@@ -0,0 +1,120 @@
+/**
+ * Точная арифметика для расчета надежности: обыкновенные дроби на BigInt.
+ * Надежность блока задается десятичной дробью, поэтому переводится в дробь
+ * без потерь, а сложение и умножение дробей не дают ошибок округления.
+ */
+export interface Rational {
+  num: bigint;
+  den: bigint; // Всегда положительный, дробь несократима
+}
+
+// Значение в расчете: обычное число или точная дробь
+export type Real = number | Rational;
+
+const gcd = (a: bigint, b: bigint): bigint => {
+  let x = a < 0n ? -a : a;
+  let y = b < 0n ? -b : b;
+  while (y !== 0n) [x, y] = [y, x % y];
+  return x;
+};
+
+export function rational(num: bigint, den = 1n): Rational {
+  if (den === 0n) throw new RangeError("Знаменатель дроби равен нулю");
+  const sign = den < 0n ? -1n : 1n;
+  const d = gcd(num, den) || 1n;
+  return { num: (sign * num) / d, den: (sign * den) / d };
+}
+
+/**
+ * Дробь, в точности равная десятичной записи числа (0.95 -> 19/20).
+ * Берется кратчайшая запись, которую JavaScript печатает для числа,
+ * а не двоичное значение double.
+ */
+export function fromNumber(value: number): Rational {
+  if (!isFinite(value)) return rational(0n);
+  const match = /^(-?)(\d+)(?:\.(\d+))?(?:e([+-]\d+))?$/.exec(String(value));
+  if (!match) return rational(0n);
+  const [, sign, whole, fraction = "", exponent = "0"] = match;
+  const shift = Number(exponent) - fraction.length;
+  let num = BigInt(whole + fraction);
+  let den = 1n;
+  if (shift >= 0) num *= 10n ** BigInt(shift);
+  else den = 10n ** BigInt(-shift);
+  return rational(sign ? -num : num, den);
+}
+
+export const isRational = (value: Real): value is Rational =>
+  typeof value !== "number";
+
+export const toRational = (value: Real): Rational =>
+  isRational(value) ? value : fromNumber(value);
+
+export function toNumber(value: Real): number {
+  if (!isRational(value)) return value;
+  // Целая часть и 20 знаков после запятой: точнее, чем помещается в double
+  const scale = 10n ** 20n;
+  const scaled = (value.num * scale) / value.den;
+  return Number(scaled) / Number(scale);
+}
+
+/*
+ * Арифметика над Real: если хотя бы один аргумент - дробь, результат
+ * считается точно; два обычных числа складываются как раньше.
+ */
+
+export function plus(a: Real, b: Real): Real {
+  if (!isRational(a) && !isRational(b)) return a + b;
+  const x = toRational(a);
+  const y = toRational(b);
+  return rational(x.num * y.den + y.num * x.den, x.den * y.den);
+}
+
+export function minus(a: Real, b: Real): Real {
+  if (!isRational(a) && !isRational(b)) return a - b;
+  const y = toRational(b);
+  return plus(a, rational(-y.num, y.den));
+}
+
+export function times(a: Real, b: Real): Real {
+  if (!isRational(a) && !isRational(b)) return a * b;
+  const x = toRational(a);
+  const y = toRational(b);
+  return rational(x.num * y.num, x.den * y.den);
+}
+
+/**
+ * Десятичная запись с digits знаками после запятой, округление половины вверх.
+ * Дробь округляется точно, обычное число - через toFixed.
+ */
+export function formatFixed(value: Real, digits: number): string {
+  if (!isRational(value)) return value.toFixed(digits);
+  const negative = value.num < 0n;
+  const scaled = (negative ? -value.num : value.num) * 10n ** BigInt(digits);
+  let units = scaled / value.den;
+  if (2n * (scaled % value.den) >= value.den) units += 1n;
+
+  const digitsText = units.toString().padStart(digits + 1, "0");
+  const whole = digitsText.slice(0, digitsText.length - digits);
+  const fraction = digitsText.slice(digitsText.length - digits);
+  const sign = negative && units !== 0n ? "-" : "";
+  return digits > 0 ? `${sign}${whole}.${fraction}` : `${sign}${whole}`;
+}
+
+// Десятичный логарифм положительного целого, в том числе очень длинного
+function log10BigInt(value: bigint): number {
+  const digits = value.toString();
+  const head = Number(`0.${digits.slice(0, 17)}`);
+  return Math.log10(head) + digits.length;
+}
+
+/**
+ * Число девяток надежности: -lg(1 - G). G = 0.999 - три девятки.
+ * Для G = 1 - бесконечность. Для дроби 1 - G считается точно, поэтому
+ * результат верен и тогда, когда G неотличима от 1 в double.
+ */
+export function ninesOf(value: Real): number {
+  const q = minus(1, value);
+  if (!isRational(q)) return q > 0 ? -Math.log10(q) : Infinity;
+  if (q.num <= 0n) return Infinity;
+  return log10BigInt(q.den) - log10BigInt(q.num);
+}
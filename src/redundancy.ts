@@ -0,0 +1,360 @@
+import {
+  Block,
+  Connection,
+  RedundancyPlan,
+  RedundancyProblem,
+  ReserveGroup,
+  Terminal,
+} from "./types";
+import { addSpareToGroups, calculateSystemReliability } from "./calculations";
+import { calculateImportanceMeasures } from "./importance";
+import { findFreeCellBelow } from "./layout";
+import { SchemeView } from "./subsystem";
+
+// Наибольшее число вариантов, при котором выполняется точный поиск
+// методом ветвей и границ (в Web Worker, см. redundancy.worker.ts)
+const EXACT_LIMIT = 20000;
+// Стоимость блока, для которого она не задана
+const DEFAULT_COST = 1;
+
+export const blockCost = (block: Block) => block.cost ?? DEFAULT_COST;
+export const blockWeight = (block: Block) => block.weight ?? 0;
+
+/**
+ * Надежность блока вместе с copies параллельными копиями
+ */
+export function withCopies(p: number, copies: number): number {
+  return 1 - Math.pow(1 - p, copies + 1);
+}
+
+type Allocation = Map<string, number>;
+
+const copiesOf = (allocation: Allocation): Record<string, number> => {
+  const copies: Record<string, number> = {};
+  allocation.forEach((k, id) => {
+    if (k > 0) copies[id] = k;
+  });
+  return copies;
+};
+
+/**
+ * Подбор числа копий блоков. Параллельная копия подключается к тем же точкам,
+ * что и блок, поэтому в расчете блок заменяется на блок с надежностью
+ * 1 - (1 - p)^(k + 1). Резервные копии добавляются в группу резерва блока,
+ * и надежность считается по схеме с этими группами. Рассматриваются только
+ * блоки, влияющие на надежность системы.
+ *
+ * Сначала жадная эвристика: на каждом шаге добавляется копия с наибольшим
+ * приростом надежности на единицу стоимости. Если вариантов немного
+ * (до EXACT_LIMIT), ее решение уточняется точным поиском методом ветвей
+ * и границ. Надежность схемы не убывает с добавлением копий, поэтому оценка
+ * ветви - надежность, когда у всех еще не выбранных блоков наибольшее число
+ * копий, которое помещается в оставшийся бюджет и вес. Ветвь отсекается,
+ * если даже эта оценка не лучше найденного решения (для наибольшей
+ * надежности) или не достигает требуемой надежности (для наименьшей
+ * стоимости), а также по стоимости, бюджету и весу.
+ * onProgress получает число выполненных расчетов схемы.
+ */
+export function optimizeRedundancy(
+  blocks: Block[],
+  connections: Connection[],
+  reserveGroups: ReserveGroup[],
+  terminals: Terminal[],
+  problem: RedundancyProblem,
+  onProgress?: (evaluations: number) => void,
+): RedundancyPlan {
+  const { goal, copyKind, weightLimit, maxCopies } = problem;
+  const budget = goal.kind === "max-reliability" ? goal.budget : Infinity;
+  const maxWeight = weightLimit > 0 ? weightLimit : Infinity;
+  const view = { blocks, connections, reserveGroups, terminals };
+
+  // Сначала самые значимые блоки: хорошие решения находятся раньше,
+  // и отсечения срабатывают чаще
+  const candidates = calculateImportanceMeasures(
+    blocks,
+    connections,
+    reserveGroups,
+    terminals,
+  )
+    .filter((item) => item.birnbaum > 0)
+    .sort((a, b) => b.birnbaum - a.birnbaum)
+    .map((item) => blocks.find((b) => b.id === item.blockId)!)
+    .filter((block) => !block.isReserve);
+
+  let evaluations = 0;
+  const evaluate = (allocation: Allocation) => {
+    evaluations += 1;
+    if (evaluations % 100 === 0) onProgress?.(evaluations);
+    const scheme =
+      copyKind === "parallel"
+        ? {
+            ...view,
+            blocks: blocks.map((block) => {
+              const copies = allocation.get(block.id) ?? 0;
+              return copies > 0
+                ? {
+                    ...block,
+                    reliability: withCopies(block.reliability, copies),
+                  }
+                : block;
+            }),
+          }
+        : applyRedundancyPlan(
+            view,
+            { copyKind, copies: copiesOf(allocation) },
+            0,
+          );
+    return calculateSystemReliability(
+      scheme.blocks,
+      scheme.connections,
+      scheme.reserveGroups,
+      scheme.terminals,
+    ).systemReliability;
+  };
+  const totals = (allocation: Allocation) => {
+    let cost = 0;
+    let weight = 0;
+    candidates.forEach((block) => {
+      const copies = allocation.get(block.id) ?? 0;
+      cost += copies * blockCost(block);
+      weight += copies * blockWeight(block);
+    });
+    return { cost, weight };
+  };
+
+  // Сколько копий блока помещается в maxCopies и в оставшиеся бюджет и вес
+  const affordable = (block: Block, cost: number, weight: number) =>
+    Math.max(
+      0,
+      Math.min(
+        maxCopies,
+        blockCost(block) > 0
+          ? Math.floor((budget - cost) / blockCost(block))
+          : maxCopies,
+        blockWeight(block) > 0
+          ? Math.floor((maxWeight - weight) / blockWeight(block))
+          : maxCopies,
+      ),
+    );
+  const limits = candidates.map((block) => affordable(block, 0, 0));
+  const variants = limits.reduce((acc, k) => acc * (k + 1), 1);
+
+  const reached = (reliability: number) =>
+    goal.kind === "min-cost" && reliability >= goal.target;
+
+  // Жадная эвристика
+  const allocation: Allocation = new Map();
+  let reliability = evaluate(allocation);
+
+  while (!reached(reliability)) {
+    const { cost, weight } = totals(allocation);
+    let step: { block: Block; reliability: number; ratio: number } | null =
+      null;
+    for (let idx = 0; idx < candidates.length; idx++) {
+      const block = candidates[idx];
+      const copies = allocation.get(block.id) ?? 0;
+      if (copies >= limits[idx]) continue;
+      if (cost + blockCost(block) > budget) continue;
+      if (weight + blockWeight(block) > maxWeight) continue;
+
+      allocation.set(block.id, copies + 1);
+      const next = evaluate(allocation);
+      allocation.set(block.id, copies);
+      // Бесплатная копия выгоднее любой платной
+      const ratio = (next - reliability) / Math.max(blockCost(block), 1e-9);
+      if (next > reliability && (!step || ratio > step.ratio)) {
+        step = { block, reliability: next, ratio };
+      }
+    }
+    if (!step) break;
+
+    allocation.set(step.block.id, (allocation.get(step.block.id) ?? 0) + 1);
+    reliability = step.reliability;
+  }
+
+  // Лишние копии, без которых цель все равно достигается, убираются -
+  // начиная с самых дорогих
+  if (reached(reliability)) {
+    [...candidates]
+      .sort((a, b) => blockCost(b) - blockCost(a))
+      .forEach((block) => {
+        while ((allocation.get(block.id) ?? 0) > 0) {
+          const copies = allocation.get(block.id)!;
+          allocation.set(block.id, copies - 1);
+          const next = evaluate(allocation);
+          if (reached(next)) {
+            reliability = next;
+          } else {
+            allocation.set(block.id, copies);
+            break;
+          }
+        }
+      });
+  }
+
+  let best = {
+    allocation: new Map(allocation),
+    reliability,
+    cost: totals(allocation).cost,
+  };
+  let found = goal.kind === "max-reliability" || reached(reliability);
+  let method: RedundancyPlan["method"] = "heuristic";
+
+  if (variants <= EXACT_LIMIT) {
+    method = "exact";
+    const current: Allocation = new Map();
+
+    const better = (value: number, cost: number) => {
+      if (goal.kind === "min-cost") {
+        if (value < goal.target) return false;
+        return (
+          !found ||
+          cost < best.cost ||
+          (cost === best.cost && value > best.reliability)
+        );
+      }
+      return (
+        value > best.reliability ||
+        (value === best.reliability && cost < best.cost)
+      );
+    };
+
+    // Оценка сверху: у блоков с index и дальше - наибольшее число копий
+    const bound = (index: number, cost: number, weight: number) => {
+      const optimistic = new Map(current);
+      for (let idx = index; idx < candidates.length; idx++) {
+        optimistic.set(
+          candidates[idx].id,
+          Math.min(limits[idx], affordable(candidates[idx], cost, weight)),
+        );
+      }
+      return evaluate(optimistic);
+    };
+
+    const visit = (index: number, cost: number, weight: number) => {
+      if (cost > budget || weight > maxWeight) return;
+      if (goal.kind === "min-cost" && found && cost > best.cost) return;
+      if (index === candidates.length) {
+        const value = evaluate(current);
+        if (better(value, cost)) {
+          best = { allocation: new Map(current), reliability: value, cost };
+          found = true;
+        }
+        return;
+      }
+
+      const optimistic = bound(index, cost, weight);
+      if (goal.kind === "min-cost" && optimistic < goal.target) return;
+      if (
+        goal.kind === "max-reliability" &&
+        (optimistic < best.reliability ||
+          (optimistic === best.reliability && cost >= best.cost))
+      ) {
+        return;
+      }
+
+      // Для наименьшей стоимости сначала дешевые варианты, для наибольшей
+      // надежности - с наибольшим числом копий
+      const block = candidates[index];
+      const ks = Array.from({ length: limits[index] + 1 }, (_, k) => k);
+      if (goal.kind === "max-reliability") ks.reverse();
+      for (const k of ks) {
+        current.set(block.id, k);
+        visit(
+          index + 1,
+          cost + k * blockCost(block),
+          weight + k * blockWeight(block),
+        );
+      }
+      current.delete(block.id);
+    };
+    visit(0, 0, 0);
+  }
+
+  return {
+    method,
+    copyKind,
+    copies: copiesOf(best.allocation),
+    reliability: best.reliability,
+    ...totals(best.allocation),
+    feasible: goal.kind === "min-cost" ? reached(best.reliability) : true,
+    evaluations,
+  };
+}
+
+/**
+ * id копий, которые applyRedundancyPlan добавит на схему с тем же stamp
+ */
+export function redundancyCopyIds(
+  plan: Pick<RedundancyPlan, "copies">,
+  stamp: number,
+): string[] {
+  const count = Object.values(plan.copies).reduce((acc, k) => acc + k, 0);
+  return Array.from({ length: count }, (_, idx) => `block-${stamp}-${idx}`);
+}
+
+/**
+ * Добавляет на схему копии блоков по решению; каждая копия ставится под
+ * блоком. Параллельная копия подключается параллельно блоку (левая точка -
+ * к левой, правая - к правой), резервная становится резервным блоком в группе
+ * резерва этого блока (группа создается, если ее нет). Копии получают
+ * надежность, модель отказов, стоимость и вес исходного блока.
+ * stamp - основа для новых id.
+ */
+export function applyRedundancyPlan<T extends SchemeView>(
+  view: T,
+  plan: Pick<RedundancyPlan, "copies" | "copyKind">,
+  stamp: number,
+): T {
+  let maxNumber =
+    view.blocks.length > 0 ? Math.max(...view.blocks.map((b) => b.number)) : 0;
+  const nodes: Array<{ x: number; y: number }> = [
+    ...view.blocks,
+    ...view.terminals,
+  ];
+  const ids = redundancyCopyIds(plan, stamp);
+  const blocks: Block[] = [];
+  const connections: Connection[] = [];
+  let reserveGroups = view.reserveGroups;
+
+  view.blocks.forEach((block, blockIdx) => {
+    const copies = plan.copies[block.id] ?? 0;
+    for (let i = 0; i < copies; i++) {
+      const copy: Block = {
+        ...block,
+        id: ids[blocks.length],
+        number: ++maxNumber,
+        ...findFreeCellBelow(nodes, block.x, block.y),
+      };
+      nodes.push(copy);
+      blocks.push(copy);
+
+      if (plan.copyKind === "reserve") {
+        copy.isReserve = true;
+        reserveGroups = addSpareToGroups(
+          reserveGroups,
+          copy.id,
+          { kind: "block", blockId: block.id },
+          `reserve-${stamp}-${blockIdx}`,
+        );
+        continue;
+      }
+      (["left", "right"] as const).forEach((side) =>
+        connections.push({
+          id: `conn-${stamp}-${connections.length}`,
+          fromBlockId: block.id,
+          toBlockId: copy.id,
+          fromSide: side,
+          toSide: side,
+        }),
+      );
+    }
+  });
+
+  return {
+    ...view,
+    blocks: [...view.blocks, ...blocks],
+    connections: [...view.connections, ...connections],
+    reserveGroups,
+  };
+}
@@ -0,0 +1,37 @@
+import {
+  Block,
+  Connection,
+  RedundancyPlan,
+  RedundancyProblem,
+  ReserveGroup,
+  Terminal,
+} from "./types";
+import { optimizeRedundancy } from "./redundancy";
+
+export interface RedundancyRequest {
+  blocks: Block[];
+  connections: Connection[];
+  reserveGroups: ReserveGroup[];
+  terminals: Terminal[];
+  problem: RedundancyProblem;
+}
+
+export type RedundancyResponse =
+  | { type: "progress"; evaluations: number }
+  | { type: "result"; plan: RedundancyPlan };
+
+// Поиск - сотни и тысячи расчетов схемы, поэтому он выполняется вне основного потока
+self.onmessage = (e: MessageEvent<RedundancyRequest>) => {
+  const { blocks, connections, reserveGroups, terminals, problem } = e.data;
+  const post = (response: RedundancyResponse) => self.postMessage(response);
+
+  const plan = optimizeRedundancy(
+    blocks,
+    connections,
+    reserveGroups,
+    terminals,
+    problem,
+    (evaluations) => post({ type: "progress", evaluations }),
+  );
+  post({ type: "result", plan });
+};
@@ -0,0 +1,170 @@
+import {
+  Block,
+  Connection,
+  FailureModel,
+  ReserveGroup,
+  Terminal,
+} from "./types";
+import {
+  calculateSystemReliability,
+  subsystemReliability,
+} from "./calculations";
+
+export const DEFAULT_MISSION_TIME = 1000;
+
+// Порог, ниже которого R(t) считается нулевым при интегрировании
+const MTTF_TAIL = 1e-6;
+const MTTF_MAX_DOUBLINGS = 40;
+const MTTF_INTERVALS = 400;
+
+/**
+ * Надежность по модели отказов в момент t
+ */
+export function modelReliabilityAt(model: FailureModel, t: number): number {
+  if (t <= 0) return 1;
+  switch (model.kind) {
+    case "exponential":
+      return Math.exp(-model.lambda * t);
+    case "weibull":
+      return model.eta > 0 ? Math.exp(-Math.pow(t / model.eta, model.beta)) : 0;
+  }
+}
+
+export function blockReliabilityAt(block: Block, t: number): number {
+  if (block.subsystem) {
+    return subsystemReliability({
+      ...block.subsystem,
+      blocks: applyMissionTime(block.subsystem.blocks, t),
+    });
+  }
+  return block.failureModel
+    ? modelReliabilityAt(block.failureModel, t)
+    : block.reliability;
+}
+
+/**
+ * Блоки с надежностью, пересчитанной на момент t. У составных блоков
+ * пересчитываются блоки подсистемы, а затем надежность самого блока.
+ * Блоки без модели отказов (и неизменившиеся) возвращаются как есть.
+ */
+export function applyMissionTime(blocks: Block[], t: number): Block[] {
+  return blocks.map((block) => {
+    if (block.subsystem) {
+      const inner = applyMissionTime(block.subsystem.blocks, t);
+      if (inner.every((b, idx) => b === block.subsystem!.blocks[idx])) {
+        return block;
+      }
+      const subsystem = { ...block.subsystem, blocks: inner };
+      return {
+        ...block,
+        subsystem,
+        reliability: subsystemReliability(subsystem),
+      };
+    }
+    if (!block.failureModel) return block;
+    const reliability = blockReliabilityAt(block, t);
+    return reliability === block.reliability ? block : { ...block, reliability };
+  });
+}
+
+export function hasTimeModels(blocks: Block[]): boolean {
+  return blocks.some(
+    (b) =>
+      b.failureModel !== undefined ||
+      (b.subsystem !== undefined && hasTimeModels(b.subsystem.blocks)),
+  );
+}
+
+// Модели отказов блоков схемы вместе с блоками подсистем
+function failureModels(blocks: Block[]): FailureModel[] {
+  return blocks.flatMap((b) => [
+    ...(b.failureModel ? [b.failureModel] : []),
+    ...(b.subsystem ? failureModels(b.subsystem.blocks) : []),
+  ]);
+}
+
+/**
+ * Надежность системы R(t) в момент t
+ */
+export function systemReliabilityAt(
+  blocks: Block[],
+  connections: Connection[],
+  reserveGroups: ReserveGroup[],
+  terminals: Terminal[],
+  t: number,
+): number {
+  return calculateSystemReliability(
+    applyMissionTime(blocks, t),
+    connections,
+    reserveGroups,
+    terminals,
+  ).systemReliability;
+}
+
+/**
+ * Точки кривой R(t) на отрезке [0, tEnd]
+ */
+export function calculateReliabilityCurve(
+  blocks: Block[],
+  connections: Connection[],
+  reserveGroups: ReserveGroup[],
+  terminals: Terminal[],
+  tEnd: number,
+  points = 60,
+): Array<{ t: number; r: number }> {
+  const curve: Array<{ t: number; r: number }> = [];
+  for (let i = 0; i <= points; i++) {
+    const t = (tEnd * i) / points;
+    curve.push({
+      t,
+      r: systemReliabilityAt(blocks, connections, reserveGroups, terminals, t),
+    });
+  }
+  return curve;
+}
+
+/**
+ * Средняя наработка до отказа MTTF = ∫ R(t) dt от 0 до ∞ (метод Симпсона).
+ * Верхний предел удваивается, пока R(t) не станет пренебрежимо малой.
+ * null - если блоков с моделью отказов нет или R(t) не стремится к нулю
+ * (например, в схеме есть блоки с фиксированной вероятностью в параллели).
+ */
+export function calculateMTTF(
+  blocks: Block[],
+  connections: Connection[],
+  reserveGroups: ReserveGroup[],
+  terminals: Terminal[],
+): number | null {
+  if (!hasTimeModels(blocks)) return null;
+
+  const R = (t: number) =>
+    systemReliabilityAt(blocks, connections, reserveGroups, terminals, t);
+
+  // Начальный масштаб времени - характерное время самого надежного блока
+  const scales = failureModels(blocks)
+    .map((model) =>
+      model.kind === "exponential"
+        ? model.lambda > 0
+          ? 1 / model.lambda
+          : 0
+        : model.eta,
+    )
+    .filter((v) => v > 0);
+  if (scales.length === 0) return null;
+
+  let tEnd = Math.max(...scales);
+  let doublings = 0;
+  while (R(tEnd) > MTTF_TAIL) {
+    tEnd *= 2;
+    doublings += 1;
+    if (doublings > MTTF_MAX_DOUBLINGS) return null;
+  }
+
+  const h = tEnd / MTTF_INTERVALS;
+  let sum = R(0) + R(tEnd);
+  for (let i = 1; i < MTTF_INTERVALS; i++) {
+    sum += (i % 2 === 0 ? 2 : 4) * R(i * h);
+  }
+
+  return (sum * h) / 3;
+}
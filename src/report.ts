@@ -0,0 +1,371 @@
+import { Block, CalculationPrecision } from "./types";
+import { SchemeState } from "./history";
+import {
+  DEFAULT_PRECISION,
+  buildReliabilityDerivation,
+  calculateSystemReliability,
+  reserveGroupLabel,
+  resolveReserveGroups,
+} from "./calculations";
+import {
+  FormulaNode,
+  ReliabilityDerivation,
+  renderHtml,
+  renderLatex,
+  text,
+} from "./formula";
+import { renderSchemeSvg, renderSchemeTikz } from "./schemePicture";
+import { saveTextFile } from "./fileDialog";
+import { formatFixed } from "./rational";
+
+export type ReportFormat = "tex" | "md";
+
+type ReportScheme = Pick<
+  SchemeState,
+  "blocks" | "connections" | "reserveGroups" | "terminals" | "missionTime"
+>;
+
+const REPORT_FILTERS: Record<ReportFormat, { name: string; extensions: string[] }> =
+  {
+    tex: { name: "LaTeX", extensions: ["tex"] },
+    md: { name: "Markdown", extensions: ["md"] },
+  };
+
+/**
+ * Все, что попадает в отчет: схема, таблица блоков, вывод формулы и итог
+ */
+interface ReportData {
+  title: string;
+  date: string;
+  blocks: Block[];
+  connections: ReportScheme["connections"];
+  reserveGroups: ReportScheme["reserveGroups"];
+  terminals: ReportScheme["terminals"];
+  rows: Array<{ number: number; reliability: string; model: string; role: string }>;
+  missionTime: number | null; // Только если есть блоки с моделью отказов
+  derivation: ReliabilityDerivation;
+  systemReliability: string; // В точном режиме - с precision.digits знаками
+  efficiency: number;
+}
+
+function formatReliability(value: number): string {
+  return value.toFixed(6).replace(/\.?0+$/, "");
+}
+
+function describeModel(block: Block): string {
+  const model = block.failureModel;
+  if (!model) return "p = const";
+  if (model.kind === "exponential") return `экспоненциальная, λ = ${model.lambda} 1/ч`;
+  return `Вейбулла, β = ${model.beta}, η = ${model.eta} ч`;
+}
+
+function collectReportData(
+  scheme: ReportScheme,
+  title: string,
+  precision: CalculationPrecision,
+): ReportData {
+  const { blocks, connections, reserveGroups, terminals } = scheme;
+  const groups = resolveReserveGroups(blocks, reserveGroups);
+  const role = (block: Block) => {
+    if (!block.isReserve) return "основной";
+    const idx = groups.findIndex((g) => g.spareBlockIds.includes(block.id));
+    return idx >= 0 ? `резерв ${reserveGroupLabel(idx)}` : "резерв";
+  };
+
+  const { systemReliability, exactReliability } = calculateSystemReliability(
+    blocks,
+    connections,
+    reserveGroups,
+    terminals,
+    precision,
+  );
+
+  return {
+    title,
+    date: new Date().toLocaleDateString("ru-RU"),
+    blocks,
+    connections,
+    reserveGroups,
+    terminals,
+    rows: [...blocks]
+      .sort((a, b) => a.number - b.number)
+      .map((block) => ({
+        number: block.number,
+        reliability: formatReliability(block.reliability),
+        model: describeModel(block),
+        role: role(block),
+      })),
+    missionTime: blocks.some((b) => b.failureModel) ? scheme.missionTime : null,
+    derivation: buildReliabilityDerivation(
+      blocks,
+      connections,
+      reserveGroups,
+      terminals,
+      precision,
+    ),
+    systemReliability: exactReliability
+      ? formatFixed(exactReliability, precision.digits)
+      : formatReliability(systemReliability),
+    efficiency: blocks.length > 0 ? systemReliability / blocks.length : 0,
+  };
+}
+
+const escapeLatexText = (value: string) => renderLatex(text(value));
+// Греческие буквы обозначений параметров моделей отказов - в математическом режиме
+const latexGreek = (value: string) =>
+  escapeLatexText(value)
+    .replace(/λ/g, "$\\lambda$")
+    .replace(/β/g, "$\\beta$")
+    .replace(/η/g, "$\\eta$");
+const escapeHtmlText = (value: string) => renderHtml(text(value));
+
+function buildLatex(data: ReportData): string {
+  // Формула в тексте абзаца, чтобы длинные строки переносились
+  const formulaLines = (nodes: FormulaNode[]) =>
+    nodes.map((n) => `\\noindent $${renderLatex(n)}$\\par\\medskip`);
+
+  const d = data.derivation;
+  return [
+    "\\documentclass[a4paper,12pt]{article}",
+    "\\usepackage[utf8]{inputenc}",
+    "\\usepackage[T2A]{fontenc}",
+    "\\usepackage[russian]{babel}",
+    "\\usepackage{amsmath}",
+    "\\usepackage{tikz}",
+    "\\usepackage[margin=2cm]{geometry}",
+    "",
+    `\\title{${escapeLatexText(data.title)}}`,
+    `\\date{${data.date}}`,
+    "\\begin{document}",
+    "\\maketitle",
+    "",
+    "\\section*{Схема}",
+    "\\begin{center}",
+    "\\resizebox{\\linewidth}{!}{%",
+    renderSchemeTikz(data.blocks, data.connections, data.terminals),
+    "}",
+    "\\end{center}",
+    "",
+    "\\section*{Блоки}",
+    ...(data.missionTime !== null
+      ? [`Время миссии $t = ${data.missionTime}$ ч.\\par\\medskip`]
+      : []),
+    "\\begin{tabular}{|c|c|l|l|}",
+    "\\hline",
+    "№ & $p$ & Модель отказов & Роль \\\\",
+    "\\hline",
+    ...data.rows.map(
+      (r) =>
+        `${r.number} & ${r.reliability} & ${latexGreek(r.model)} & ${escapeLatexText(r.role)} \\\\`,
+    ),
+    "\\hline",
+    "\\end{tabular}",
+    "",
+    ...(d.notes.length > 0
+      ? [
+          "\\section*{Примечания}",
+          ...d.notes.map((n) => `${renderLatex(n)}\\par`),
+          "",
+        ]
+      : []),
+    "\\section*{Общая формула}",
+    ...formulaLines(d.general),
+    "",
+    ...(d.reserveSteps.length > 0
+      ? ["\\section*{Расчет групп резерва}", ...formulaLines(d.reserveSteps), ""]
+      : []),
+    "\\section*{С подставленными значениями}",
+    ...formulaLines(d.withValues),
+    "",
+    "\\section*{Итог}",
+    `$G_{\\text{np}} = ${data.systemReliability}$\\par`,
+    `$E_{\\text{np}} = ${formatReliability(data.efficiency)}$\\par`,
+    "\\end{document}",
+    "",
+  ].join("\n");
+}
+
+// SVG в data URI (UTF-8 -> base64), чтобы отчет был одним файлом
+function svgDataUri(svg: string): string {
+  const bytes = new TextEncoder().encode(svg);
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return `data:image/svg+xml;base64,${btoa(binary)}`;
+}
+
+function buildMarkdown(data: ReportData): string {
+  const formulaLines = (nodes: FormulaNode[]) =>
+    nodes.flatMap((n) => ["$$", renderLatex(n), "$$", ""]);
+
+  const d = data.derivation;
+  return [
+    `# ${data.title}`,
+    "",
+    `Дата: ${data.date}`,
+    "",
+    "## Схема",
+    "",
+    `![Схема](${svgDataUri(renderSchemeSvg(data.blocks, data.connections, {
+      reserveGroups: data.reserveGroups,
+      terminals: data.terminals,
+    }))})`,
+    "",
+    "## Блоки",
+    "",
+    ...(data.missionTime !== null
+      ? [`Время миссии t = ${data.missionTime} ч.`, ""]
+      : []),
+    "| № | p | Модель отказов | Роль |",
+    "|---|---|---|---|",
+    ...data.rows.map(
+      (r) => `| ${r.number} | ${r.reliability} | ${r.model} | ${r.role} |`,
+    ),
+    "",
+    ...(d.notes.length > 0
+      ? ["## Примечания", "", ...d.notes.map((n) => `> ${renderLatex(n)}`), ""]
+      : []),
+    "## Общая формула",
+    "",
+    ...formulaLines(d.general),
+    ...(d.reserveSteps.length > 0
+      ? ["## Расчет групп резерва", "", ...formulaLines(d.reserveSteps)]
+      : []),
+    "## С подставленными значениями",
+    "",
+    ...formulaLines(d.withValues),
+    "## Итог",
+    "",
+    `- G<sub>np</sub> = ${data.systemReliability}`,
+    `- E<sub>np</sub> = ${formatReliability(data.efficiency)}`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Отчет в HTML для печати (и сохранения в PDF средствами системы)
+ */
+function buildPrintableHtml(data: ReportData): string {
+  const formulaLines = (nodes: FormulaNode[]) =>
+    nodes.map((n) => `<p class="formula">${renderHtml(n)}</p>`).join("\n");
+
+  const d = data.derivation;
+  return `<!DOCTYPE html>
+<html lang="ru">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeHtmlText(data.title)}</title>
+<style>
+  body { font-family: Arial, sans-serif; color: #000; margin: 2cm; }
+  h1 { font-size: 20px; }
+  h2 { font-size: 16px; margin-top: 24px; border-bottom: 1px solid #999; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #666; padding: 4px 10px; text-align: left; }
+  .formula { font-size: 14px; line-height: 1.6; word-wrap: break-word; }
+  .note { font-size: 13px; font-style: italic; }
+  .scheme svg { max-width: 100%; height: auto; }
+  @page { size: A4; margin: 1.5cm; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtmlText(data.title)}</h1>
+<p>Дата: ${data.date}</p>
+<h2>Схема</h2>
+<div class="scheme">${renderSchemeSvg(data.blocks, data.connections, {
+      reserveGroups: data.reserveGroups,
+      terminals: data.terminals,
+    })}</div>
+<h2>Блоки</h2>
+${data.missionTime !== null ? `<p>Время миссии t = ${data.missionTime} ч.</p>` : ""}
+<table>
+<tr><th>№</th><th>p</th><th>Модель отказов</th><th>Роль</th></tr>
+${data.rows
+  .map(
+    (r) =>
+      `<tr><td>${r.number}</td><td>${r.reliability}</td><td>${escapeHtmlText(r.model)}</td><td>${escapeHtmlText(r.role)}</td></tr>`,
+  )
+  .join("\n")}
+</table>
+${
+  d.notes.length > 0
+    ? `<h2>Примечания</h2>\n${d.notes.map((n) => `<p class="note">${renderHtml(n)}</p>`).join("\n")}`
+    : ""
+}
+<h2>Общая формула</h2>
+${formulaLines(d.general)}
+${d.reserveSteps.length > 0 ? `<h2>Расчет групп резерва</h2>\n${formulaLines(d.reserveSteps)}` : ""}
+<h2>С подставленными значениями</h2>
+${formulaLines(d.withValues)}
+<h2>Итог</h2>
+<p>G<sub>np</sub> = ${data.systemReliability}</p>
+<p>E<sub>np</sub> = ${formatReliability(data.efficiency)}</p>
+</body>
+</html>`;
+}
+
+/**
+ * Строит текст отчета в заданном формате
+ */
+export function buildReport(
+  scheme: ReportScheme,
+  title: string,
+  format: ReportFormat,
+  precision = DEFAULT_PRECISION,
+): string {
+  const data = collectReportData(scheme, title, precision);
+  return format === "tex" ? buildLatex(data) : buildMarkdown(data);
+}
+
+/**
+ * Сохраняет отчет через системный диалог. Возвращает путь или null при отмене.
+ */
+export function exportReport(
+  scheme: ReportScheme,
+  title: string,
+  format: ReportFormat,
+  precision = DEFAULT_PRECISION,
+): Promise<string | null> {
+  return saveTextFile(
+    {
+      title: "Экспорт отчета",
+      defaultPath: `${title}.${format}`,
+      filters: [REPORT_FILTERS[format]],
+    },
+    () => buildReport(scheme, title, format, precision),
+  );
+}
+
+/**
+ * Открывает системный диалог печати с отчетом. PDF получается выбором
+ * "Сохранить как PDF" в качестве принтера.
+ */
+export function printReport(
+  scheme: ReportScheme,
+  title: string,
+  precision = DEFAULT_PRECISION,
+): void {
+  const html = buildPrintableHtml(collectReportData(scheme, title, precision));
+
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  document.body.appendChild(frame);
+
+  const doc = frame.contentDocument;
+  const win = frame.contentWindow;
+  if (!doc || !win) {
+    frame.remove();
+    return;
+  }
+
+  doc.open();
+  doc.write(html);
+  doc.close();
+
+  // Фрейм удаляется после закрытия диалога печати
+  win.addEventListener("afterprint", () => frame.remove());
+  win.focus();
+  win.print();
+}
@@ -0,0 +1,363 @@
+import { Connection, PortPlacement } from "./types";
+import {
+  BLOCK_SIZE,
+  CELL_SIZE,
+  GridPosition,
+  connectionPoints,
+  portAnchor,
+} from "./geometry";
+import { findPort } from "./ports";
+
+// Трассы идут по сетке с шагом в полклетки: между соседними блоками
+// помещается несколько параллельных связей
+const STEPS_PER_CELL = 2;
+const STEP = CELL_SIZE / STEPS_PER_CELL;
+const BEND_COST = 4; // Штраф за поворот, в шагах
+const SHARED_COST = 6; // Штраф за шаг по участку, занятому связью другой цепи
+const SEARCH_MARGIN = 8 * STEPS_PER_CELL; // Запас поля поиска вокруг концов связи
+const MAX_EXPANSIONS = 50000;
+
+// Направления: вправо, вниз, влево, вверх
+const DX = [1, 0, -1, 0];
+const DY = [0, 1, 0, -1];
+// Направление от стороны блока наружу
+const OUTWARD: Record<PortPlacement, number> = {
+  right: 0,
+  bottom: 1,
+  left: 2,
+  top: 3,
+};
+
+type LatticePoint = { x: number; y: number };
+
+/**
+ * Трасса связи. signature - положения концов, при которых она построена;
+ * path - узлы сетки трассы (пустой, если трасса не найдена и связь нарисована
+ * простой ломаной); points - вершины ломаной в пикселях.
+ */
+export interface Route {
+  signature: string;
+  path: LatticePoint[];
+  points: Array<{ x: number; y: number }>;
+}
+
+export type RouteMap = Map<string, Route>;
+
+interface RouteEnd {
+  x: number;
+  y: number;
+  dir: number; // Направление движения трассы у границы блока
+}
+
+const pointKey = (x: number, y: number) => `${x},${y}`;
+
+// Участок между соседними узлами сетки (без учета направления)
+const segmentKey = (x: number, y: number, dir: number) => {
+  const nx = x + DX[dir];
+  const ny = y + DY[dir];
+  return `${Math.min(x, nx)},${Math.min(y, ny)},${dir % 2 === 0 ? "h" : "v"}`;
+};
+
+/**
+ * Конец связи у порта блока: трасса выходит из блока наружу
+ * и входит в блок снаружи внутрь
+ */
+function routeEnd(
+  node: GridPosition,
+  side: "left" | "right",
+  portId: string | undefined,
+  leaving: boolean,
+): RouteEnd {
+  const anchor = portAnchor(node, side, portId);
+  const outward = OUTWARD[anchor.placement];
+  return {
+    x: anchor.x / STEP,
+    y: anchor.y / STEP,
+    dir: leaving ? outward : (outward + 2) % 4,
+  };
+}
+
+// Точка подключения связи: порт блока или полюса
+function endKey(
+  nodes: Map<string, GridPosition>,
+  id: string,
+  side: "left" | "right",
+  portId?: string,
+): string {
+  const node = nodes.get(id);
+  return node?.ports
+    ? `${id}:${findPort(node, side, portId).id}`
+    : `${id}:${side}`;
+}
+
+/**
+ * Минимальная двоичная куча по приоритету
+ */
+class MinHeap<T> {
+  private items: Array<{ priority: number; value: T }> = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(priority: number, value: T) {
+    const items = this.items;
+    items.push({ priority, value });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= items[i].priority) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): T {
+    const items = this.items;
+    const top = items[0].value;
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < items.length && items[l].priority < items[m].priority) m = l;
+        if (r < items.length && items[r].priority < items[m].priority) m = r;
+        if (m === i) break;
+        [items[m], items[i]] = [items[i], items[m]];
+        i = m;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * A* по узлам сетки с учетом направления (штраф за повороты).
+ * Блоки непроходимы, кроме границ у концов связи; участки, занятые
+ * связями других цепей, дороже - параллельные связи расходятся по соседним линиям.
+ */
+function findPath(
+  start: RouteEnd,
+  goal: RouteEnd,
+  blocked: Set<string>,
+  used: Map<string, Set<string>>,
+  net: string,
+): LatticePoint[] | null {
+  const minX = Math.min(start.x, goal.x) - SEARCH_MARGIN;
+  const maxX = Math.max(start.x, goal.x) + SEARCH_MARGIN;
+  const minY = Math.min(start.y, goal.y) - SEARCH_MARGIN;
+  const maxY = Math.max(start.y, goal.y) + SEARCH_MARGIN;
+  const goalKey = pointKey(goal.x, goal.y);
+
+  type State = { x: number; y: number; dir: number; cost: number };
+  const stateKey = (x: number, y: number, dir: number) => `${x},${y},${dir}`;
+  const heuristic = (x: number, y: number) =>
+    Math.abs(x - goal.x) + Math.abs(y - goal.y);
+
+  const best = new Map<string, number>();
+  const parent = new Map<string, string>();
+  const heap = new MinHeap<State>();
+  const startKey = stateKey(start.x, start.y, start.dir);
+  best.set(startKey, 0);
+  heap.push(heuristic(start.x, start.y), { ...start, cost: 0 });
+
+  let expansions = 0;
+  while (heap.size > 0 && expansions < MAX_EXPANSIONS) {
+    const cur = heap.pop();
+    const curKey = stateKey(cur.x, cur.y, cur.dir);
+    if (cur.cost > best.get(curKey)!) continue;
+    expansions += 1;
+
+    if (cur.x === goal.x && cur.y === goal.y) {
+      const path: LatticePoint[] = [];
+      let key: string | undefined = curKey;
+      while (key) {
+        const [x, y] = key.split(",").map(Number);
+        path.push({ x, y });
+        key = parent.get(key);
+      }
+      return path.reverse();
+    }
+
+    // От начала связи трасса сначала уходит от блока наружу
+    const dirs =
+      curKey === startKey
+        ? [start.dir]
+        : [0, 1, 2, 3].filter((d) => d !== (cur.dir + 2) % 4);
+    for (const dir of dirs) {
+      const x = cur.x + DX[dir];
+      const y = cur.y + DY[dir];
+      if (x < minX || x > maxX || y < minY || y > maxY) continue;
+
+      const key = pointKey(x, y);
+      if (key === goalKey) {
+        // В конечную точку можно войти только снаружи блока
+        if (dir !== goal.dir) continue;
+      } else if (blocked.has(key)) {
+        continue;
+      }
+
+      const owners = used.get(segmentKey(cur.x, cur.y, dir));
+      const shared = owners && [...owners].some((n) => n !== net);
+      const cost =
+        cur.cost +
+        1 +
+        (dir !== cur.dir ? BEND_COST : 0) +
+        (shared ? SHARED_COST : 0);
+
+      const nextKey = stateKey(x, y, dir);
+      if (cost >= (best.get(nextKey) ?? Infinity)) continue;
+      best.set(nextKey, cost);
+      parent.set(nextKey, curKey);
+      heap.push(cost + heuristic(x, y), { x, y, dir, cost });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Вершины ломаной (в пикселях) по узлам трассы: промежуточные точки
+ * на прямых участках отбрасываются
+ */
+function pathCorners(path: LatticePoint[]): Array<{ x: number; y: number }> {
+  const corners = path.filter((p, idx) => {
+    if (idx === 0 || idx === path.length - 1) return true;
+    const prev = path[idx - 1];
+    const next = path[idx + 1];
+    return (prev.x === p.x) !== (p.x === next.x);
+  });
+  return corners.map((p) => ({ x: p.x * STEP, y: p.y * STEP }));
+}
+
+/**
+ * Ортогональные трассы связей в обход блоков и полюсов схемы.
+ * Связи одной цепи (сходящиеся в одной точке блока) могут идти по общим
+ * участкам, связи разных цепей разводятся по соседним линиям сетки.
+ * previous - трассы прошлой раскладки: те, у которых не сдвинулись концы
+ * и которые не задевает ни один блок, сохраняются, перестраиваются
+ * только остальные (при перетаскивании блока - его связи).
+ */
+export function routeConnections(
+  connections: Connection[],
+  nodes: Map<string, GridPosition>,
+  previous?: RouteMap,
+): RouteMap {
+  // Во время анимации блоки бывают между клетками - их связи не трассируются
+  const onGrid = (node: GridPosition) =>
+    Number.isInteger(node.x) && Number.isInteger(node.y);
+
+  const blocked = new Set<string>();
+  nodes.forEach((node) => {
+    const left = Math.round(node.x) * STEPS_PER_CELL;
+    const top = Math.round(node.y) * STEPS_PER_CELL;
+    for (let dx = 0; dx <= BLOCK_SIZE * STEPS_PER_CELL; dx++) {
+      for (let dy = 0; dy <= BLOCK_SIZE * STEPS_PER_CELL; dy++) {
+        blocked.add(pointKey(left + dx, top + dy));
+      }
+    }
+  });
+
+  // Цепь - порты блоков, соединенные связями в одну
+  const parent = new Map<string, string>();
+  const find = (x: string): string => {
+    const p = parent.get(x) ?? x;
+    if (p === x) return x;
+    const root = find(p);
+    parent.set(x, root);
+    return root;
+  };
+  const fromKey = (conn: Connection) =>
+    endKey(nodes, conn.fromBlockId, conn.fromSide, conn.fromPort);
+  const toKey = (conn: Connection) =>
+    endKey(nodes, conn.toBlockId, conn.toSide, conn.toPort);
+  connections.forEach((conn) => {
+    const a = find(fromKey(conn));
+    const b = find(toKey(conn));
+    if (a !== b) parent.set(a, b);
+  });
+
+  const used = new Map<string, Set<string>>();
+  const occupy = (path: LatticePoint[], net: string) => {
+    for (let i = 0; i + 1 < path.length; i++) {
+      const p = path[i];
+      const q = path[i + 1];
+      const dir = [0, 1, 2, 3].find(
+        (d) => p.x + DX[d] === q.x && p.y + DY[d] === q.y,
+      )!;
+      const key = segmentKey(p.x, p.y, dir);
+      const owners = used.get(key) || new Set<string>();
+      owners.add(net);
+      used.set(key, owners);
+    }
+  };
+
+  const routes: RouteMap = new Map();
+  const pending: Array<{
+    conn: Connection;
+    from: GridPosition;
+    to: GridPosition;
+    signature: string;
+  }> = [];
+
+  connections.forEach((conn) => {
+    const from = nodes.get(conn.fromBlockId);
+    const to = nodes.get(conn.toBlockId);
+    if (!from || !to) return;
+
+    const fromAnchor = portAnchor(from, conn.fromSide, conn.fromPort);
+    const toAnchor = portAnchor(to, conn.toSide, conn.toPort);
+    const signature = [
+      `${fromAnchor.x},${fromAnchor.y},${fromAnchor.placement}`,
+      `${toAnchor.x},${toAnchor.y},${toAnchor.placement}`,
+    ].join("|");
+    const old = previous?.get(conn.id);
+    const intact =
+      old &&
+      old.signature === signature &&
+      old.path
+        .slice(1, -1)
+        .every((p) => !blocked.has(pointKey(p.x, p.y)));
+    if (old && intact) {
+      routes.set(conn.id, old);
+      occupy(old.path, find(fromKey(conn)));
+    } else {
+      pending.push({ conn, from, to, signature });
+    }
+  });
+
+  // Короткие связи прокладываются первыми, длинные обходят их
+  const length = (item: (typeof pending)[number]) =>
+    Math.abs(item.from.x - item.to.x) + Math.abs(item.from.y - item.to.y);
+  pending.sort((a, b) => length(a) - length(b));
+
+  pending.forEach(({ conn, from, to, signature }) => {
+    const net = find(fromKey(conn));
+    const path =
+      onGrid(from) && onGrid(to)
+        ? findPath(
+            routeEnd(from, conn.fromSide, conn.fromPort, true),
+            routeEnd(to, conn.toSide, conn.toPort, false),
+            blocked,
+            used,
+            net,
+          )
+        : null;
+    if (path) {
+      occupy(path, net);
+      routes.set(conn.id, { signature, path, points: pathCorners(path) });
+    } else {
+      // Обхода не нашлось - простая ломаная, как без трассировки
+      routes.set(conn.id, {
+        signature,
+        path: [],
+        points: connectionPoints(conn, from, to),
+      });
+    }
+  });
+
+  return routes;
+}
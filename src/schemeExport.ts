@@ -0,0 +1,87 @@
+import { writeBinaryFile, writeTextFile } from "@tauri-apps/api/fs";
+import { Block, Connection, ReserveGroup, Terminal } from "./types";
+import { renderSchemeSvg } from "./schemePicture";
+import { saveFile } from "./fileDialog";
+
+// PNG рисуется с удвоенным разрешением, чтобы линии были четкими при печати
+const PNG_SCALE = 2;
+
+const IMAGE_FILTERS = [
+  { name: "PNG", extensions: ["png"] },
+  { name: "SVG", extensions: ["svg"] },
+];
+
+/**
+ * Растеризует SVG в PNG через canvas
+ */
+export async function rasterizeSvg(
+  svg: string,
+  scale = PNG_SCALE,
+): Promise<Uint8Array> {
+  const url = URL.createObjectURL(
+    new Blob([svg], { type: "image/svg+xml;charset=utf-8" }),
+  );
+
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error("Не удалось отрисовать схему"));
+      img.src = url;
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(image.width * scale);
+    canvas.height = Math.ceil(image.height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas недоступен");
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0);
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/png"),
+    );
+    if (!blob) throw new Error("Не удалось создать PNG");
+    return new Uint8Array(await blob.arrayBuffer());
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Сохраняет рисунок схемы через системный диалог. Формат определяется
+ * расширением выбранного файла (по умолчанию PNG).
+ * Возвращает путь или null при отмене.
+ */
+export function exportSchemeImage(
+  scheme: {
+    blocks: Block[];
+    connections: Connection[];
+    reserveGroups: ReserveGroup[];
+    terminals: Terminal[];
+  },
+  defaultName: string,
+  showGrid: boolean,
+): Promise<string | null> {
+  const dialog = {
+    title: "Экспорт схемы",
+    defaultPath: `${defaultName}.png`,
+    filters: IMAGE_FILTERS,
+  };
+  return saveFile(dialog, async (target) => {
+    const svg = renderSchemeSvg(scheme.blocks, scheme.connections, {
+      reserveGroups: scheme.reserveGroups,
+      terminals: scheme.terminals,
+      showGrid,
+    });
+
+    if (/\.svg$/i.test(target)) {
+      await writeTextFile(target, svg);
+      return target;
+    }
+
+    const path = /\.png$/i.test(target) ? target : `${target}.png`;
+    await writeBinaryFile(path, await rasterizeSvg(svg));
+    return path;
+  });
+}
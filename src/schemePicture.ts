@@ -0,0 +1,252 @@
+import { Block, Connection, ReserveGroup, Terminal } from "./types";
+import {
+  findDisconnectedBlocks,
+  reserveGroupLabel,
+  resolveReserveGroups,
+} from "./calculations";
+import {
+  BLOCK_SIZE,
+  CELL_SIZE,
+  GridPosition,
+  connectionPathData,
+  portAnchor,
+} from "./geometry";
+import { routeConnections } from "./routing";
+import { portSide } from "./ports";
+
+export const TERMINAL_LABELS: Record<Terminal["kind"], string> = {
+  input: "Вход",
+  output: "Выход",
+};
+
+interface SchemeShape {
+  blocks: Array<{ block: Block; x: number; y: number; size: number }>;
+  terminals: Array<{ terminal: Terminal; x: number; y: number; size: number }>;
+  lines: Array<Array<{ x: number; y: number }>>;
+  width: number;
+  height: number;
+}
+
+/**
+ * Геометрия схемы, сдвинутая так, чтобы рисунок начинался с отступа в одну клетку
+ */
+function layoutScheme(
+  blocks: Block[],
+  connections: Connection[],
+  terminals: Terminal[],
+): SchemeShape {
+  const nodeMap = new Map<string, GridPosition>([
+    ...blocks.map((b) => [b.id, b] as const),
+    ...terminals.map((t) => [t.id, t] as const),
+  ]);
+  const nodes = [...nodeMap.values()];
+  const size = BLOCK_SIZE * CELL_SIZE;
+
+  // Связи трассируются так же, как на холсте
+  const rawLines = [...routeConnections(connections, nodeMap).values()].map(
+    (route) => route.points,
+  );
+
+  const xs = [
+    ...nodes.flatMap((b) => [b.x * CELL_SIZE, b.x * CELL_SIZE + size]),
+    ...rawLines.flatMap((line) => line.map((p) => p.x)),
+  ];
+  const ys = [
+    ...nodes.flatMap((b) => [b.y * CELL_SIZE, b.y * CELL_SIZE + size]),
+    ...rawLines.flatMap((line) => line.map((p) => p.y)),
+  ];
+  const minX = (xs.length > 0 ? Math.min(...xs) : 0) - CELL_SIZE;
+  const minY = (ys.length > 0 ? Math.min(...ys) : 0) - CELL_SIZE;
+  const maxX = (xs.length > 0 ? Math.max(...xs) : 0) + CELL_SIZE;
+  const maxY = (ys.length > 0 ? Math.max(...ys) : 0) + CELL_SIZE;
+
+  return {
+    blocks: blocks.map((block) => ({
+      block,
+      x: block.x * CELL_SIZE - minX,
+      y: block.y * CELL_SIZE - minY,
+      size,
+    })),
+    terminals: terminals.map((terminal) => ({
+      terminal,
+      x: terminal.x * CELL_SIZE - minX,
+      y: terminal.y * CELL_SIZE - minY,
+      size,
+    })),
+    lines: rawLines.map((line) =>
+      line.map((p) => ({ x: p.x - minX, y: p.y - minY })),
+    ),
+    width: maxX - minX,
+    height: maxY - minY,
+  };
+}
+
+function formatReliability(value: number): string {
+  return value.toFixed(6).replace(/\.?0+$/, "");
+}
+
+export interface SchemeSvgOptions {
+  reserveGroups?: ReserveGroup[]; // Для подписей групп резерва у резервных блоков
+  terminals?: Terminal[];
+  showGrid?: boolean;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Сдвиг подписи порта внутрь блока и ее выравнивание
+const PORT_LABEL_PLACEMENT = {
+  left: { dx: 5, dy: 3, anchor: "start" },
+  right: { dx: -5, dy: 3, anchor: "end" },
+  top: { dx: 0, dy: 11, anchor: "middle" },
+  bottom: { dx: 0, dy: -5, anchor: "middle" },
+};
+
+/**
+ * Точки и подписи портов блока с несколькими входами или выходами
+ */
+function portMarks(block: Block, x: number, y: number, color: string) {
+  return (block.ports ?? [])
+    .map((port) => {
+      const anchor = portAnchor(block, portSide(port.kind), port.id);
+      const px = x + anchor.x - block.x * CELL_SIZE;
+      const py = y + anchor.y - block.y * CELL_SIZE;
+      const label = PORT_LABEL_PLACEMENT[port.placement];
+      return [
+        `<circle cx="${px}" cy="${py}" r="3" fill="${color}"/>`,
+        port.name
+          ? `<text x="${px + label.dx}" y="${py + label.dy}" text-anchor="${label.anchor}" font-family="Arial, sans-serif" font-size="8" fill="${color}">${escapeXml(port.name)}</text>`
+          : "",
+      ].join("");
+    })
+    .join("");
+}
+
+/**
+ * Рисунок схемы в самостоятельном SVG (светлая тема - для отчетов и печати).
+ * Резервные блоки - пунктиром с подписью группы, неподключенные - серым.
+ */
+export function renderSchemeSvg(
+  blocks: Block[],
+  connections: Connection[],
+  options: SchemeSvgOptions = {},
+): string {
+  const terminals = options.terminals || [];
+  const shape = layoutScheme(blocks, connections, terminals);
+  const disconnected = findDisconnectedBlocks(blocks, connections, terminals);
+
+  const spareLabels = new Map<string, string>();
+  resolveReserveGroups(blocks, options.reserveGroups || []).forEach(
+    (group, idx) =>
+      group.spareBlockIds.forEach((id) =>
+        spareLabels.set(id, reserveGroupLabel(idx)),
+      ),
+  );
+
+  const grid: string[] = [];
+  if (options.showGrid) {
+    for (let x = 0; x <= shape.width; x += CELL_SIZE) {
+      grid.push(
+        `<line x1="${x}" y1="0" x2="${x}" y2="${shape.height}" stroke="#e0e0e0" stroke-width="1"/>`,
+      );
+    }
+    for (let y = 0; y <= shape.height; y += CELL_SIZE) {
+      grid.push(
+        `<line x1="0" y1="${y}" x2="${shape.width}" y2="${y}" stroke="#e0e0e0" stroke-width="1"/>`,
+      );
+    }
+  }
+
+  const lines = shape.lines.map(
+    (line) =>
+      `<path d="${connectionPathData(line)}" stroke="#2b7a6f" stroke-width="2" fill="none"/>`,
+  );
+
+  const rects = shape.blocks.map(({ block, x, y, size }) => {
+    const connected = !disconnected.has(block.id);
+    const fill = !connected
+      ? "#eeeeee"
+      : block.isReserve
+        ? "#fbe4ef"
+        : "#e3f0fa";
+    const stroke = !connected
+      ? "#9e9e9e"
+      : block.isReserve
+        ? "#c2185b"
+        : "#007acc";
+    const textColor = connected ? "#1e1e1e" : "#757575";
+    const label = spareLabels.get(block.id);
+
+    return [
+      `<g${connected ? "" : ' opacity="0.7"'}>`,
+      `<rect x="${x}" y="${y}" width="${size}" height="${size}" rx="8" fill="${fill}" stroke="${stroke}" stroke-width="2"${block.isReserve ? ' stroke-dasharray="6,4"' : ""}/>`,
+      label
+        ? `<text x="${x + size - 6}" y="${y + 14}" text-anchor="end" font-family="Arial, sans-serif" font-size="10" fill="${stroke}">${escapeXml(label)}</text>`
+        : "",
+      `<text x="${x + size / 2}" y="${y + size / 2 - 4}" text-anchor="middle" font-family="Arial, sans-serif" font-size="14" font-weight="700" fill="${textColor}">#${block.number}</text>`,
+      `<text x="${x + size / 2}" y="${y + size / 2 + 14}" text-anchor="middle" font-family="Arial, sans-serif" font-size="11" fill="${textColor}">${formatReliability(block.reliability)}</text>`,
+      portMarks(block, x, y, stroke),
+      `</g>`,
+    ].join("");
+  });
+
+  // Полюс схемы - круг, касающийся точек подключения связей
+  const poles = shape.terminals.map(({ terminal, x, y, size }) =>
+    [
+      `<circle cx="${x + size / 2}" cy="${y + size / 2}" r="${size / 2}" fill="#e8f5e9" stroke="#2e7d32" stroke-width="2"/>`,
+      `<text x="${x + size / 2}" y="${y + size / 2 + 5}" text-anchor="middle" font-family="Arial, sans-serif" font-size="13" font-weight="700" fill="#1e1e1e">${TERMINAL_LABELS[terminal.kind]}</text>`,
+    ].join(""),
+  );
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${shape.width}" height="${shape.height}" viewBox="0 0 ${shape.width} ${shape.height}">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    ...grid,
+    ...lines,
+    ...rects,
+    ...poles,
+    `</svg>`,
+  ].join("\n");
+}
+
+/**
+ * Рисунок схемы для LaTeX (TikZ). Одна клетка сетки - 0.5 см.
+ */
+export function renderSchemeTikz(
+  blocks: Block[],
+  connections: Connection[],
+  terminals: Terminal[] = [],
+): string {
+  const shape = layoutScheme(blocks, connections, terminals);
+  const cm = (px: number) => `${Math.round((px / CELL_SIZE) * 50) / 100}`;
+  // В TikZ ось Y направлена вверх
+  const pt = (x: number, y: number) => `(${cm(x)},${cm(shape.height - y)})`;
+
+  const lines = shape.lines.map(
+    (line) => `  \\draw[thick] ${line.map((p) => pt(p.x, p.y)).join(" -- ")};`,
+  );
+  const rects = shape.blocks.map(({ block, x, y, size }) =>
+    [
+      `  \\draw[thick${block.isReserve ? ", dashed" : ""}, rounded corners=2pt] ${pt(x, y)} rectangle ${pt(x + size, y + size)};`,
+      `  \\node[align=center, font=\\small] at ${pt(x + size / 2, y + size / 2)} {\\#${block.number}\\\\${formatReliability(block.reliability)}};`,
+    ].join("\n"),
+  );
+
+  const poles = shape.terminals.map(
+    ({ terminal, x, y, size }) =>
+      `  \\draw[thick] ${pt(x + size / 2, y + size / 2)} circle (${cm(size / 2)}) node[font=\\small] {${TERMINAL_LABELS[terminal.kind]}};`,
+  );
+
+  return [
+    "\\begin{tikzpicture}",
+    ...lines,
+    ...rects,
+    ...poles,
+    "\\end{tikzpicture}",
+  ].join("\n");
+}
@@ -0,0 +1,162 @@
+import { ReliabilityNetwork, SimulationResult } from "./types";
+
+// Квантиль нормального распределения для 95% доверительного интервала
+const Z_95 = 1.96;
+// Расхождение с аналитикой считается значимым за пределами 99.9% интервала
+const Z_DISCREPANCY = 3.29;
+// Допуск на округление аналитического результата
+const ROUNDING_TOLERANCE = 1e-6;
+const PROGRESS_STEP = 10000;
+
+/**
+ * Генератор псевдослучайных чисел mulberry32: одинаковый seed - одинаковая последовательность
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Можно ли моделировать схему: у каждого компонента должны быть вход и выход
+ * (или схема целиком охвачена резервом всей системы)
+ */
+export function isSimulationSupported(network: ReliabilityNetwork): boolean {
+  if (network.whole) return true;
+  return (
+    network.components.length > 0 &&
+    network.components.every((c) => c !== null)
+  );
+}
+
+/**
+ * Оценка надежности схемы методом Монте-Карло.
+ * В каждом испытании состояние каждого блока разыгрывается по его надежности,
+ * затем проверяется связность входа и выхода каждого компонента по работающим ребрам.
+ */
+export function simulateNetwork(
+  network: ReliabilityNetwork,
+  trials: number,
+  seed: number,
+  onProgress?: (done: number) => void,
+): SimulationResult {
+  const random = createRandom(seed);
+
+  // Блоки и узлы - по индексам, чтобы испытание обходилось без строк
+  const blockIds = Object.keys(network.reliabilities);
+  const blockIndex = new Map(blockIds.map((id, idx) => [id, idx]));
+  const probabilities = blockIds.map((id) => network.reliabilities[id]);
+  const states = new Uint8Array(blockIds.length);
+
+  const toIndices = (ids: string[]) =>
+    ids
+      .map((id) => blockIndex.get(id))
+      .filter((idx): idx is number => idx !== undefined);
+
+  const whole = network.whole
+    ? { members: toIndices(network.whole.blockIds), required: network.whole.required }
+    : null;
+
+  const components = network.components
+    .filter((c): c is NonNullable<typeof c> => c !== null)
+    .map((component) => {
+      const nodes = new Map<string, number>();
+      const node = (name: string) => {
+        if (!nodes.has(name)) nodes.set(name, nodes.size);
+        return nodes.get(name)!;
+      };
+      const edges = component.edges.map((e) => ({
+        from: node(e.from),
+        to: node(e.to),
+        members: toIndices(e.blockIds),
+        required: e.required,
+      }));
+      return {
+        edges,
+        source: node(component.source),
+        sink: node(component.sink),
+        nodeCount: nodes.size,
+      };
+    });
+
+  const enough = (members: number[], required: number) => {
+    // Ребро порта (required = 0) работает всегда
+    let working = 0;
+    for (const idx of members) {
+      if (working >= required) return true;
+      working += states[idx];
+    }
+    return working >= required;
+  };
+
+  const componentWorks = (component: (typeof components)[number]) => {
+    const working = component.edges.filter((e) =>
+      enough(e.members, e.required),
+    );
+    const reached = new Uint8Array(component.nodeCount);
+    reached[component.source] = 1;
+    const stack = [component.source];
+    while (stack.length > 0) {
+      const cur = stack.pop()!;
+      if (cur === component.sink) return true;
+      for (const e of working) {
+        if (e.from === cur && !reached[e.to]) {
+          reached[e.to] = 1;
+          stack.push(e.to);
+        }
+      }
+    }
+    return false;
+  };
+
+  let successes = 0;
+  for (let trial = 1; trial <= trials; trial++) {
+    for (let i = 0; i < probabilities.length; i++) {
+      states[i] = random() < probabilities[i] ? 1 : 0;
+    }
+
+    const works = whole
+      ? enough(whole.members, whole.required)
+      : components.length > 0 && components.every(componentWorks);
+    if (works) successes += 1;
+
+    if (onProgress && trial % PROGRESS_STEP === 0) onProgress(trial);
+  }
+
+  const estimate = trials > 0 ? successes / trials : 0;
+  const standardError =
+    trials > 0 ? Math.sqrt((estimate * (1 - estimate)) / trials) : 0;
+
+  return {
+    trials,
+    successes,
+    estimate,
+    standardError,
+    confidenceLow: Math.max(0, estimate - Z_95 * standardError),
+    confidenceHigh: Math.min(1, estimate + Z_95 * standardError),
+    seed,
+  };
+}
+
+/**
+ * Аналитический результат не согласуется с оценкой моделирования
+ */
+export function hasDiscrepancy(
+  result: SimulationResult,
+  analytic: number,
+): boolean {
+  // При оценке 0 или 1 стандартная ошибка вырождается - берем ошибку для одного успеха/отказа
+  const error = Math.max(
+    result.standardError,
+    result.trials > 0 ? 1 / result.trials : 0,
+  );
+  return (
+    Math.abs(result.estimate - analytic) >
+    Z_DISCREPANCY * error + ROUNDING_TOLERANCE
+  );
+}
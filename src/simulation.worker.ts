@@ -0,0 +1,23 @@
+import { ReliabilityNetwork, SimulationResult } from "./types";
+import { simulateNetwork } from "./simulation";
+
+export interface SimulationRequest {
+  network: ReliabilityNetwork;
+  trials: number;
+  seed: number;
+}
+
+export type SimulationResponse =
+  | { type: "progress"; done: number }
+  | { type: "result"; result: SimulationResult };
+
+// Моделирование выполняется вне основного потока, чтобы интерфейс не замирал
+self.onmessage = (e: MessageEvent<SimulationRequest>) => {
+  const { network, trials, seed } = e.data;
+  const post = (response: SimulationResponse) => self.postMessage(response);
+
+  const result = simulateNetwork(network, trials, seed, (done) =>
+    post({ type: "progress", done }),
+  );
+  post({ type: "result", result });
+};
@@ -0,0 +1,288 @@
+import {
+  Block,
+  Connection,
+  LibraryItem,
+  ReserveGroup,
+  Subsystem,
+  Terminal,
+} from "./types";
+import { subsystemReliability } from "./calculations";
+import { BLOCK_SIZE } from "./geometry";
+
+// Схема одного уровня: схема верхнего уровня или подсистема составного блока
+export type SchemeView = Omit<Subsystem, "name">;
+
+// Путь к открытой подсистеме: id составных блоков от верхнего уровня вглубь
+export type SubsystemPath = string[];
+
+export const DEFAULT_SUBSYSTEM_NAME = "Подсистема";
+
+// Отступ блоков подсистемы от ее входа и выхода, клеток
+const PORT_GAP = BLOCK_SIZE + 4;
+
+/**
+ * Схема на уровне path; null - если такого составного блока уже нет
+ * (например, после отмены)
+ */
+export function subsystemAt<T extends SchemeView>(
+  root: T,
+  path: SubsystemPath,
+): SchemeView | null {
+  let view: SchemeView = root;
+  for (const id of path) {
+    const block = view.blocks.find((b) => b.id === id);
+    if (!block?.subsystem) return null;
+    view = block.subsystem;
+  }
+  return view;
+}
+
+/**
+ * Названия уровней пути для навигации. Обрывается на первом
+ * несуществующем уровне - по длине результата путь можно укоротить.
+ */
+export function subsystemPathNames(
+  root: SchemeView,
+  path: SubsystemPath,
+): string[] {
+  const names: string[] = [];
+  let view = root;
+  for (const id of path) {
+    const block = view.blocks.find((b) => b.id === id);
+    if (!block?.subsystem) break;
+    names.push(`#${block.number} ${block.subsystem.name}`);
+    view = block.subsystem;
+  }
+  return names;
+}
+
+/**
+ * Составной блок с новой подсистемой: надежность блока пересчитывается
+ */
+export function withSubsystem(block: Block, subsystem: Subsystem): Block {
+  return { ...block, subsystem, reliability: subsystemReliability(subsystem) };
+}
+
+/**
+ * Применяет правку к схеме на уровне path. Надежности составных блоков
+ * по пути пересчитываются снизу вверх.
+ */
+export function updateSubsystemAt<T extends SchemeView>(
+  root: T,
+  path: SubsystemPath,
+  updater: (view: SchemeView) => SchemeView,
+): T {
+  if (path.length === 0) return { ...root, ...updater(root) };
+
+  const [id, ...rest] = path;
+  return {
+    ...root,
+    blocks: root.blocks.map((block) => {
+      if (block.id !== id || !block.subsystem) return block;
+      return withSubsystem(
+        block,
+        updateSubsystemAt(block.subsystem, rest, updater),
+      );
+    }),
+  };
+}
+
+/**
+ * Сворачивает выделенные блоки в составной блок с id compositeId.
+ * Связи выделения с остальной схемой подключаются к точкам составного блока
+ * по стороне блока внутри: связи левых точек - к левой точке и ко входу
+ * подсистемы, правых - к правой точке и к выходу. Если с одной из сторон
+ * связей нет, вход и выход подсистемы не ставятся.
+ * Группы резерва целиком внутри выделения переносятся в подсистему,
+ * в остальных группах составной блок заменяет свернутые блоки.
+ */
+export function collapseToSubsystem<T extends SchemeView>(
+  view: T,
+  blockIds: string[],
+  compositeId: string,
+  name = DEFAULT_SUBSYSTEM_NAME,
+): T {
+  const ids = new Set(blockIds);
+  const selected = view.blocks.filter((b) => ids.has(b.id));
+  if (selected.length === 0) return view;
+
+  const minX = Math.min(...selected.map((b) => b.x));
+  const minY = Math.min(...selected.map((b) => b.y));
+  const maxX = Math.max(...selected.map((b) => b.x));
+  const maxY = Math.max(...selected.map((b) => b.y));
+
+  const isInner = (conn: Connection) =>
+    ids.has(conn.fromBlockId) && ids.has(conn.toBlockId);
+  const crossing = view.connections.filter(
+    (conn) =>
+      !isInner(conn) && (ids.has(conn.fromBlockId) || ids.has(conn.toBlockId)),
+  );
+
+  // Сторона составного блока и внешний конец каждой пересекающей связи
+  const outerEnds = crossing.map((conn) => {
+    const innerIsFrom = ids.has(conn.fromBlockId);
+    return {
+      conn,
+      inner: innerIsFrom
+        ? { id: conn.fromBlockId, side: conn.fromSide, port: conn.fromPort }
+        : { id: conn.toBlockId, side: conn.toSide, port: conn.toPort },
+      outer: innerIsFrom
+        ? { id: conn.toBlockId, side: conn.toSide, port: conn.toPort }
+        : { id: conn.fromBlockId, side: conn.fromSide, port: conn.fromPort },
+    };
+  });
+  const hasPorts =
+    outerEnds.some((e) => e.inner.side === "left") &&
+    outerEnds.some((e) => e.inner.side === "right");
+
+  const portY = Math.round((minY + maxY) / 2) - minY;
+  const terminals: Terminal[] = hasPorts
+    ? [
+        { id: `${compositeId}-input`, kind: "input", x: 0, y: portY },
+        {
+          id: `${compositeId}-output`,
+          kind: "output",
+          x: maxX - minX + 2 * PORT_GAP,
+          y: portY,
+        },
+      ]
+    : [];
+
+  // Связи входа и выхода подсистемы с портами свернутых блоков, без повторов
+  const portConnections = new Map<string, Connection>();
+  if (hasPorts) {
+    outerEnds.forEach(({ inner }) => {
+      const key = `${inner.id}:${inner.side}:${inner.port ?? ""}`;
+      if (portConnections.has(key)) return;
+      const id = `${compositeId}-port-${portConnections.size}`;
+      portConnections.set(
+        key,
+        inner.side === "left"
+          ? {
+              id,
+              fromBlockId: terminals[0].id,
+              toBlockId: inner.id,
+              fromSide: "right",
+              toSide: "left",
+              toPort: inner.port,
+            }
+          : {
+              id,
+              fromBlockId: inner.id,
+              toBlockId: terminals[1].id,
+              fromSide: "right",
+              toSide: "left",
+              fromPort: inner.port,
+            },
+      );
+    });
+  }
+
+  const isGroupInside = (group: ReserveGroup) =>
+    group.targetBlockIds.length > 0 &&
+    [...group.targetBlockIds, ...group.spareBlockIds].every((id) =>
+      ids.has(id),
+    );
+
+  const subsystem: Subsystem = {
+    name,
+    blocks: selected.map((b) => ({
+      ...b,
+      x: b.x - minX + (hasPorts ? PORT_GAP : 0),
+      y: b.y - minY,
+    })),
+    connections: [
+      ...view.connections.filter(isInner),
+      ...portConnections.values(),
+    ],
+    reserveGroups: view.reserveGroups.filter(isGroupInside),
+    terminals,
+  };
+
+  const composite = withSubsystem(
+    {
+      id: compositeId,
+      number: Math.min(...selected.map((b) => b.number)),
+      x: minX,
+      y: minY,
+      reliability: 0,
+    },
+    subsystem,
+  );
+
+  // Внешние связи переподключаются к составному блоку (у него обычные порты),
+  // повторы отбрасываются
+  const outerConnections = new Map<string, Connection>();
+  outerEnds.forEach(({ conn, inner, outer }) => {
+    const side = inner.side;
+    const key = `${outer.id}:${outer.side}:${outer.port ?? ""}:${side}`;
+    if (outerConnections.has(key)) return;
+    outerConnections.set(
+      key,
+      conn.fromBlockId === inner.id
+        ? {
+            ...conn,
+            fromBlockId: compositeId,
+            fromSide: side,
+            fromPort: undefined,
+          }
+        : { ...conn, toBlockId: compositeId, toSide: side, toPort: undefined },
+    );
+  });
+
+  const dedupe = (list: string[]) => [...new Set(list)];
+  const reserveGroups = view.reserveGroups
+    .filter((group) => !isGroupInside(group))
+    .map((group) =>
+      [...group.targetBlockIds, ...group.spareBlockIds].some((id) =>
+        ids.has(id),
+      )
+        ? {
+            ...group,
+            targetBlockIds: dedupe(
+              group.targetBlockIds.map((id) =>
+                ids.has(id) ? compositeId : id,
+              ),
+            ),
+            spareBlockIds: group.spareBlockIds.filter((id) => !ids.has(id)),
+          }
+        : group,
+    );
+
+  return {
+    ...view,
+    blocks: [...view.blocks.filter((b) => !ids.has(b.id)), composite],
+    connections: [
+      ...view.connections.filter(
+        (conn) => !ids.has(conn.fromBlockId) && !ids.has(conn.toBlockId),
+      ),
+      ...outerConnections.values(),
+    ],
+    reserveGroups,
+  };
+}
+
+/**
+ * Элемент библиотеки из подсистемы составного блока
+ */
+export function toLibraryItem(subsystem: Subsystem, id: string): LibraryItem {
+  return { ...subsystem, id };
+}
+
+/**
+ * Составной блок из элемента библиотеки с номером после последнего блока схемы
+ */
+export function instantiateLibraryItem(
+  item: LibraryItem,
+  blocks: Block[],
+  id: string,
+  position: { x: number; y: number },
+): Block {
+  const { id: _itemId, ...subsystem } = item;
+  const maxNumber =
+    blocks.length > 0 ? Math.max(...blocks.map((b) => b.number)) : 0;
+  return withSubsystem(
+    { id, number: maxNumber + 1, ...position, reliability: 0 },
+    subsystem,
+  );
+}
@@ -0,0 +1,135 @@
+import {
+  Block,
+  Connection,
+  ReserveGroup,
+  SweepAxis,
+  SweepParameter,
+  SweepResult,
+  Terminal,
+} from "./types";
+import {
+  DEFAULT_PRECISION,
+  calculateSystemReliability,
+} from "./calculations";
+import { saveTextFile } from "./fileDialog";
+
+export const MIN_SWEEP_STEPS = 2;
+// Точек на оси: для графика и для каждой оси тепловой карты
+export const MAX_LINE_STEPS = 200;
+export const MAX_HEATMAP_STEPS = 50;
+
+/**
+ * Равномерные значения параметра на отрезке [from, to], концы включены
+ */
+export function sweepPoints(axis: SweepAxis): number[] {
+  const steps = Math.max(MIN_SWEEP_STEPS, Math.floor(axis.steps));
+  return Array.from(
+    { length: steps },
+    (_, i) => axis.from + ((axis.to - axis.from) * i) / (steps - 1),
+  );
+}
+
+/**
+ * Блоки с подставленным значением параметра. Блоки с моделью отказов
+ * и составные блоки получают фиксированную надежность p.
+ */
+function withParameter(
+  blocks: Block[],
+  parameter: SweepParameter,
+  p: number,
+): Block[] {
+  return blocks.map((block) =>
+    parameter.kind === "all" || block.id === parameter.blockId
+      ? { ...block, reliability: p }
+      : block,
+  );
+}
+
+/**
+ * Надежность системы при переборе одного или двух параметров.
+ * Второй параметр подставляется после первого: при "все блоки" по x
+ * и блоке по y у этого блока берется значение y.
+ */
+export function runSweep(
+  blocks: Block[],
+  connections: Connection[],
+  reserveGroups: ReserveGroup[],
+  terminals: Terminal[],
+  xAxis: SweepAxis,
+  yAxis: SweepAxis | null = null,
+  precision = DEFAULT_PRECISION,
+): SweepResult {
+  const x = sweepPoints(xAxis);
+  const y = yAxis ? sweepPoints(yAxis) : null;
+
+  const reliability = (px: number, py: number | null) => {
+    let varied = withParameter(blocks, xAxis.parameter, px);
+    if (yAxis && py !== null) {
+      varied = withParameter(varied, yAxis.parameter, py);
+    }
+    return calculateSystemReliability(
+      varied,
+      connections,
+      reserveGroups,
+      terminals,
+      precision,
+    ).systemReliability;
+  };
+
+  const values = (y ?? [null]).map((py) => x.map((px) => reliability(px, py)));
+  return { x, y, values };
+}
+
+/**
+ * Обозначение параметра: p3 или p (все блоки)
+ */
+export function sweepParameterLabel(
+  parameter: SweepParameter,
+  blocks: Block[],
+): string {
+  if (parameter.kind === "all") return "p (все блоки)";
+  const block = blocks.find((b) => b.id === parameter.blockId);
+  return `p${block ? block.number : "?"}`;
+}
+
+// Поле CSV в кавычках, если в нем есть разделитель или кавычки
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Результат перебора в CSV: по строке на точку, столбцы - значения
+ * параметров и надежность системы G
+ */
+export function sweepToCsv(
+  result: SweepResult,
+  xLabel: string,
+  yLabel: string | null,
+): string {
+  const header = [xLabel, ...(result.y ? [yLabel ?? "y"] : []), "G"];
+  const rows: string[] = [header.map(csvField).join(",")];
+  result.values.forEach((row, j) =>
+    row.forEach((g, i) => {
+      const fields = [result.x[i], ...(result.y ? [result.y[j]] : []), g];
+      rows.push(fields.map(String).join(","));
+    }),
+  );
+  return rows.join("\n") + "\n";
+}
+
+/**
+ * Сохраняет CSV через системный диалог. Возвращает путь или null при отмене.
+ */
+export function exportSweepCsv(
+  csv: string,
+  name: string,
+): Promise<string | null> {
+  return saveTextFile(
+    {
+      title: "Экспорт результатов",
+      defaultPath: `${name}.csv`,
+      filters: [{ name: "CSV", extensions: ["csv"] }],
+    },
+    csv,
+  );
+}
@@ -1,22 +1,90 @@
 // Типы данных для приложения
 
+// Модель отказов блока: надежность как функция времени R(t)
+export type FailureModel =
+  | { kind: "exponential"; lambda: number } // R(t) = e^(-λt)
+  | { kind: "weibull"; beta: number; eta: number }; // R(t) = e^(-(t/η)^β)
+
 export interface Block {
   id: string;
   number: number;
   x: number;
   y: number;
-  reliability: number;
+  reliability: number; // Для блоков с моделью отказов - R(t) при текущем времени миссии
   isReserve?: boolean;
+  failureModel?: FailureModel; // Нет модели - фиксированная вероятность reliability
+  subsystem?: Subsystem; // Составной блок: reliability - надежность вложенной схемы
+  cost?: number; // Стоимость одного экземпляра блока (для оптимизации резерва)
+  weight?: number; // Вес (масса) одного экземпляра
+  ports?: BlockPort[]; // Нет портов - один вход слева и один выход справа
+}
+
+// Сторона блока, на которой расположен порт
+export type PortPlacement = "left" | "right" | "top" | "bottom";
+
+// Именованная точка подключения блока. Каждый порт - отдельная точка
+// соединения: блоку достаточно сигнала хотя бы на одном входном порту
+// ("ИЛИ"), а исправный блок выдает сигнал на все выходные порты. Сигнал
+// не переходит с порта на порт в обход блока, поэтому надежность зависит
+// от того, к каким портам подключены связи. Положение портов на нее не влияет.
+export interface BlockPort {
+  id: string;
+  name: string;
+  kind: "input" | "output";
+  placement: PortPlacement;
+}
+
+// Вложенная схема составного блока. Ее вход и выход - левая и правая точки
+// соединения блока на схеме верхнего уровня.
+export interface Subsystem {
+  name: string;
+  blocks: Block[];
+  connections: Connection[];
+  reserveGroups: ReserveGroup[];
+  terminals: Terminal[];
+}
+
+// Элемент библиотеки: подсистема, которую можно вставить в схему как составной блок
+export interface LibraryItem extends Subsystem {
+  id: string;
+}
+
+// Полюс схемы: вход или выход системы. Занимает на холсте место как блок,
+// связи подключаются к нему так же, как к блоку (у входа - только правая точка,
+// у выхода - только левая)
+export interface Terminal {
+  id: string;
+  kind: "input" | "output";
+  x: number;
+  y: number;
 }
 
 export interface Connection {
   id: string;
-  fromBlockId: string;
+  fromBlockId: string; // id блока или полюса схемы
   toBlockId: string;
-  fromSide: "left" | "right"; // Сторона первого блока
+  fromSide: "left" | "right"; // Сторона первого блока: left - вход, right - выход
   toSide: "left" | "right"; // Сторона второго блока
+  fromPort?: string; // Порт первого блока; нет - первый порт этой стороны
+  toPort?: string;
+}
+
+// Группа резерва: запасные блоки для блока или фрагмента схемы, работает, если исправны
+// хотя бы required из n = (основные + резервные) элементов группы
+export interface ReserveGroup {
+  id: string;
+  targetBlockIds: string[]; // Резервируемые блоки; пусто - вся система
+  spareBlockIds: string[];
+  required: number; // k
 }
 
+// Куда назначается резервный блок: в резерв всей системы, в существующую группу
+// или в новую группу для одного блока
+export type SpareTarget =
+  | { kind: "system" }
+  | { kind: "group"; groupId: string }
+  | { kind: "block"; blockId: string };
+
 export type ConnectionType = "sequential" | "parallel" | "reserve" | null;
 
 export interface SystemCalculations {
@@ -27,10 +95,196 @@ export interface SystemCalculations {
   memory: number;
   uvv: number; // УВВ
   computationalSystemReadiness: number; // G_вс
-  computationalSystemEfficiency: number; // E_вс
+  computationalSystemEfficiency: number; // E_вс = G_вс/N
+  cost: number; // Стоимость конфигурации
+  withinCostLimit: boolean;
+}
+
+// Исходные данные для расчета вычислительной системы
+export interface SystemParameters {
+  useSchemeReliability: boolean; // P_np берется из схемы на холсте
+  processorReliability: number; // P_np одного процессора (если не из схемы)
+  requiredProcessors: number; // Минимум работающих процессоров (m)
+  maxProcessors: number; // N_max
+  memoryReliability: number;
+  uvvReliability: number; // УВВ
+  processorCost: number;
+  memoryCost: number;
+  uvvCost: number;
+  costLimit: number; // 0 - без ограничения
+}
+
+// Точность расчета надежности схемы
+export interface CalculationPrecision {
+  exact: boolean; // Точные дроби вместо округления до 6 знаков на каждом шаге
+  digits: number; // Знаков после запятой при выводе точных значений
 }
 
 export interface CalculationResults {
   configurations: SystemCalculations[];
   bestConfiguration: SystemCalculations | null;
 }
+
+export interface ProjectMetadata {
+  name: string;
+  createdAt: string; // ISO-дата создания
+  updatedAt: string; // ISO-дата последнего сохранения
+}
+
+// Содержимое файла проекта (.vsproj)
+export interface ProjectFile {
+  format: string;
+  version: number; // Версия схемы файла, см. PROJECT_VERSION
+  metadata: ProjectMetadata;
+  blocks: Block[];
+  connections: Connection[];
+  reserveGroups: ReserveGroup[];
+  terminals: Terminal[]; // Вход и выход системы; пусто - вход определяется по номерам блоков
+  missionTime: number; // Время миссии t, ч
+  system: SystemParameters;
+  library: LibraryItem[];
+}
+
+// Ребро сети на шинах: блок, свернутая группа резерва или ребро порта.
+// Ребро работает, если работают не менее required блоков из blockIds
+// (у ребра порта блоков нет и required = 0 - оно работает всегда).
+export interface NetworkEdge {
+  from: string;
+  to: string;
+  blockIds: string[];
+  required: number;
+}
+
+// Структура схемы, по которой ведется расчет: компоненты соединены последовательно.
+// Компонент null - у сети нет ни начала, ни конца (надежность не определена).
+export interface ReliabilityNetwork {
+  components: Array<{ edges: NetworkEdge[]; source: string; sink: string } | null>;
+  whole: { blockIds: string[]; required: number } | null; // Резерв всей системы
+  reliabilities: Record<string, number>; // Надежность блоков по id
+}
+
+// Последовательно-параллельная структура схемы (для автоматической раскладки).
+// network - фрагмент, не сводящийся к последовательно-параллельному (мостик):
+// ребра между узлами-шинами, каждое со своей структурой.
+export type SchemeStructure =
+  | { kind: "block"; blockId: string }
+  | { kind: "series"; items: SchemeStructure[] }
+  | { kind: "parallel"; items: SchemeStructure[] }
+  | {
+      kind: "network";
+      edges: Array<{ from: string; to: string; item: SchemeStructure }>;
+    };
+
+// Результат статистического моделирования
+export interface SimulationResult {
+  trials: number;
+  successes: number;
+  estimate: number;
+  standardError: number;
+  confidenceLow: number; // Границы 95% доверительного интервала
+  confidenceHigh: number;
+  seed: number;
+}
+
+// Изменяемый параметр анализа чувствительности: надежность одного блока
+// или общая надежность всех блоков схемы
+export type SweepParameter =
+  | { kind: "block"; blockId: string }
+  | { kind: "all" };
+
+export interface SweepAxis {
+  parameter: SweepParameter;
+  from: number;
+  to: number;
+  steps: number; // Число точек, включая концы отрезка
+}
+
+// Результат перебора: values[j][i] - надежность системы при x[i] и y[j].
+// Для одного параметра y = null и values содержит одну строку.
+export interface SweepResult {
+  x: number[];
+  y: number[] | null;
+  values: number[][];
+}
+
+// Цель оптимизации резерва: наименьшая стоимость при надежности не ниже target
+// или наибольшая надежность при стоимости не больше budget
+export type RedundancyGoal =
+  | { kind: "min-cost"; target: number }
+  | { kind: "max-reliability"; budget: number };
+
+// Вид добавляемых копий: параллельные блоки, подключенные связями, или
+// резервные блоки в группе резерва блока
+export type RedundancyCopyKind = "parallel" | "reserve";
+
+export interface RedundancyProblem {
+  goal: RedundancyGoal;
+  copyKind: RedundancyCopyKind;
+  weightLimit: number; // 0 - без ограничения
+  maxCopies: number; // Наибольшее число добавляемых копий одного блока
+}
+
+// Решение: сколько копий добавить к каждому блоку
+export interface RedundancyPlan {
+  method: "exact" | "heuristic"; // Метод ветвей и границ или жадная эвристика
+  copyKind: RedundancyCopyKind;
+  copies: Record<string, number>; // По id блока; блоки без копий не указываются
+  reliability: number; // Надежность системы с копиями
+  cost: number; // Стоимость добавленных копий
+  weight: number;
+  feasible: boolean; // Ограничения выполнены (для min-cost - достигнута target)
+  evaluations: number; // Сколько раз пересчитана надежность схемы
+}
+
+// Показатели значимости блока
+export type ImportanceMeasure = "birnbaum" | "criticality" | "raw" | "rrw";
+
+export interface BlockImportance {
+  blockId: string;
+  birnbaum: number; // ∂G/∂p_i = G(p_i = 1) - G(p_i = 0)
+  criticality: number; // Доля отказов системы, вызванных отказом блока
+  raw: number; // Risk Achievement Worth: рост риска при заведомом отказе блока
+  rrw: number; // Risk Reduction Worth: снижение риска при идеальном блоке
+}
+
+// Замечание проверки схемы
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+export type DiagnosticKind =
+  | "dangling-block" // Блок не участвует в расчете
+  | "same-side-connection" // Выход-выход или вход-вход, не образующие шину
+  | "cycle" // Замкнутый контур из блоков
+  | "disconnected-component" // Часть схемы, не связанная с остальной
+  | "reserve-connected" // Резервный блок подключен связями
+  | "duplicate-connection"; // Повторная связь между теми же точками
+
+export interface Diagnostic {
+  id: string; // Устойчивый ключ: вид и затронутые элементы
+  kind: DiagnosticKind;
+  severity: DiagnosticSeverity;
+  message: string;
+  blockIds: string[];
+  connectionIds: string[];
+}
+
+// Минимальные пути и сечения схемы. Путь - наименьший набор блоков, исправность
+// которых обеспечивает работу системы; сечение - наименьший набор блоков,
+// отказ которых приводит к отказу системы.
+export type MinimalSetKind = "path" | "cut";
+
+export interface MinimalSet {
+  id: string; // Устойчивый ключ: вид и блоки
+  kind: MinimalSetKind;
+  blockIds: string[]; // По возрастанию номеров блоков
+}
+
+export type MinimalSetsResult =
+  | {
+      kind: "sets";
+      paths: MinimalSet[];
+      cuts: MinimalSet[];
+      lowerBound: number; // Оценки Эзари-Прошана
+      upperBound: number;
+    }
+  | { kind: "unsupported" } // У части схемы нет ни начала, ни конца
+  | { kind: "too-many" }; // Наборов слишком много для перечисления
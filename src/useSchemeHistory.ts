@@ -0,0 +1,100 @@
+import { useCallback, useState } from "react";
+import {
+  SchemeCommand,
+  SchemeState,
+  applyCommand,
+  createCommand,
+  mergeCommands,
+} from "./history";
+
+const HISTORY_LIMIT = 200;
+
+interface HistoryState {
+  present: SchemeState;
+  past: SchemeCommand[];
+  future: SchemeCommand[];
+}
+
+/**
+ * Состояние схемы с историей отмены/повтора.
+ * Все изменения проходят через commit, который превращает разницу состояний в команду.
+ */
+export function useSchemeHistory(initial: SchemeState) {
+  const [history, setHistory] = useState<HistoryState>({
+    present: initial,
+    past: [],
+    future: [],
+  });
+
+  const commit = useCallback(
+    (
+      label: string,
+      updater: (scheme: SchemeState) => SchemeState,
+      mergeKey?: string,
+    ) => {
+      setHistory((h) => {
+        const next = updater(h.present);
+        const command = createCommand(label, h.present, next, mergeKey);
+        if (!command) return h;
+
+        const last = h.past[h.past.length - 1];
+        if (mergeKey && last && last.mergeKey === mergeKey) {
+          const merged = mergeCommands(last, command, next);
+          return {
+            present: next,
+            past: merged ? [...h.past.slice(0, -1), merged] : h.past.slice(0, -1),
+            future: [],
+          };
+        }
+
+        return {
+          present: next,
+          past: [...h.past, command].slice(-HISTORY_LIMIT),
+          future: [],
+        };
+      });
+    },
+    [],
+  );
+
+  const undo = useCallback(() => {
+    setHistory((h) => {
+      const command = h.past[h.past.length - 1];
+      if (!command) return h;
+      return {
+        present: applyCommand(h.present, command, "undo"),
+        past: h.past.slice(0, -1),
+        future: [command, ...h.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((h) => {
+      const command = h.future[0];
+      if (!command) return h;
+      return {
+        present: applyCommand(h.present, command, "redo"),
+        past: [...h.past, command],
+        future: h.future.slice(1),
+      };
+    });
+  }, []);
+
+  // Новое состояние без истории (например, после открытия файла)
+  const reset = useCallback((scheme: SchemeState) => {
+    setHistory({ present: scheme, past: [], future: [] });
+  }, []);
+
+  return {
+    scheme: history.present,
+    commit,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoLabel: history.past[history.past.length - 1]?.label ?? null,
+    redoLabel: history.future[0]?.label ?? null,
+  };
+}
@@ -0,0 +1,454 @@
+import {
+  Block,
+  Connection,
+  Diagnostic,
+  DiagnosticKind,
+  DiagnosticSeverity,
+  Terminal,
+} from "./types";
+import {
+  buildSchemeNodes,
+  findDisconnectedBlocks,
+  resolveTerminals,
+} from "./calculations";
+import { findPort } from "./ports";
+
+export const SEVERITY_LABELS: Record<DiagnosticSeverity, string> = {
+  error: "Ошибка",
+  warning: "Предупреждение",
+  info: "Замечание",
+};
+
+const SEVERITY_ORDER: Record<DiagnosticSeverity, number> = {
+  error: 0,
+  warning: 1,
+  info: 2,
+};
+
+function diagnostic(
+  kind: DiagnosticKind,
+  severity: DiagnosticSeverity,
+  message: string,
+  blockIds: string[],
+  connectionIds: string[] = [],
+): Diagnostic {
+  return {
+    id: `${kind}:${[...blockIds, ...connectionIds].join(",")}`,
+    kind,
+    severity,
+    message,
+    blockIds,
+    connectionIds,
+  };
+}
+
+/**
+ * Подписи элементов схемы в сообщениях: номера блоков и названия полюсов
+ */
+interface Labels {
+  isBlock: (id: string) => boolean;
+  label: (id: string) => string;
+  list: (ids: string[]) => string; // "#1, #2, #5" по возрастанию номеров
+}
+
+function createLabels(blocks: Block[], terminals: Terminal[]): Labels {
+  const blockMap = new Map(blocks.map((b) => [b.id, b]));
+  const terminalMap = new Map(terminals.map((t) => [t.id, t]));
+
+  const label = (id: string) => {
+    const block = blockMap.get(id);
+    if (block) return `#${block.number}`;
+    const terminal = terminalMap.get(id);
+    if (terminal) {
+      return terminal.kind === "input" ? "вход системы" : "выход системы";
+    }
+    return id;
+  };
+  const list = (ids: string[]) =>
+    [...ids]
+      .sort(
+        (a, b) =>
+          (blockMap.get(a)?.number ?? 0) - (blockMap.get(b)?.number ?? 0),
+      )
+      .map(label)
+      .join(", ");
+
+  return { isBlock: (id) => blockMap.has(id), label, list };
+}
+
+/**
+ * Повторные связи между теми же точками (в любом направлении)
+ */
+function checkDuplicates(
+  blocks: Block[],
+  connections: Connection[],
+  labels: Labels,
+): Diagnostic[] {
+  const result: Diagnostic[] = [];
+  const seen = new Map<string, Connection>();
+  const blockMap = new Map(blocks.map((b) => [b.id, b]));
+
+  // Связь без порта и связь к первому порту стороны подключены к одной точке
+  const end = (id: string, side: "left" | "right", portId?: string) =>
+    `${id}:${side}:${findPort(blockMap.get(id) ?? {}, side, portId).id}`;
+
+  connections.forEach((conn) => {
+    const key = [
+      end(conn.fromBlockId, conn.fromSide, conn.fromPort),
+      end(conn.toBlockId, conn.toSide, conn.toPort),
+    ]
+      .sort()
+      .join("|");
+    const first = seen.get(key);
+    if (!first) {
+      seen.set(key, conn);
+      return;
+    }
+
+    result.push(
+      diagnostic(
+        "duplicate-connection",
+        "info",
+        `Связь ${labels.label(conn.fromBlockId)} - ${labels.label(conn.toBlockId)} повторяется`,
+        [conn.fromBlockId, conn.toBlockId].filter(labels.isBlock),
+        [first.id, conn.id],
+      ),
+    );
+  });
+
+  return result;
+}
+
+/**
+ * Резервный блок в расчете не подключается связями - они игнорируются
+ */
+function checkReserveConnections(
+  blocks: Block[],
+  connections: Connection[],
+  labels: Labels,
+): Diagnostic[] {
+  return blocks
+    .filter((b) => b.isReserve)
+    .map((block) => ({
+      block,
+      ids: connections
+        .filter((c) => c.fromBlockId === block.id || c.toBlockId === block.id)
+        .map((c) => c.id),
+    }))
+    .filter(({ ids }) => ids.length > 0)
+    .map(({ block, ids }) =>
+      diagnostic(
+        "reserve-connected",
+        "warning",
+        `Резервный блок ${labels.label(block.id)} подключен связями - в расчете они не учитываются`,
+        [block.id],
+        ids,
+      ),
+    );
+}
+
+/**
+ * Связи выход-выход и вход-вход: у полюсов схемы всегда ошибка,
+ * между блоками - если общая шина никуда не ведет
+ */
+function checkSameSideConnections(
+  blocks: Block[],
+  connections: Connection[],
+  terminals: Terminal[],
+  labels: Labels,
+): Diagnostic[] {
+  const result: Diagnostic[] = [];
+  const terminalMap = new Map(terminals.map((t) => [t.id, t]));
+  const { blockNodes, portLinks, connectionNodes, poles } = buildSchemeNodes(
+    blocks,
+    connections,
+    terminals,
+  );
+
+  const inCount = new Map<string, number>();
+  const outCount = new Map<string, number>();
+  [...blockNodes.values(), ...portLinks].forEach(({ from, to }) => {
+    if (from === to) return;
+    outCount.set(from, (outCount.get(from) || 0) + 1);
+    inCount.set(to, (inCount.get(to) || 0) + 1);
+  });
+  const nodes = new Set([...inCount.keys(), ...outCount.keys()]);
+  // Без полюсов концом схемы считается узел без исходящих ребер - если он один, это не ошибка
+  const sinkCount = [...nodes].filter((n) => !outCount.has(n)).length;
+  const sourceCount = [...nodes].filter((n) => !inCount.has(n)).length;
+
+  connections.forEach((conn) => {
+    const ends = [
+      { id: conn.fromBlockId, side: conn.fromSide },
+      { id: conn.toBlockId, side: conn.toSide },
+    ];
+
+    // У входа системы есть только выход, у выхода - только вход
+    const terminalEnd = ends.find((e) => terminalMap.has(e.id));
+    if (terminalEnd) {
+      const other = ends.find((e) => e !== terminalEnd)!;
+      const kind = terminalMap.get(terminalEnd.id)!.kind;
+      if (!labels.isBlock(other.id)) return;
+      if (kind === "input" && other.side === "right") {
+        result.push(
+          diagnostic(
+            "same-side-connection",
+            "error",
+            `Вход системы подключен к выходу блока ${labels.label(other.id)}`,
+            [other.id],
+            [conn.id],
+          ),
+        );
+      } else if (kind === "output" && other.side === "left") {
+        result.push(
+          diagnostic(
+            "same-side-connection",
+            "error",
+            `Выход системы подключен к входу блока ${labels.label(other.id)}`,
+            [other.id],
+            [conn.id],
+          ),
+        );
+      }
+      return;
+    }
+
+    if (conn.fromSide !== conn.toSide) return;
+    if (!blockNodes.has(conn.fromBlockId) || !blockNodes.has(conn.toBlockId)) {
+      return;
+    }
+
+    // Оба конца связи - одна точка соединения (шина)
+    const node = connectionNodes.get(conn.id)!.from;
+    const pair = labels.list([conn.fromBlockId, conn.toBlockId]);
+    if (conn.fromSide === "right") {
+      const deadEnd =
+        !outCount.has(node) &&
+        (poles ? node !== poles.sink : sinkCount > 1);
+      if (deadEnd) {
+        result.push(
+          diagnostic(
+            "same-side-connection",
+            "warning",
+            `Выходы блоков ${pair} соединены, но цепь дальше не продолжается`,
+            [conn.fromBlockId, conn.toBlockId],
+            [conn.id],
+          ),
+        );
+      }
+    } else {
+      const deadEnd =
+        !inCount.has(node) &&
+        (poles ? node !== poles.source : sourceCount > 1);
+      if (deadEnd) {
+        result.push(
+          diagnostic(
+            "same-side-connection",
+            "warning",
+            `Входы блоков ${pair} соединены, но к ним ничего не подключено`,
+            [conn.fromBlockId, conn.toBlockId],
+            [conn.id],
+          ),
+        );
+      }
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Блоки вне расчета и несвязанные части схемы.
+ * С полюсами часть схемы без входа и выхода отбрасывается целиком,
+ * без полюсов несвязанные части перемножаются как последовательные.
+ */
+function checkConnectivity(
+  blocks: Block[],
+  connections: Connection[],
+  terminals: Terminal[],
+  labels: Labels,
+): Diagnostic[] {
+  const result: Diagnostic[] = [];
+  const reasons = findDisconnectedBlocks(blocks, connections, terminals);
+  const withTerminals = resolveTerminals(terminals) !== null;
+
+  // Компоненты связности основных блоков и полюсов по любым связям
+  const members = new Set([
+    ...blocks.filter((b) => !b.isReserve).map((b) => b.id),
+    ...terminals.map((t) => t.id),
+  ]);
+  const neighbors = new Map<string, string[]>();
+  members.forEach((id) => neighbors.set(id, []));
+  connections.forEach((conn) => {
+    if (!members.has(conn.fromBlockId) || !members.has(conn.toBlockId)) return;
+    neighbors.get(conn.fromBlockId)!.push(conn.toBlockId);
+    neighbors.get(conn.toBlockId)!.push(conn.fromBlockId);
+  });
+
+  const visited = new Set<string>();
+  const components: string[][] = [];
+  members.forEach((start) => {
+    if (visited.has(start)) return;
+    const component: string[] = [];
+    const stack = [start];
+    visited.add(start);
+    while (stack.length > 0) {
+      const cur = stack.pop()!;
+      component.push(cur);
+      neighbors.get(cur)!.forEach((n) => {
+        if (!visited.has(n)) {
+          visited.add(n);
+          stack.push(n);
+        }
+      });
+    }
+    components.push(component);
+  });
+
+  const dangling = (id: string) =>
+    diagnostic(
+      "dangling-block",
+      "warning",
+      `Блок ${labels.label(id)} не участвует в расчете: ${reasons.get(id)}`,
+      [id],
+    );
+
+  if (withTerminals) {
+    components.forEach((component) => {
+      const blockIds = component.filter(labels.isBlock);
+      if (blockIds.length > 1 && blockIds.length === component.length) {
+        result.push(
+          diagnostic(
+            "disconnected-component",
+            "warning",
+            `Блоки ${labels.list(blockIds)} не связаны ни с входом, ни с выходом системы и не участвуют в расчете`,
+            blockIds,
+          ),
+        );
+        return;
+      }
+      blockIds.filter((id) => reasons.has(id)).forEach((id) => {
+        result.push(dangling(id));
+      });
+    });
+    return result;
+  }
+
+  // Часть схемы, в которой есть хотя бы один подключенный блок, считается целиком;
+  // такие части умножаются друг на друга
+  const counted = components.filter((component) =>
+    component.some((id) => !reasons.has(id)),
+  );
+  components
+    .filter((component) => !counted.includes(component))
+    .flat()
+    .filter(labels.isBlock)
+    .forEach((id) => result.push(dangling(id)));
+
+  if (counted.length > 1) {
+    counted.slice(1).forEach((component) => {
+      result.push(
+        diagnostic(
+          "disconnected-component",
+          "warning",
+          `Блоки ${labels.list(component)} не связаны с остальной схемой - в расчете они включены последовательно с ней`,
+          component,
+        ),
+      );
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Замкнутые контуры: блоки, выход которых через другие блоки снова приводит к их входу
+ */
+function checkCycles(
+  blocks: Block[],
+  connections: Connection[],
+  terminals: Terminal[],
+  labels: Labels,
+): Diagnostic[] {
+  const { blockNodes, portLinks } = buildSchemeNodes(
+    blocks,
+    connections,
+    terminals,
+  );
+  const edges = [...blockNodes.entries()]
+    .filter(([, e]) => e.from !== e.to)
+    .map(([id, e]) => ({ id, ...e }));
+  // Ребра портов проводят сигнал, но контур образуют только блоки
+  const links = [...edges, ...portLinks];
+
+  const reachCache = new Map<string, Set<string>>();
+  const reach = (start: string): Set<string> => {
+    const cached = reachCache.get(start);
+    if (cached) return cached;
+    const seen = new Set<string>([start]);
+    const stack = [start];
+    while (stack.length > 0) {
+      const cur = stack.pop()!;
+      links.forEach((e) => {
+        if (e.from === cur && !seen.has(e.to)) {
+          seen.add(e.to);
+          stack.push(e.to);
+        }
+      });
+    }
+    reachCache.set(start, seen);
+    return seen;
+  };
+
+  // Ребро лежит на контуре, если из его конца достижимо начало.
+  // Ребра одного контура группируются по компоненте сильной связности начала.
+  const cycles = new Map<string, string[]>();
+  edges.forEach((e) => {
+    if (!reach(e.to).has(e.from)) return;
+    const key = [...reach(e.from)]
+      .filter((n) => reach(n).has(e.from))
+      .sort()
+      .join("|");
+    cycles.set(key, [...(cycles.get(key) || []), e.id]);
+  });
+
+  const legacy = resolveTerminals(terminals) === null;
+  return [...cycles.values()].map((blockIds) =>
+    diagnostic(
+      "cycle",
+      "warning",
+      `Блоки ${labels.list(blockIds)} образуют замкнутый контур${legacy ? " - порядок блоков в расчете может определяться по номерам" : ""}`,
+      blockIds,
+      connections
+        .filter(
+          (c) =>
+            blockIds.includes(c.fromBlockId) && blockIds.includes(c.toBlockId),
+        )
+        .map((c) => c.id),
+    ),
+  );
+}
+
+/**
+ * Проверка схемы: все замечания, отсортированные по важности
+ */
+export function validateScheme(
+  blocks: Block[],
+  connections: Connection[],
+  terminals: Terminal[] = [],
+): Diagnostic[] {
+  const labels = createLabels(blocks, terminals);
+
+  const diagnostics = [
+    ...checkSameSideConnections(blocks, connections, terminals, labels),
+    ...checkConnectivity(blocks, connections, terminals, labels),
+    ...checkCycles(blocks, connections, terminals, labels),
+    ...checkReserveConnections(blocks, connections, labels),
+    ...checkDuplicates(blocks, connections, labels),
+  ];
+
+  // Сортировка устойчивая: внутри одной важности порядок проверок сохраняется
+  return diagnostics.sort(
+    (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity],
+  );
+}
@@ -0,0 +1,146 @@
+import { Block, Terminal } from "./types";
+import { BLOCK_SIZE, CELL_SIZE } from "./geometry";
+
+/**
+ * Вид на холст: (x, y) - положение начала координат схемы на экране в пикселях,
+ * zoom - масштаб. Экранная точка = точка схемы * zoom + (x, y).
+ */
+export interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+// Прямоугольник в пикселях схемы (при масштабе 1)
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const MIN_ZOOM = 0.2;
+export const MAX_ZOOM = 3;
+export const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, zoom: 1 };
+
+const clampZoom = (zoom: number) =>
+  Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export function screenToWorld(
+  view: Viewport,
+  screenX: number,
+  screenY: number,
+): { x: number; y: number } {
+  return {
+    x: (screenX - view.x) / view.zoom,
+    y: (screenY - view.y) / view.zoom,
+  };
+}
+
+/**
+ * Меняет масштаб в factor раз так, чтобы точка под курсором осталась на месте
+ */
+export function zoomAt(
+  view: Viewport,
+  factor: number,
+  screenX: number,
+  screenY: number,
+): Viewport {
+  const zoom = clampZoom(view.zoom * factor);
+  const point = screenToWorld(view, screenX, screenY);
+  return { x: screenX - point.x * zoom, y: screenY - point.y * zoom, zoom };
+}
+
+/**
+ * Видимая часть схемы для экрана размером width x height
+ */
+export function visibleRect(
+  view: Viewport,
+  width: number,
+  height: number,
+): Rect {
+  const origin = screenToWorld(view, 0, 0);
+  return {
+    x: origin.x,
+    y: origin.y,
+    width: width / view.zoom,
+    height: height / view.zoom,
+  };
+}
+
+/**
+ * Вид, при котором точка схемы (x, y) оказывается в центре экрана
+ */
+export function centerOn(
+  view: Viewport,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+): Viewport {
+  return {
+    ...view,
+    x: width / 2 - x * view.zoom,
+    y: height / 2 - y * view.zoom,
+  };
+}
+
+/**
+ * Габариты блоков и полюсов схемы; null для пустой схемы
+ */
+export function schemeBounds(
+  blocks: Block[],
+  terminals: Terminal[],
+): Rect | null {
+  const nodes = [...blocks, ...terminals];
+  if (nodes.length === 0) return null;
+
+  const size = BLOCK_SIZE * CELL_SIZE;
+  // Точки соединения выступают за блок на клетку с каждой стороны
+  const minX = Math.min(...nodes.map((n) => n.x)) * CELL_SIZE - CELL_SIZE;
+  const maxX =
+    Math.max(...nodes.map((n) => n.x)) * CELL_SIZE + size + CELL_SIZE;
+  const minY = Math.min(...nodes.map((n) => n.y)) * CELL_SIZE;
+  const maxY = Math.max(...nodes.map((n) => n.y)) * CELL_SIZE + size;
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Наименьший прямоугольник, содержащий оба
+ */
+export function unionRect(a: Rect, b: Rect): Rect {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+/**
+ * Вид, вписывающий прямоугольник в экран с отступом padding (пиксели экрана).
+ * Крупнее масштаба 1 схема не увеличивается.
+ */
+export function fitRect(
+  rect: Rect,
+  width: number,
+  height: number,
+  padding = 40,
+): Viewport {
+  const zoom = clampZoom(
+    Math.min(
+      1,
+      (width - 2 * padding) / rect.width,
+      (height - 2 * padding) / rect.height,
+    ),
+  );
+  return centerOn(
+    { x: 0, y: 0, zoom },
+    rect.x + rect.width / 2,
+    rect.y + rect.height / 2,
+    width,
+    height,
+  );
+}
@@ -0,0 +1,15 @@
+import { defineConfig } from "vite";
+
+// Сборка CLI для Node.js: движок расчета без React и Tauri в один файл
+export default defineConfig({
+  clearScreen: false,
+  build: {
+    ssr: "cli/index.ts",
+    outDir: "dist-cli",
+    target: "node18",
+    emptyOutDir: true,
+    rollupOptions: {
+      output: { entryFileNames: "vs-cli.js" },
+    },
+  },
+});